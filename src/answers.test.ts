@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  readAnswersFile,
+  writeAnswersFile,
+  resolveAnswers,
+  recordAnswer,
+  recordAnswerForAll
+} from './answers';
+import type { AnswersFile } from './types';
+
+describe('answers', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('readAnswersFile', () => {
+    it('should read a JSON answers file', () => {
+      const filePath = path.join(tempDir, 'answers.json');
+      fs.writeFileSync(filePath, JSON.stringify({
+        defaults: { onExisting: 'overwrite', compatiblePrintersCondition: 'KEEP' },
+        profiles: { 'My Printer': { inherits: 'Voron 2.4 300 0.4 nozzle' } }
+      }));
+
+      const answersFile = readAnswersFile(filePath);
+      expect(answersFile.defaults?.onExisting).toBe('overwrite');
+      expect(answersFile.profiles?.['My Printer'].inherits).toBe('Voron 2.4 300 0.4 nozzle');
+    });
+
+    it('should read a YAML answers file', () => {
+      const filePath = path.join(tempDir, 'answers.yaml');
+      fs.writeFileSync(filePath, `defaults:
+  nozzleSize: 0.4
+  physicalPrinter: <NONE>
+profiles:
+  PLA:
+    compatiblePrintersCondition: DISCARD
+`);
+
+      const answersFile = readAnswersFile(filePath);
+      expect(answersFile.defaults?.nozzleSize).toBe(0.4);
+      expect(answersFile.defaults?.physicalPrinter).toBe('<NONE>');
+      expect(answersFile.profiles?.['PLA'].compatiblePrintersCondition).toBe('DISCARD');
+    });
+
+    it('should accept an empty file', () => {
+      const filePath = path.join(tempDir, 'answers.yml');
+      fs.writeFileSync(filePath, '');
+      expect(readAnswersFile(filePath)).toEqual({ defaults: {}, profiles: {} });
+    });
+
+    it('should reject invalid answers', () => {
+      const filePath = path.join(tempDir, 'answers.json');
+      fs.writeFileSync(filePath, JSON.stringify({ defaults: { onExisting: 'replace' } }));
+      expect(() => readAnswersFile(filePath)).toThrow('Invalid onExisting');
+
+      fs.writeFileSync(filePath, JSON.stringify({ profiles: { x: { compatiblePrintsCondition: 'MAYBE' } } }));
+      expect(() => readAnswersFile(filePath)).toThrow('Invalid compatiblePrintsCondition');
+
+      fs.writeFileSync(filePath, JSON.stringify({ defaults: { iniType: 'physical_printer' } }));
+      expect(() => readAnswersFile(filePath)).toThrow('Invalid iniType');
+    });
+  });
+
+  describe('resolveAnswers', () => {
+    const answersFile: AnswersFile = {
+      defaults: { onExisting: 'skip', nozzleSize: 0.4 },
+      profiles: {
+        'draft.ini': { nozzleSize: 0.6 },
+        '0.30mm DRAFT': { onExisting: 'overwrite' }
+      }
+    };
+
+    it('should return defaults when no profile matches', () => {
+      expect(resolveAnswers(answersFile, ['other', undefined])).toEqual({ onExisting: 'skip', nozzleSize: 0.4 });
+    });
+
+    it('should apply the first matching profile override', () => {
+      expect(resolveAnswers(answersFile, ['unknown', '0.30mm DRAFT'])).toEqual({ onExisting: 'overwrite', nozzleSize: 0.4 });
+    });
+
+    it('should return no answers without an answers file', () => {
+      expect(resolveAnswers(undefined, ['x'])).toEqual({});
+    });
+  });
+
+  describe('recordAnswer', () => {
+    it('should record answers per profile', () => {
+      const recorded: AnswersFile = {};
+      recordAnswer(recorded, 'printer', 'inherits', 'Prusa MK4');
+      recordAnswer(recorded, 'printer', 'physicalPrinter', '<NONE>');
+      expect(recorded.profiles).toEqual({ printer: { inherits: 'Prusa MK4', physicalPrinter: '<NONE>' } });
+    });
+
+    it('should round-trip through writeAnswersFile and readAnswersFile', () => {
+      const recorded: AnswersFile = { defaults: {}, profiles: {} };
+      recordAnswer(recorded, 'print', 'nozzleSize', 0.4);
+
+      for (const name of ['answers.json', 'answers.yaml']) {
+        const filePath = path.join(tempDir, name);
+        writeAnswersFile(filePath, recorded);
+        expect(resolveAnswers(readAnswersFile(filePath), ['print'])).toEqual({ nozzleSize: 0.4 });
+      }
+    });
+  });
+
+  describe('recordAnswerForAll', () => {
+    it('should replay choices applied to all remaining profiles for every file of the session', () => {
+      // Session: MK4.ini and MK3S.ini; choices for MK4.ini are applied to all, except the physical printer
+      const recorded: AnswersFile = { defaults: {}, profiles: {} };
+      recordAnswer(recorded, 'MK4', 'physicalPrinter', '<NONE>');
+      recordAnswer(recorded, 'MK4', 'inherits', '<NONE>');
+      recordAnswerForAll(recorded, 'MK4', 'inherits');
+      recordAnswer(recorded, 'MK4', 'onExisting', 'overwrite');
+      recordAnswerForAll(recorded, 'MK4', 'onExisting');
+      recordAnswer(recorded, 'MK3S', 'physicalPrinter', 'MK3S network.ini');
+
+      const filePath = path.join(tempDir, 'answers.yaml');
+      writeAnswersFile(filePath, recorded);
+      const replayed = readAnswersFile(filePath);
+
+      expect(replayed.defaults).toEqual({ inherits: '<NONE>', onExisting: 'overwrite' });
+      expect(resolveAnswers(replayed, ['MK4'])).toEqual({ inherits: '<NONE>', onExisting: 'overwrite', physicalPrinter: '<NONE>' });
+      expect(resolveAnswers(replayed, ['MK3S'])).toEqual({ inherits: '<NONE>', onExisting: 'overwrite', physicalPrinter: 'MK3S network.ini' });
+    });
+
+    it('should remove profile entries left without answers', () => {
+      const recorded: AnswersFile = {};
+      recordAnswer(recorded, 'print', 'nozzleSize', 0.4);
+      recordAnswerForAll(recorded, 'print', 'nozzleSize');
+      recordAnswerForAll(recorded, 'other', 'inherits');
+      expect(recorded).toEqual({ defaults: { nozzleSize: 0.4 }, profiles: {} });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Answers files for unattended batch runs.
+ *
+ * This module provides functions for:
+ * - Reading answers files (JSON or YAML) supplied with --answers
+ * - Resolving the answers that apply to a given profile
+ * - Recording the choices made in an interactive session and saving them with --record-answers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { Answers, AnswersFile } from './types';
+import { onExistingOpts } from './constants';
+import { isOutputIniType } from './type-guards';
+
+/** Valid values for the compatible condition answers. */
+const conditionChoices = ['KEEP', 'DISCARD', 'TRANSLATE'];
+
+/**
+ * Validates a single set of answers.
+ *
+ * @param answers - The answers to validate
+ * @param context - Where the answers came from (for error messages)
+ * @throws {Error} If an answer has an invalid value
+ */
+function validateAnswers(answers: Answers, context: string): void {
+  for (const key of ['compatiblePrintersCondition', 'compatiblePrintsCondition'] as const) {
+    const value = answers[key];
+    if (value !== undefined && !conditionChoices.includes(value)) {
+      throw new Error(`Invalid ${key} in ${context}: ${value}. Valid values are ${conditionChoices.join(', ')}.`);
+    }
+  }
+  if (answers.nozzleSize !== undefined && !(Number(answers.nozzleSize) > 0)) {
+    throw new Error(`Invalid nozzleSize in ${context}: ${answers.nozzleSize}`);
+  }
+  if (answers.onExisting !== undefined && !onExistingOpts[answers.onExisting.toLowerCase()]) {
+    throw new Error(`Invalid onExisting in ${context}: ${answers.onExisting}. Valid values are 'skip', 'merge', and 'overwrite'.`);
+  }
+  if (answers.iniType !== undefined && !isOutputIniType(answers.iniType)) {
+    throw new Error(`Invalid iniType in ${context}: ${answers.iniType}. Valid values are 'print', 'filament', and 'printer'.`);
+  }
+}
+
+/**
+ * Reads and validates an answers file.
+ *
+ * @param filePath - The path to the answers file (.json, .yaml, or .yml)
+ * @returns The parsed answers file
+ * @throws {Error} If the file cannot be read, cannot be parsed, or contains invalid answers
+ *
+ * @example
+ * ```ts
+ * const answersFile = readAnswersFile("answers.yaml");
+ * console.log(answersFile.defaults?.onExisting); // "overwrite"
+ * ```
+ */
+export function readAnswersFile(filePath: string): AnswersFile {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const isYaml = /\.ya?ml$/i.test(filePath);
+  const data = (isYaml ? YAML.parse(content) : JSON.parse(content)) || {};
+
+  const answersFile: AnswersFile = {
+    defaults: data.defaults || {},
+    profiles: data.profiles || {}
+  };
+  validateAnswers(answersFile.defaults!, `${filePath} (defaults)`);
+  for (const [name, answers] of Object.entries(answersFile.profiles!)) {
+    validateAnswers(answers, `${filePath} (profile "${name}")`);
+  }
+  return answersFile;
+}
+
+/**
+ * Writes an answers file as JSON or YAML, depending on the file extension.
+ *
+ * @param filePath - The path where the answers file should be written
+ * @param answersFile - The answers to write
+ */
+export function writeAnswersFile(filePath: string, answersFile: AnswersFile): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const content = /\.ya?ml$/i.test(filePath)
+    ? YAML.stringify(answersFile)
+    : JSON.stringify(answersFile, null, 2) + '\n';
+  fs.writeFileSync(filePath, content, 'utf-8');
+}
+
+/**
+ * Resolves the answers that apply to a profile.
+ *
+ * @param answersFile - The answers file, or undefined if none was given
+ * @param names - Names identifying the profile (input file basename, profile name)
+ * @returns The defaults merged with the first matching per-profile override
+ *
+ * @example
+ * ```ts
+ * const answers = resolveAnswers(answersFile, ["MK4 0.2mm", "0.20mm QUALITY @MK4"]);
+ * ```
+ */
+export function resolveAnswers(answersFile: AnswersFile | undefined, names: (string | undefined)[]): Answers {
+  if (!answersFile) return {};
+  const profiles = answersFile.profiles || {};
+  const match = names.find(name => name !== undefined && name in profiles);
+  return {
+    ...(answersFile.defaults || {}),
+    ...(match !== undefined ? profiles[match] : {})
+  };
+}
+
+/**
+ * Records a choice made interactively so it can be replayed later.
+ *
+ * @param answersFile - The answers being recorded
+ * @param name - The profile the choice was made for (input file basename)
+ * @param key - The decision that was made
+ * @param value - The chosen value
+ */
+export function recordAnswer<K extends keyof Answers>(
+  answersFile: AnswersFile,
+  name: string,
+  key: K,
+  value: Answers[K]
+): void {
+  if (!answersFile.profiles) {
+    answersFile.profiles = {};
+  }
+  if (!answersFile.profiles[name]) {
+    answersFile.profiles[name] = {};
+  }
+  answersFile.profiles[name][key] = value;
+}
+
+/**
+ * Turns a recorded choice into a default, for a choice the user applied to all remaining profiles.
+ *
+ * @param answersFile - The answers being recorded
+ * @param name - The profile the choice was recorded for (input file basename)
+ * @param key - The decision that applies to all remaining profiles
+ *
+ * @remarks
+ * The choice is moved from the profile's entry to `defaults`, so a replay answers it for every
+ * profile after this one as well. The profile's entry is removed once it holds no other answers.
+ *
+ * @example
+ * ```ts
+ * recordAnswer(answersFile, "MK4", "inherits", "Prusa MK4 0.4 nozzle");
+ * recordAnswerForAll(answersFile, "MK4", "inherits");
+ * answersFile.defaults?.inherits; // "Prusa MK4 0.4 nozzle"
+ * ```
+ */
+export function recordAnswerForAll(answersFile: AnswersFile, name: string, key: keyof Answers): void {
+  const answers = answersFile.profiles?.[name];
+  if (!answers || answers[key] === undefined) return;
+  answersFile.defaults = { ...(answersFile.defaults || {}), [key]: answers[key] };
+  delete answers[key];
+  if (Object.keys(answers).length === 0) {
+    delete answersFile.profiles![name];
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { baselineTemplates, fillFromBaseline } from './baselines';
+import type { NewHash } from './types';
+
+describe('baselines', () => {
+  describe('fillFromBaseline', () => {
+    it('should fill only the settings the profile is missing', () => {
+      const json = { name: 'My Printer', printable_height: '250', nozzle_diameter: ['0.4', '0.4'] };
+      const filled = fillFromBaseline(json, 'printer', '2.3.0.0');
+
+      expect(json.printable_height).toBe('250');
+      expect(json.nozzle_diameter).toEqual(['0.4', '0.4']);
+      expect(json).toMatchObject({ printer_technology: 'FFF', printable_area: ['0x0', '200x0', '200x200', '0x200'] });
+      expect(filled).toContain('printer_technology');
+      expect(filled).not.toContain('printable_height');
+      expect(filled).toHaveLength(Object.keys(baselineTemplates.printer).length - 2 + 1);
+    });
+
+    it('should derive the printer variant from the nozzle diameter', () => {
+      const json: NewHash = { nozzle_diameter: '0.6' };
+      expect(fillFromBaseline(json, 'printer', '2.3.0.0')).toContain('printer_variant');
+      expect(json['printer_variant']).toBe('0.6');
+
+      const named: NewHash = { nozzle_diameter: '0.6', printer_variant: 'HF' };
+      expect(fillFromBaseline(named, 'printer', '2.3.0.0')).not.toContain('printer_variant');
+      expect(named['printer_variant']).toBe('HF');
+    });
+
+    it('should fill settings in the schema of the target version', () => {
+      const current: NewHash = {};
+      expect(fillFromBaseline(current, 'print', '2.3.0.0')).toContain('wall_sequence');
+      expect(current['wall_infill_order']).toBeUndefined();
+
+      const legacy: NewHash = {};
+      fillFromBaseline(legacy, 'print', '1.6.0.0');
+      expect(legacy['wall_infill_order']).toBe('inner wall/outer wall/infill');
+    });
+
+    it('should not share lists between profiles', () => {
+      const first: NewHash = {};
+      fillFromBaseline(first, 'filament', '2.3.0.0');
+      (first['compatible_printers'] as string[]).push('My Printer');
+      expect(baselineTemplates.filament['compatible_printers']).toEqual([]);
+    });
+  });
+});
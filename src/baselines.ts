@@ -0,0 +1,201 @@
+/**
+ * Baseline templates for standalone OrcaSlicer profiles.
+ *
+ * A profile that inherits from a system preset gets every setting it does not store from that
+ * preset. A standalone profile (a machine linked to no system printer, or a process or filament
+ * without a matching system preset) has only the settings converted from the source, and
+ * OrcaSlicer hides or fails to load profiles that lack required settings. The templates hold a
+ * working value for each of those settings, modelled on OrcaSlicer's own `fdm_*_common`
+ * presets, to fill in what the source did not provide.
+ *
+ * Templates use the same schema as `parameterMap` (OrcaSlicer 1.6) and value formats as
+ * `convertProfile`: per-extruder settings of single-extruder printers are single values, and
+ * machine limits hold the normal and silent mode values. Settings that depend on other settings
+ * of the profile, such as the printer variant, are derived by `fillFromBaseline` instead.
+ */
+
+import { NewHash, OutputIniType } from './types';
+import { applyVersionOverlays } from './versions';
+
+/**
+ * Baseline settings of standalone profiles, by profile type.
+ *
+ * @example
+ * ```ts
+ * baselineTemplates.printer['printer_technology'] // 'FFF'
+ * baselineTemplates.filament['filament_diameter'] // '1.75'
+ * ```
+ */
+export const baselineTemplates: { [iniType in OutputIniType]: NewHash } = {
+  printer: {
+    printer_technology: 'FFF',
+    gcode_flavor: 'marlin',
+    printable_area: ['0x0', '200x0', '200x200', '0x200'],
+    printable_height: '200',
+    nozzle_diameter: '0.4',
+    extruder_offset: '0x0',
+    extruder_colour: '#FCE94F',
+    min_layer_height: '0.07',
+    max_layer_height: '0.32',
+    retraction_length: '0.8',
+    retraction_speed: '30',
+    deretraction_speed: '30',
+    retraction_minimum_travel: '1',
+    retract_before_wipe: '70%',
+    retract_when_changing_layer: '1',
+    retract_length_toolchange: '2',
+    retract_restart_extra: '0',
+    retract_restart_extra_toolchange: '0',
+    wipe: '1',
+    z_hop: '0.4',
+    use_firmware_retraction: '0',
+    use_relative_e_distances: '1',
+    single_extruder_multi_material: '1',
+    silent_mode: '0',
+    machine_max_acceleration_e: ['5000', '5000'],
+    machine_max_acceleration_extruding: ['1500', '1250'],
+    machine_max_acceleration_retracting: ['1500', '1250'],
+    machine_max_acceleration_travel: ['1500', '1250'],
+    machine_max_acceleration_x: ['1500', '1000'],
+    machine_max_acceleration_y: ['1500', '1000'],
+    machine_max_acceleration_z: ['500', '200'],
+    machine_max_speed_e: ['120', '120'],
+    machine_max_speed_x: ['500', '200'],
+    machine_max_speed_y: ['500', '200'],
+    machine_max_speed_z: ['12', '12'],
+    machine_max_jerk_e: ['4.5', '4.5'],
+    machine_max_jerk_x: ['8', '8'],
+    machine_max_jerk_y: ['8', '8'],
+    machine_max_jerk_z: ['0.4', '0.4'],
+    machine_min_extruding_rate: ['0', '0'],
+    machine_min_travel_rate: ['0', '0'],
+    machine_start_gcode: 'G28 ; home all axes\nG1 Z5 F5000 ; lift nozzle',
+    machine_end_gcode: 'M104 S0 ; turn off nozzle\nM140 S0 ; turn off bed\nM84 ; disable motors',
+    machine_pause_gcode: 'M601',
+    before_layer_change_gcode: ';BEFORE_LAYER_CHANGE\n;[layer_z]',
+    layer_change_gcode: ';AFTER_LAYER_CHANGE\n;[layer_z]',
+    change_filament_gcode: '',
+    default_print_profile: '',
+    default_filament_profile: []
+  },
+
+  print: {
+    layer_height: '0.2',
+    initial_layer_print_height: '0.2',
+    line_width: '0.42',
+    initial_layer_line_width: '0.5',
+    outer_wall_line_width: '0.42',
+    inner_wall_line_width: '0.45',
+    sparse_infill_line_width: '0.45',
+    internal_solid_infill_line_width: '0.42',
+    top_surface_line_width: '0.42',
+    support_line_width: '0.42',
+    wall_loops: '2',
+    top_shell_layers: '4',
+    bottom_shell_layers: '3',
+    top_shell_thickness: '0.6',
+    bottom_shell_thickness: '0',
+    sparse_infill_density: '15%',
+    sparse_infill_pattern: 'grid',
+    top_surface_pattern: 'monotonicline',
+    bottom_surface_pattern: 'monotonic',
+    wall_infill_order: 'inner wall/outer wall/infill',
+    seam_position: 'aligned',
+    outer_wall_speed: '60',
+    inner_wall_speed: '80',
+    sparse_infill_speed: '100',
+    internal_solid_infill_speed: '80',
+    top_surface_speed: '50',
+    gap_infill_speed: '50',
+    bridge_speed: '25',
+    support_speed: '80',
+    support_interface_speed: '50',
+    travel_speed: '150',
+    initial_layer_speed: '30',
+    initial_layer_infill_speed: '40',
+    enable_support: '0',
+    support_type: 'normal(auto)',
+    support_threshold_angle: '30',
+    support_top_z_distance: '0.2',
+    support_bottom_z_distance: '0.2',
+    support_object_xy_distance: '0.35',
+    brim_type: 'auto_brim',
+    brim_width: '5',
+    skirt_loops: '1',
+    skirt_distance: '2',
+    spiral_mode: '0',
+    ironing_type: 'no ironing',
+    compatible_printers: []
+  },
+
+  filament: {
+    filament_type: 'PLA',
+    filament_vendor: 'Generic',
+    filament_diameter: '1.75',
+    filament_density: '1.24',
+    filament_cost: '0',
+    filament_flow_ratio: '0.98',
+    filament_max_volumetric_speed: '12',
+    filament_soluble: '0',
+    filament_is_support: '0',
+    nozzle_temperature: '210',
+    nozzle_temperature_initial_layer: '215',
+    hot_plate_temp: '60',
+    hot_plate_temp_initial_layer: '60',
+    cool_plate_temp: '35',
+    cool_plate_temp_initial_layer: '35',
+    eng_plate_temp: '60',
+    eng_plate_temp_initial_layer: '60',
+    textured_plate_temp: '60',
+    textured_plate_temp_initial_layer: '60',
+    fan_min_speed: '100',
+    fan_max_speed: '100',
+    fan_cooling_layer_time: '60',
+    slow_down_layer_time: '8',
+    slow_down_min_speed: '10',
+    close_fan_the_first_x_layers: '1',
+    overhang_fan_speed: '100',
+    overhang_fan_threshold: '50%',
+    filament_start_gcode: '; filament start gcode',
+    filament_end_gcode: '; filament end gcode',
+    compatible_printers: [],
+    compatible_prints: []
+  }
+};
+
+/**
+ * Fills the settings a standalone profile is missing from the baseline template of its type.
+ *
+ * @param json - The converted profile (modified in place)
+ * @param iniType - The type of the profile
+ * @param targetVersion - The OrcaSlicer version the profile was converted for; the template is
+ *   upgraded to the same schema first
+ * @returns The settings that were filled in, in template order
+ *
+ * @remarks
+ * A printer profile without a `printer_variant` (custom PrusaSlicer printers have none) gets the
+ * size of its first nozzle, as OrcaSlicer names the variants of its system printers.
+ *
+ * @example
+ * ```ts
+ * const json = { name: 'My Printer', printable_height: '250' };
+ * fillFromBaseline(json, 'printer', '2.3.0.0'); // ['printer_technology', 'gcode_flavor', ...]
+ * json.printable_height // '250'
+ * ```
+ */
+export function fillFromBaseline(json: NewHash, iniType: OutputIniType, targetVersion: string): string[] {
+  const template = applyVersionOverlays({ ...baselineTemplates[iniType] }, targetVersion);
+  const filled: string[] = [];
+  for (const [key, value] of Object.entries(template)) {
+    if (!(key in json)) {
+      json[key] = Array.isArray(value) ? [...value] : value;
+      filled.push(key);
+    }
+  }
+  if (iniType === 'printer' && !json['printer_variant']) {
+    const nozzle = json['nozzle_diameter'];
+    json['printer_variant'] = String(Array.isArray(nozzle) ? nozzle[0] : nozzle);
+    filled.push('printer_variant');
+  }
+  return filled;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { readBinaryGcodeMetadata } from './bgcode';
+
+/**
+ * Builds a binary G-code block with CRC32 checksums enabled.
+ */
+function createBlock(type: number, text: string, deflate: boolean): Buffer {
+  const raw = Buffer.from(text, 'utf-8');
+  const data = deflate ? zlib.deflateSync(raw) : raw;
+  const header = Buffer.alloc(deflate ? 12 : 8);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(deflate ? 1 : 0, 2);
+  header.writeUInt32LE(raw.length, 4);
+  if (deflate) header.writeUInt32LE(data.length, 8);
+  const parameters = Buffer.alloc(type === 5 ? 6 : 2);
+  const block = Buffer.concat([header, parameters, data]);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32LE(zlib.crc32(block), 0);
+  return Buffer.concat([block, checksum]);
+}
+
+describe('bgcode', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readBinaryGcodeMetadata', () => {
+    it('should read the producer and the slicer config', () => {
+      const fileHeader = Buffer.alloc(10);
+      fileHeader.write('GCDE', 0, 'latin1');
+      fileHeader.writeUInt32LE(1, 4);
+      fileHeader.writeUInt16LE(1, 8);
+
+      const filePath = path.join(tempDir, 'benchy.bgcode');
+      fs.writeFileSync(filePath, Buffer.concat([
+        fileHeader,
+        createBlock(0, 'Producer=PrusaSlicer 2.7.1+win64\n', false),
+        createBlock(3, 'printer_model=MK4\n', true),
+        createBlock(5, 'not a real thumbnail', false),
+        createBlock(2, 'layer_height = 0.2\ntemperature = 215\n', true),
+        createBlock(1, 'G28\n', false)
+      ]));
+
+      expect(readBinaryGcodeMetadata(filePath)).toEqual({
+        config: { layer_height: '0.2', temperature: '215' },
+        producer: 'PrusaSlicer 2.7.1+win64'
+      });
+    });
+
+    it('should throw for text G-code files', () => {
+      const filePath = path.join(tempDir, 'benchy.bgcode');
+      fs.writeFileSync(filePath, 'G28\nG1 X10 Y10\n');
+      expect(() => readBinaryGcodeMetadata(filePath)).toThrow('Not a binary G-code file');
+    });
+  });
+});
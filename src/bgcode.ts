@@ -0,0 +1,109 @@
+/**
+ * Minimal reader for PrusaSlicer binary G-code (`.bgcode`) files.
+ *
+ * Only the metadata blocks are read. Blocks compressed with heatshrink (used for G-code
+ * blocks, never for metadata by PrusaSlicer) are skipped, not decoded.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { SourceIni } from './types';
+
+/** Magic number at the start of every binary G-code file. */
+const BGCODE_MAGIC = 'GCDE';
+
+/** Block types of the binary G-code format. */
+const blockTypes = {
+  fileMetadata: 0,
+  gcode: 1,
+  slicerMetadata: 2,
+  printerMetadata: 3,
+  printMetadata: 4,
+  thumbnail: 5
+};
+
+/** Compression methods of the binary G-code format. */
+const compressionTypes = {
+  none: 0,
+  deflate: 1
+};
+
+/**
+ * Metadata read from a binary G-code file.
+ */
+export interface BinaryGcodeMetadata {
+  /** The full slicer config stored in the slicer metadata block */
+  config: SourceIni;
+  /** The slicer that wrote the file (e.g. `PrusaSlicer 2.7.1`), from the file metadata block */
+  producer?: string;
+}
+
+/**
+ * Decodes the `key=value` lines of a metadata block.
+ *
+ * @param data - The uncompressed block data
+ * @returns The key/value pairs
+ */
+function parseMetadata(data: Buffer): SourceIni {
+  const metadata: SourceIni = {};
+  for (const line of data.toString('utf-8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([^=]+?)\s*=\s*(.*)$/);
+    if (match) {
+      metadata[match[1]] = match[2].trim();
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Reads the file and slicer metadata of a binary G-code file.
+ *
+ * @param filePath - The path to the `.bgcode` file
+ * @returns The slicer config and the producer of the file
+ * @throws {Error} If the file is not a binary G-code file or a metadata block cannot be decoded
+ *
+ * @example
+ * ```ts
+ * const { config, producer } = readBinaryGcodeMetadata("benchy.bgcode");
+ * config['layer_height'] // "0.2"
+ * producer               // "PrusaSlicer 2.7.1+win64"
+ * ```
+ */
+export function readBinaryGcodeMetadata(filePath: string): BinaryGcodeMetadata {
+  const content = fs.readFileSync(filePath);
+  if (content.length < 10 || content.toString('latin1', 0, 4) !== BGCODE_MAGIC) {
+    throw new Error('Not a binary G-code file');
+  }
+
+  const checksumSize = content.readUInt16LE(8) === 1 ? 4 : 0;
+  const metadata: BinaryGcodeMetadata = { config: {} };
+  let offset = 10;
+
+  while (offset + 8 <= content.length) {
+    const type = content.readUInt16LE(offset);
+    const compression = content.readUInt16LE(offset + 2);
+    const uncompressedSize = content.readUInt32LE(offset + 4);
+    const compressedSize = compression === compressionTypes.none ? uncompressedSize : content.readUInt32LE(offset + 8);
+    const headerSize = compression === compressionTypes.none ? 8 : 12;
+    const parametersSize = type === blockTypes.thumbnail ? 6 : 2;
+    const dataStart = offset + headerSize + parametersSize;
+    offset = dataStart + compressedSize + checksumSize;
+
+    if (type !== blockTypes.fileMetadata && type !== blockTypes.slicerMetadata) continue;
+
+    const data = content.subarray(dataStart, dataStart + compressedSize);
+    if (compression !== compressionTypes.none && compression !== compressionTypes.deflate) {
+      throw new Error(`Unsupported binary G-code compression ${compression}`);
+    }
+    const block = parseMetadata(compression === compressionTypes.deflate ? zlib.inflateSync(data) : data);
+
+    if (type === blockTypes.fileMetadata) {
+      metadata.producer = block['Producer'];
+    } else {
+      metadata.config = block;
+      break;
+    }
+  }
+
+  return metadata;
+}
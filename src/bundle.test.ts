@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { buildPresetBundle, writePresetBundle, bundleTypes, BundledProfile } from './bundle';
+import { readZipEntry } from './zip';
+
+describe('bundle', () => {
+  let profiles: BundledProfile[];
+
+  beforeEach(() => {
+    profiles = [
+      { iniType: 'printer', json: { name: 'My MK4', version: '2.2.0.0', inherits: 'Prusa MK4 0.4 nozzle' } },
+      { iniType: 'print', json: { name: '0.20mm Fast', compatible_printers: ['Original Prusa MK4'] } },
+      { iniType: 'filament', json: { name: 'PLA', compatible_printers: [] } }
+    ];
+  });
+
+  describe('buildPresetBundle', () => {
+    it('should list every profile in the printer bundle manifest', () => {
+      const files = buildPresetBundle(bundleTypes['.orca_printer'], profiles, 'My_MK4_1');
+      const manifest = JSON.parse(String(files[0].content));
+
+      expect(files.map(file => file.name)).toEqual([
+        'bundle_structure.json',
+        'printer/My MK4.json',
+        'process/0.20mm Fast.json',
+        'filament/PLA.json'
+      ]);
+      expect(manifest).toMatchObject({
+        bundle_id: 'My_MK4_1',
+        bundle_type: 'printer config bundle',
+        printer_preset_name: 'My MK4',
+        printer_config: ['printer/My MK4.json'],
+        process_config: ['process/0.20mm Fast.json'],
+        filament_config: ['filament/PLA.json'],
+        version: '02.02.00.00'
+      });
+    });
+
+    it('should make processes and filaments compatible with the bundled printer', () => {
+      const files = buildPresetBundle(bundleTypes['.orca_printer'], profiles, 'id');
+      const process = JSON.parse(String(files[2].content));
+      const filament = JSON.parse(String(files[3].content));
+
+      expect(process['compatible_printers']).toEqual(['Original Prusa MK4', 'My MK4']);
+      expect(filament['compatible_printers']).toEqual([]);
+      expect(profiles[1].json['compatible_printers']).toEqual(['Original Prusa MK4']);
+    });
+
+    it('should require exactly one printer in a printer bundle', () => {
+      expect(() => buildPresetBundle(bundleTypes['.orca_printer'], profiles.slice(1), 'id'))
+        .toThrow('A printer bundle needs exactly one printer profile, found 0');
+    });
+
+    it('should only package filaments in a filament bundle', () => {
+      const files = buildPresetBundle(bundleTypes['.orca_filament'], profiles, 'id');
+      const manifest = JSON.parse(String(files[0].content));
+
+      expect(files.map(file => file.name)).toEqual(['bundle_structure.json', 'Custom/PLA.json']);
+      expect(manifest).toMatchObject({
+        bundle_type: 'filament config bundle',
+        filament_name: 'PLA',
+        printer_vendor: [{ vendor: 'Custom', filament_path: ['Custom/PLA.json'] }]
+      });
+    });
+  });
+
+  describe('writePresetBundle', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write a zip archive with the manifest and profiles', () => {
+      const bundlePath = path.join(tempDir, 'My MK4.orca_printer');
+      writePresetBundle(bundlePath, profiles);
+
+      const manifest = JSON.parse(readZipEntry(bundlePath, 'bundle_structure.json')!.toString('utf-8'));
+      expect(manifest['bundle_id']).toMatch(/^My MK4_\d+$/);
+      expect(JSON.parse(readZipEntry(bundlePath, 'filament/PLA.json')!.toString('utf-8'))).toEqual(profiles[2].json);
+    });
+
+    it('should reject unknown bundle extensions', () => {
+      expect(() => writePresetBundle(path.join(tempDir, 'bundle.zip'), profiles)).toThrow('Unknown bundle type ".zip"');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Packaging of converted profiles as OrcaSlicer preset bundles.
+ *
+ * OrcaSlicer imports zipped preset bundles through File > Import > Import Configs:
+ * - `.orca_printer` bundles hold one machine profile with its process and filament profiles
+ * - `.orca_filament` bundles hold filament profiles only
+ *
+ * Each bundle has a `bundle_structure.json` manifest that lists the profiles it contains.
+ */
+
+import * as path from 'path';
+import { NewHash, OutputIniType, ORCA_SLICER_VERSION } from './types';
+import { sanitizeFilename } from './fileIO';
+import { writeZip, ZipFile } from './zip';
+import { formatOrcaVersion } from './versions';
+
+/**
+ * A converted profile to be packaged in a bundle.
+ */
+export interface BundledProfile {
+  /** The profile type */
+  iniType: OutputIniType;
+  /** The converted OrcaSlicer JSON profile */
+  json: NewHash;
+}
+
+/** Bundle file extensions and the OrcaSlicer bundle type each one holds. */
+export const bundleTypes: { [extension: string]: string } = {
+  '.orca_printer': 'printer config bundle',
+  '.orca_filament': 'filament config bundle'
+};
+
+/** Folder of each profile type within a printer bundle. */
+const bundleFolders: { [iniType in OutputIniType]: string } = {
+  printer: 'printer',
+  print: 'process',
+  filament: 'filament'
+};
+
+/** Vendor folder of filament bundles, since converted profiles belong to no system vendor. */
+const FILAMENT_BUNDLE_VENDOR = 'Custom';
+
+/**
+ * Adds a bundled printer to the compatible printers of a process or filament profile.
+ *
+ * @param json - The process or filament profile (modified in place)
+ * @param printerName - The name of the bundled printer profile
+ *
+ * @remarks
+ * An empty `compatible_printers` list means "compatible with every printer" and is left alone.
+ * Otherwise the list names the printers the source profile was made for, which never include
+ * the newly converted printer profile, so the profile would be hidden after import.
+ */
+function linkToPrinter(json: NewHash, printerName: string): void {
+  const compatiblePrinters = json['compatible_printers'];
+  if (Array.isArray(compatiblePrinters) && compatiblePrinters.length > 0 && !compatiblePrinters.includes(printerName)) {
+    json['compatible_printers'] = [...compatiblePrinters, printerName];
+  }
+}
+
+/**
+ * Builds the files of an OrcaSlicer preset bundle.
+ *
+ * @param bundleType - An OrcaSlicer bundle type from `bundleTypes`
+ * @param profiles - The converted profiles to package
+ * @param bundleId - The unique ID of the bundle
+ * @returns The manifest and profile files, in archive order
+ * @throws {Error} If a printer bundle does not hold exactly one printer profile, or a filament
+ *   bundle holds no filament profiles
+ *
+ * @remarks
+ * Profiles that the bundle type cannot hold (process and machine profiles in a filament bundle)
+ * are left out. Profiles are copied before they are linked to the bundled printer.
+ *
+ * @example
+ * ```ts
+ * const files = buildPresetBundle('printer config bundle', profiles, 'MyPrinter_1700000000');
+ * files[0].name // "bundle_structure.json"
+ * ```
+ */
+export function buildPresetBundle(bundleType: string, profiles: BundledProfile[], bundleId: string): ZipFile[] {
+  const version = formatOrcaVersion(String(profiles[0]?.json['version'] || ORCA_SLICER_VERSION));
+  const files: ZipFile[] = [];
+  const profileFile = (folder: string, json: NewHash): ZipFile => ({
+    name: `${folder}/${sanitizeFilename(String(json['name']))}.json`,
+    content: JSON.stringify(json, null, 2) + '\n'
+  });
+
+  if (bundleType === bundleTypes['.orca_filament']) {
+    const filaments = profiles.filter(profile => profile.iniType === 'filament');
+    if (filaments.length === 0) {
+      throw new Error('A filament bundle needs at least one filament profile');
+    }
+    files.push(...filaments.map(profile => profileFile(FILAMENT_BUNDLE_VENDOR, profile.json)));
+    const manifest = {
+      bundle_id: bundleId,
+      bundle_type: bundleType,
+      filament_name: String(filaments[0].json['name']),
+      printer_vendor: [{ vendor: FILAMENT_BUNDLE_VENDOR, filament_path: files.map(file => file.name) }],
+      user_id: '',
+      user_name: '',
+      version
+    };
+    return [{ name: 'bundle_structure.json', content: JSON.stringify(manifest, null, 2) + '\n' }, ...files];
+  }
+
+  const printers = profiles.filter(profile => profile.iniType === 'printer');
+  if (printers.length !== 1) {
+    throw new Error(`A printer bundle needs exactly one printer profile, found ${printers.length}`);
+  }
+  const printerName = String(printers[0].json['name']);
+  const paths: { [iniType in OutputIniType]: string[] } = { printer: [], print: [], filament: [] };
+
+  for (const profile of profiles) {
+    const json = { ...profile.json };
+    if (profile.iniType !== 'printer') {
+      linkToPrinter(json, printerName);
+    }
+    const file = profileFile(bundleFolders[profile.iniType], json);
+    paths[profile.iniType].push(file.name);
+    files.push(file);
+  }
+
+  const manifest = {
+    bundle_id: bundleId,
+    bundle_type: bundleType,
+    filament_config: paths.filament,
+    printer_config: paths.printer,
+    printer_preset_name: printerName,
+    process_config: paths.print,
+    user_id: '',
+    user_name: '',
+    version
+  };
+  return [{ name: 'bundle_structure.json', content: JSON.stringify(manifest, null, 2) + '\n' }, ...files];
+}
+
+/**
+ * Writes converted profiles as an OrcaSlicer preset bundle.
+ *
+ * @param filePath - The bundle path; its extension (`.orca_printer` or `.orca_filament`) selects
+ *   the bundle type
+ * @param profiles - The converted profiles to package
+ * @throws {Error} If the extension is not a bundle extension, the profiles do not fit the bundle
+ *   type, or the file cannot be written
+ *
+ * @example
+ * ```ts
+ * writePresetBundle("MK4.orca_printer", [
+ *   { iniType: 'printer', json: printerJson },
+ *   { iniType: 'print', json: processJson }
+ * ]);
+ * ```
+ */
+export function writePresetBundle(filePath: string, profiles: BundledProfile[]): void {
+  const extension = path.extname(filePath).toLowerCase();
+  const bundleType = bundleTypes[extension];
+  if (!bundleType) {
+    throw new Error(`Unknown bundle type "${extension}"`);
+  }
+  const bundleId = `${sanitizeFilename(path.basename(filePath, path.extname(filePath)))}_${Math.floor(Date.now() / 1000)}`;
+  writeZip(filePath, buildPresetBundle(bundleType, profiles, bundleId));
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { translateCondition } from './condition';
+
+describe('condition', () => {
+  describe('translateCondition', () => {
+    it('should rename variables through parameterMap', () => {
+      const { condition, untranslated } = translateCondition(
+        'printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*/ and max_print_height > 200'
+      );
+      expect(condition).toBe('printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*/ and printable_height > 200');
+      expect(untranslated).toEqual([]);
+    });
+
+    it('should keep indexes and literals unchanged', () => {
+      const { condition } = translateCondition('nozzle_diameter[0]==0.4 and printer_model=="MK3S"');
+      expect(condition).toBe('nozzle_diameter[0]==0.4 and printer_model=="MK3S"');
+    });
+
+    it('should flag sub-expressions with unknown variables', () => {
+      const { condition, untranslated } = translateCondition(
+        'nozzle_diameter[0]==0.4 and (mystery_setting > 1 or single_extruder_multi_material) && max_print_height > 200'
+      );
+      expect(condition).toBe(
+        'nozzle_diameter[0]==0.4 and (mystery_setting > 1 or single_extruder_multi_material) && printable_height > 200'
+      );
+      expect(untranslated).toEqual(['(mystery_setting > 1 or single_extruder_multi_material)']);
+    });
+
+    it('should keep flagged sub-expressions entirely in source names', () => {
+      const { condition, untranslated } = translateCondition('(mystery_setting > 1 or max_print_height > 200) and max_print_height > 300');
+      expect(condition).toBe('(mystery_setting > 1 or max_print_height > 200) and printable_height > 300');
+      expect(untranslated).toEqual(['(mystery_setting > 1 or max_print_height > 200)']);
+    });
+
+    it('should not split on operators inside string or regex literals', () => {
+      const { untranslated } = translateCondition('printer_notes=~/.* and mystery .*/ or printer_model=="a or b"');
+      expect(untranslated).toEqual([]);
+    });
+  });
+});
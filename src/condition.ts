@@ -0,0 +1,111 @@
+/**
+ * Translation of `compatible_printers_condition` and `compatible_prints_condition` expressions.
+ *
+ * This module handles:
+ * - Splitting a condition into its top-level `and`/`or` sub-expressions
+ * - Renaming the variables of each sub-expression to their OrcaSlicer names
+ * - Flagging sub-expressions that refer to variables OrcaSlicer does not know
+ */
+
+import { translateExpressionVariables } from './gcode';
+
+/**
+ * Result of translating a single condition expression.
+ */
+export interface ConditionTranslation {
+  /** The condition with known variables renamed */
+  condition: string;
+  /** Sub-expressions (as written in the source) that refer to unknown variables */
+  untranslated: string[];
+}
+
+/**
+ * Splits a condition into top-level sub-expressions and the operators between them.
+ *
+ * @param condition - The condition expression
+ * @returns Alternating sub-expressions and operators (including their surrounding whitespace)
+ *
+ * @remarks
+ * Operators inside parentheses, string literals and regex literals do not split the condition.
+ */
+function splitCondition(condition: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+
+  while (i < condition.length) {
+    const char = condition[i];
+
+    if (char === '"') {
+      i = skipLiteral(condition, i, '"');
+      continue;
+    }
+    if (char === '/' && /[=!]~\s*$/.test(condition.slice(0, i))) {
+      i = skipLiteral(condition, i, '/');
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+
+    if (depth === 0) {
+      const operator = /^(\s+(?:and|or)\s+|\s*(?:&&|\|\|)\s*)/.exec(condition.slice(i));
+      if (operator) {
+        parts.push(condition.slice(start, i), operator[0]);
+        i += operator[0].length;
+        start = i;
+        continue;
+      }
+    }
+    i++;
+  }
+  parts.push(condition.slice(start));
+  return parts;
+}
+
+/**
+ * Finds the end of a string or regex literal.
+ *
+ * @param text - The text containing the literal
+ * @param start - The index of the opening delimiter
+ * @param delimiter - The delimiter character
+ * @returns The index just past the closing delimiter
+ */
+function skipLiteral(text: string, start: number, delimiter: string): number {
+  let i = start + 1;
+  while (i < text.length && text[i] !== delimiter) {
+    i += text[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Translates a PrusaSlicer/SuperSlicer compatible condition expression to OrcaSlicer.
+ *
+ * @param condition - The condition expression from the source INI
+ * @returns The translated condition and the sub-expressions that could not be translated
+ *
+ * @remarks
+ * Variable names are renamed the same way as G-code placeholders (see `translateGcode`).
+ * A sub-expression that refers to an unknown variable is kept unchanged and flagged, so it can
+ * be fixed by hand.
+ *
+ * @example
+ * ```ts
+ * translateCondition("printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*\/ and max_print_height > 200")
+ * // { condition: "printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*\/ and printable_height > 200", untranslated: [] }
+ * ```
+ */
+export function translateCondition(condition: string): ConditionTranslation {
+  const untranslated: string[] = [];
+  const parts = splitCondition(condition).map((part, index) => {
+    if (index % 2 === 1) return part;
+    const { gcode, unknown } = translateExpressionVariables(part);
+    if (unknown.length > 0) {
+      untranslated.push(part.trim());
+      return part;
+    }
+    return gcode;
+  });
+  return { condition: parts.join(''), untranslated };
+}
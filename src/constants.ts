@@ -11,7 +11,7 @@
  * - And other conversion constants
  */
 
-import { SystemDirectories, MultivalueParams, ParameterMap } from './types';
+import { SystemDirectories, MultivalueParams, ParameterMap, SourceSlicer, OutputIniType } from './types';
 
 /**
  * System directory structure for different operating systems.
@@ -39,7 +39,8 @@ export const systemDirectories: SystemDirectories = {
 export const illegalChars: { [key: string]: RegExp } = {
   MSWin32: /[<>:"\/\\|?*\x00-\x1F]/,
   darwin: /[:]/,
-  linux: /\//
+  // Linux only forbids '/', but colons are removed too so converted files can be copied to macOS and Windows
+  linux: /[:/]/
 };
 
 export const onExistingOpts: { [key: string]: string } = {
@@ -91,6 +92,24 @@ export const speedSequence = [
   'first_layer_infill_speed'
 ];
 
+/**
+ * Source parameters that are not in `parameterMap` but are still consumed, either by
+ * `calculatePrintParams` or as inputs to other parameters' special cases.
+ * They are not reported as unmapped.
+ */
+export const indirectParams = [
+  'ini_type',
+  'profile_name',
+  'nozzle_diameter',
+  'default_speed',
+  'support_material_auto',
+  'dynamic_overhang_speeds',
+  'overhang_speed_0',
+  'overhang_speed_1',
+  'overhang_speed_2',
+  'overhang_speed_3'
+];
+
 export const speedParams: { [key: string]: string } = {
   perimeter_speed: 'inner_wall_speed',
   external_perimeter_speed: 'outer_wall_speed',
@@ -214,10 +233,99 @@ export const thumbnailFormat: { [key: string]: string } = {
   BIQU: 'BTT_TFT'
 };
 
+/**
+ * G-code placeholders whose OrcaSlicer name differs from both the PrusaSlicer/SuperSlicer name
+ * and the name given by `parameterMap`. These take precedence over `parameterMap`.
+ */
+export const gcodePlaceholders: { [key: string]: string } = {
+  first_layer_bed_temperature: 'bed_temperature_initial_layer_single',
+  extrusion_multiplier: 'filament_flow_ratio'
+};
+
+/**
+ * G-code placeholders that OrcaSlicer provides under the same name as PrusaSlicer/SuperSlicer
+ * but that are not profile settings.
+ */
+export const orcaPlaceholders = [
+  'layer_num',
+  'layer_z',
+  'max_layer_z',
+  'total_layer_count',
+  'current_extruder',
+  'next_extruder',
+  'previous_extruder',
+  'initial_extruder',
+  'initial_tool',
+  'timestamp',
+  'year',
+  'month',
+  'day',
+  'hour',
+  'minute',
+  'second',
+  'input_filename_base',
+  'print_bed_min',
+  'print_bed_max',
+  'print_bed_size',
+  'first_layer_print_min',
+  'first_layer_print_max',
+  'first_layer_print_size',
+  'has_wipe_tower',
+  'is_extruder_used',
+  'total_toolchanges',
+  'toolchange_z',
+  'extrusion_role',
+  'last_extrusion_role',
+  'bed_temperature',
+  'bed_temperature_initial_layer',
+  'bed_temperature_initial_layer_single',
+  'print_preset',
+  'filament_preset',
+  'printer_preset',
+  'print_settings_id',
+  'filament_settings_id',
+  'printer_settings_id',
+  'printer_model'
+];
+
+/** OrcaSlicer G-code placeholders that hold a single value and must not be indexed. */
+export const scalarPlaceholders = [
+  'bed_temperature_initial_layer_single'
+];
+
+/** Reserved words of the G-code macro language, which are never placeholders. */
+export const placeholderKeywords = [
+  'if',
+  'elsif',
+  'else',
+  'endif',
+  'and',
+  'or',
+  'not',
+  'true',
+  'false',
+  'local',
+  'global'
+];
+
+/** Source parameters holding custom G-code whose placeholders are translated. */
+export const gcodeParams = [
+  'start_gcode',
+  'end_gcode',
+  'before_layer_gcode',
+  'layer_gcode',
+  'toolchange_gcode',
+  'feature_gcode',
+  'pause_print_gcode',
+  'template_custom_gcode',
+  'start_filament_gcode',
+  'end_filament_gcode'
+];
+
 export const multivalueParams: MultivalueParams = {
-  max_layer_height: 'single',
-  min_layer_height: 'single',
-  deretract_speed: 'single',
+  max_layer_height: 'perExtruder',
+  min_layer_height: 'perExtruder',
+  deretract_speed: 'perExtruder',
   default_filament_profile: 'single',
   machine_max_acceleration_e: 'array',
   machine_max_acceleration_extruding: 'array',
@@ -236,21 +344,282 @@ export const multivalueParams: MultivalueParams = {
   machine_max_jerk_z: 'array',
   machine_min_extruding_rate: 'array',
   machine_min_travel_rate: 'array',
-  nozzle_diameter: 'single',
+  nozzle_diameter: 'perExtruder',
   bed_shape: 'array',
-  retract_before_wipe: 'single',
-  retract_length_toolchange: 'single',
-  retract_restart_extra_toolchange: 'single',
-  retract_restart_extra: 'single',
-  retract_layer_change: 'single',
-  retract_length: 'single',
-  retract_lift: 'single',
-  retract_before_travel: 'single',
-  retract_speed: 'single',
+  retract_before_wipe: 'perExtruder',
+  retract_length_toolchange: 'perExtruder',
+  retract_restart_extra_toolchange: 'perExtruder',
+  retract_restart_extra: 'perExtruder',
+  retract_layer_change: 'perExtruder',
+  retract_length: 'perExtruder',
+  retract_lift: 'perExtruder',
+  retract_before_travel: 'perExtruder',
+  retract_speed: 'perExtruder',
   thumbnails: 'array',
-  extruder_offset: 'single',
-  retract_lift_above: 'single',
-  retract_lift_below: 'single',
-  wipe: 'single'
+  extruder_offset: 'perExtruder',
+  retract_lift_above: 'perExtruder',
+  retract_lift_below: 'perExtruder',
+  wipe: 'perExtruder',
+  extruder_colour: 'perExtruder',
+  retract_lift_top: 'perExtruder'
+};
+
+/** Cura `infill_pattern` values and the OrcaSlicer `sparse_infill_pattern` they are converted to. */
+export const curaInfillTypes: { [key: string]: string } = {
+  grid: 'grid',
+  lines: 'line',
+  triangles: 'triangles',
+  trihexagon: 'tri-hexagon',
+  cubic: 'cubic',
+  cubicsubdiv: 'adaptivecubic',
+  concentric: 'concentric',
+  zigzag: 'zig-zag',
+  cross_3d: '3dhoneycomb',
+  gyroid: 'gyroid',
+  lightning: 'lightning'
+};
+
+/** Cura `top_bottom_pattern` values and the OrcaSlicer top and bottom surface patterns they are converted to. */
+export const curaSurfacePatterns: { [key: string]: string } = {
+  lines: 'monotonicline',
+  concentric: 'concentric',
+  zigzag: 'zig-zag'
 };
 
+/** Cura `support_pattern` values and the OrcaSlicer `support_base_pattern` they are converted to. */
+export const curaSupportPatterns: { [key: string]: string } = {
+  lines: 'rectilinear',
+  zigzag: 'rectilinear',
+  grid: 'rectilinear-grid',
+  lightning: 'lightning'
+};
+
+/** Cura `z_seam_type` values and the OrcaSlicer `seam_position` they are converted to. */
+export const curaSeamPositions: { [key: string]: string } = {
+  back: 'back',
+  shortest: 'nearest',
+  random: 'random',
+  sharpest_corner: 'aligned'
+};
+
+/** Cura `machine_gcode_flavor` values and the OrcaSlicer `gcode_flavor` they are converted to. */
+export const curaGcodeFlavors: { [key: string]: string } = {
+  'RepRap (Marlin/Sprinter)': 'marlin',
+  'RepRap (Volumetric)': 'marlin',
+  'RepRap (RepRap)': 'reprapfirmware',
+  'Repetier': 'reprapfirmware',
+  'MACH3': 'reprapfirmware',
+  'UltiGCode': 'marlin',
+  'Griffin': 'marlin',
+  'Makerbot': 'marlin',
+  'BFB': 'marlin'
+};
+
+/**
+ * Default formulas (from Cura's `fdmprinter.def.json`) of Cura settings that are derived from a
+ * parent setting. Cura profiles only store the settings the user changed, so a profile that sets
+ * `speed_print` relies on these to set the wall, infill and support speeds.
+ */
+export const curaDerivedSettings: { [key: string]: string } = {
+  wall_line_width: '=line_width',
+  wall_line_width_0: '=wall_line_width',
+  wall_line_width_x: '=wall_line_width',
+  skin_line_width: '=line_width',
+  infill_line_width: '=line_width',
+  support_line_width: '=line_width',
+  wall_line_count: '=max(1, round((wall_thickness - wall_line_width_0) / wall_line_width_x) + 1)',
+  top_thickness: '=top_bottom_thickness',
+  bottom_thickness: '=top_bottom_thickness',
+  top_layers: '=math.ceil(round(top_thickness / layer_height, 4))',
+  bottom_layers: '=math.ceil(round(bottom_thickness / layer_height, 4))',
+  speed_infill: '=speed_print',
+  speed_wall: '=speed_print / 2',
+  speed_wall_0: '=speed_wall',
+  speed_wall_x: '=speed_wall * 2',
+  speed_topbottom: '=speed_print / 2',
+  speed_support: '=speed_print',
+  speed_support_interface: '=speed_support / 1.5',
+  speed_print_layer_0: '=speed_layer_0',
+  acceleration_infill: '=acceleration_print',
+  acceleration_wall: '=acceleration_print',
+  acceleration_wall_0: '=acceleration_wall',
+  acceleration_wall_x: '=acceleration_wall',
+  acceleration_topbottom: '=acceleration_print',
+  material_print_temperature_layer_0: '=material_print_temperature',
+  material_bed_temperature_layer_0: '=material_bed_temperature',
+  cool_fan_speed_min: '=cool_fan_speed',
+  cool_fan_speed_max: '=cool_fan_speed',
+  retraction_retract_speed: '=retraction_speed',
+  retraction_prime_speed: '=retraction_speed'
+};
+
+/**
+ * Cura settings that are not in `curaParameterMap` but are consumed, either as parents of
+ * derived settings or as inputs to other settings' special cases. They are not reported as
+ * unmapped, and `extractCuraProfiles` assigns them to the profile type listed here.
+ */
+export const curaIndirectParams: { [iniType: string]: string[] } = {
+  print: [
+    'wall_thickness',
+    'wall_line_width',
+    'top_bottom_thickness',
+    'speed_print',
+    'speed_wall',
+    'acceleration_wall'
+  ],
+  filament: ['cool_fan_speed', 'retraction_speed', 'retraction_hop_enabled'],
+  printer: ['machine_depth', 'machine_center_is_zero']
+};
+
+/** Cura settings given in percent whose OrcaSlicer value is a percentage string. */
+export const curaPercentParams = ['infill_sparse_density', 'infill_overlap'];
+
+/** Cura settings given in percent whose OrcaSlicer value is a ratio. */
+export const curaRatioParams = ['material_flow'];
+
+/** Cura G-code placeholders and the OrcaSlicer placeholders they are translated to. */
+export const curaPlaceholders: { [key: string]: string } = {
+  material_print_temperature: 'nozzle_temperature',
+  material_print_temperature_layer_0: 'nozzle_temperature_initial_layer',
+  material_bed_temperature: 'bed_temperature_initial_layer_single',
+  material_bed_temperature_layer_0: 'bed_temperature_initial_layer_single',
+  initial_extruder_nr: 'initial_extruder',
+  machine_nozzle_size: 'nozzle_diameter',
+  layer_height: 'layer_height'
+};
+
+/**
+ * Source slicers recognised by the `# generated by` header of their INI files.
+ *
+ * Checked in order, so forks named after another slicer (Slic3r++) come before it.
+ */
+export const sourceSlicers: SourceSlicer[] = [
+  { flavor: 'PrusaSlicer', header: /PrusaSlicer/i, base: 'PrusaSlicer' },
+  { flavor: 'SuperSlicer', header: /SuperSlicer/i, base: 'SuperSlicer' },
+  { flavor: 'Slic3r++', header: /Slic3r\+\+/i, base: 'SuperSlicer' },
+  {
+    flavor: 'QIDISlicer',
+    header: /QIDISlicer/i,
+    base: 'PrusaSlicer',
+    baseVersions: { '1.0': '2.6.0', '1.1': '2.7.0', '1.2': '2.8.0' }
+  },
+  { flavor: 'Slic3r', header: /Slic3r/i, base: 'PrusaSlicer' },
+  { flavor: 'Cura', header: /^Cura$/, base: 'Cura' }
+];
+
+/**
+ * Keys that only one of the Prusa-derived slicers writes, used to guess the source slicer of
+ * profiles without a `# generated by` header. Recent SuperSlicer releases also write the
+ * PrusaSlicer keys, so SuperSlicer keys take precedence over them.
+ */
+export const flavorSignatures: { [flavor: string]: string[] } = {
+  SuperSlicer: [
+    'default_speed',
+    'infill_dense',
+    'perimeter_loop',
+    'thin_walls_min_width',
+    'overhangs_width',
+    'brim_ears',
+    'fill_angle_increment',
+    'first_layer_size_compensation'
+  ],
+  Slic3r: [
+    'top_infill_pattern',
+    'bottom_infill_pattern',
+    'adaptive_slicing',
+    'match_horizontal_surfaces',
+    'z_steps_per_mm'
+  ],
+  PrusaSlicer: [
+    'perimeter_generator',
+    'wall_transition_angle',
+    'wall_distribution_count',
+    'gcode_substitutions',
+    'arc_fitting'
+  ]
+};
+
+/**
+ * Keys that strongly indicate a profile type, with their weight. Every other key of the type's
+ * `parameterMap` section weighs 1, so small presets that only override a few of these keys are
+ * still recognised.
+ */
+export const iniTypeSignatures: { [iniType: string]: { [key: string]: number } } = {
+  print: {
+    print_settings_id: 5,
+    perimeters: 5,
+    fill_density: 5,
+    fill_pattern: 4,
+    top_solid_layers: 4,
+    bottom_solid_layers: 4,
+    support_material: 4,
+    perimeter_speed: 3,
+    infill_speed: 3,
+    first_layer_height: 2,
+    layer_height: 2
+  },
+  filament: {
+    filament_settings_id: 5,
+    filament_diameter: 5,
+    filament_type: 5,
+    filament_density: 4,
+    temperature: 4,
+    first_layer_temperature: 4,
+    bed_temperature: 4,
+    first_layer_bed_temperature: 4,
+    extrusion_multiplier: 4,
+    start_filament_gcode: 3,
+    max_fan_speed: 3
+  },
+  printer: {
+    printer_settings_id: 5,
+    bed_shape: 5,
+    printer_model: 4,
+    nozzle_diameter: 4,
+    gcode_flavor: 4,
+    max_print_height: 4,
+    start_gcode: 4,
+    end_gcode: 3,
+    retract_length: 3,
+    machine_max_acceleration_x: 3
+  },
+  physical_printer: {
+    preset_name: 5,
+    preset_names: 5,
+    print_host: 5,
+    host_type: 5
+  }
+};
+
+/** OrcaSlicer keys that name other profiles, and the type of the profiles they name. */
+export const profileReferenceKeys: { [key: string]: OutputIniType } = {
+  compatible_printers: 'printer',
+  compatible_prints: 'print',
+  default_print_profile: 'print',
+  default_filament_profile: 'filament'
+};
+
+/**
+ * Weights of the properties compared when matching a printer profile to OrcaSlicer system printers.
+ *
+ * A nozzle diameter that differs from the source counts against a printer, since system
+ * printers come in one preset per nozzle size.
+ */
+export const printerMatchWeights = {
+  model: 45,
+  vendor: 15,
+  bed: 20,
+  nozzle: 20
+};
+
+/**
+ * Weights of the properties compared when choosing the system preset a converted filament or
+ * process profile inherits from. Only presets of the same filament type, or with the same
+ * layer height, are considered at all.
+ */
+export const presetMatchWeights = {
+  vendor: 20,
+  generic: 5,
+  nozzle: 20,
+  printer: 30
+};
@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   convertParams,
   calculatePrintParams,
-  detectIniType
+  detectIniType,
+  scoreIniType
 } from './conversion';
 import type { Status, SourceIni, NewHash } from './types';
 import { parameterMap } from './parameterMap';
@@ -22,6 +23,7 @@ describe('conversion', () => {
     status = {
       forceOut: false,
       legacyOverwrite: false,
+      dryRun: false,
       maxTemp: 0,
       interactiveMode: false,
       outdirWasProvided: false,
@@ -164,6 +166,22 @@ describe('conversion', () => {
       expect(result).toBe('zig-zag');
     });
 
+    it('should record unknown fill_pattern values as passthrough in the report', async () => {
+      status.report = { unmapped: [], passthrough: [], specialCases: [] };
+      sourceIni['fill_pattern'] = 'mystery';
+      const result = await convertParams('fill_pattern', undefined, sourceIni, status, newHash);
+      expect(result).toBe('mystery');
+      expect(status.report.passthrough).toEqual([{ parameter: 'fill_pattern', value: 'mystery' }]);
+      expect(status.report.specialCases).toEqual(['fill_pattern']);
+    });
+
+    it('should not record known values as passthrough', async () => {
+      status.report = { unmapped: [], passthrough: [], specialCases: [] };
+      sourceIni['seam_position'] = 'aligned';
+      await convertParams('seam_position', undefined, sourceIni, status, newHash);
+      expect(status.report.passthrough).toEqual([]);
+    });
+
     it('should convert gcode_flavor', async () => {
       sourceIni['gcode_flavor'] = 'marlin';
       status.iniType = 'printer';
@@ -171,6 +189,25 @@ describe('conversion', () => {
       expect(result).toBe('marlin');
     });
 
+    it('should keep a single value for single-extruder printers', async () => {
+      status.iniType = 'printer';
+      sourceIni['retract_length'] = '0.8';
+      const result = await convertParams('retract_length', undefined, sourceIni, status, newHash);
+      expect(result).toBe('0.8');
+    });
+
+    it('should convert per-extruder values to arrays for multi-extruder printers', async () => {
+      status.iniType = 'printer';
+      sourceIni['retract_length'] = '0.8,1.2';
+      sourceIni['retract_lift_top'] = 'Not on top;Only on top';
+      sourceIni['extruder_colour'] = '"#FF0000";"#00FF00"';
+      sourceIni['extruder_offset'] = '0x0,20x0';
+      expect(await convertParams('retract_length', undefined, sourceIni, status, newHash)).toEqual(['0.8', '1.2']);
+      expect(await convertParams('retract_lift_top', undefined, sourceIni, status, newHash)).toEqual(['Bottom Only', 'Top Only']);
+      expect(await convertParams('extruder_colour', undefined, sourceIni, status, newHash)).toEqual(['#FF0000', '#00FF00']);
+      expect(await convertParams('extruder_offset', undefined, sourceIni, status, newHash)).toEqual(['0x0', '20x0']);
+    });
+
     it('should convert output_filename_format brackets', async () => {
       sourceIni['output_filename_format'] = '[input_filename_base].gcode';
       const result = await convertParams('output_filename_format', undefined, sourceIni, status, newHash);
@@ -184,6 +221,17 @@ describe('conversion', () => {
       expect(result).toBe('G28\nG1 X0 Y0');
     });
 
+    it('should translate G-code placeholders and warn about unknown ones', async () => {
+      status.report = { unmapped: [], passthrough: [], specialCases: [] };
+      status.warnings = [];
+      sourceIni['start_gcode'] = 'M190 S[first_layer_bed_temperature]\\nM117 [mystery]';
+      status.iniType = 'printer';
+      const result = await convertParams('start_gcode', undefined, sourceIni, status, newHash);
+      expect(result).toBe('M190 S[bed_temperature_initial_layer_single]\nM117 [mystery]');
+      expect(status.report.passthrough).toEqual([{ parameter: 'start_gcode', value: 'mystery' }]);
+      expect(status.warnings).toHaveLength(1);
+    });
+
     it('should handle compatible_printers_condition with KEEP', async () => {
       sourceIni['compatible_printers_condition'] = 'printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*/';
       vi.mocked(menu.displayMenu).mockResolvedValue('KEEP');
@@ -200,6 +248,16 @@ describe('conversion', () => {
       expect(status.value.compatiblePrintersCondition).toBe('DISCARD');
     });
 
+    it('should translate compatible_printers_condition with TRANSLATE', async () => {
+      sourceIni['compatible_printers_condition'] = 'max_print_height > 200 and mystery == 1';
+      status.report = { unmapped: [], passthrough: [], specialCases: [] };
+      vi.mocked(menu.displayMenu).mockResolvedValue('TRANSLATE');
+      const result = await convertParams('compatible_printers_condition', 'test.ini', sourceIni, status, newHash);
+      expect(result).toBe('printable_height > 200 and mystery == 1');
+      expect(status.value.compatiblePrintersCondition).toBe('TRANSLATE');
+      expect(status.report.passthrough).toEqual([{ parameter: 'compatible_printers_condition', value: 'mystery == 1' }]);
+    });
+
     it('should skip compatible_printers_condition if already DISCARDed', async () => {
       sourceIni['compatible_printers_condition'] = 'test';
       status.value.compatiblePrintersCondition = 'DISCARD';
@@ -346,13 +404,56 @@ describe('conversion', () => {
       expect(detectIniType(sourceIni)).toBeUndefined();
     });
 
-    it('should return undefined if all counts are less than 10', () => {
+    it('should return undefined if no type has a strong enough match', () => {
       sourceIni['layer_height'] = '0.2';
       sourceIni['temperature'] = '210';
       sourceIni['nozzle_diameter'] = '0.4';
       // Not enough parameters to determine type
       expect(detectIniType(sourceIni)).toBeUndefined();
     });
+
+    it('should detect small presets from their signature keys', () => {
+      expect(detectIniType({ fill_density: '20%', perimeters: '3' })).toBe('print');
+      expect(detectIniType({ filament_diameter: '2.85' })).toBe('filament');
+      expect(detectIniType({ bed_shape: '0x0,250x0,250x210,0x210' })).toBe('printer');
+    });
+  });
+
+  describe('scoreIniType', () => {
+    it('should score each type with the weights of its keys', () => {
+      const detection = scoreIniType({ filament_type: 'PETG', temperature: '240', nozzle_diameter: '0.4' });
+      expect(detection.iniType).toBe('filament');
+      expect(detection.ambiguous).toBe(false);
+      expect(detection.scores[0]).toEqual({
+        iniType: 'filament',
+        score: 9,
+        evidence: [{ key: 'filament_type', weight: 5 }, { key: 'temperature', weight: 4 }]
+      });
+      expect(detection.scores[1]).toEqual({ iniType: 'printer', score: 4, evidence: [{ key: 'nozzle_diameter', weight: 4 }] });
+      expect(detection.confidence).toBe(0.33);
+    });
+
+    it('should be fully confident about a clear match', () => {
+      const detection = scoreIniType({ bed_shape: '0x0', gcode_flavor: 'marlin2', max_print_height: '250', start_gcode: 'G28' });
+      expect(detection).toMatchObject({ iniType: 'printer', confidence: 1, candidates: ['printer'] });
+    });
+
+    it('should report ambiguous matches instead of picking one', () => {
+      const detection = scoreIniType({ temperature: '210', bed_temperature: '60', nozzle_diameter: '0.4', gcode_flavor: 'marlin' });
+      expect(detection.iniType).toBeUndefined();
+      expect(detection.ambiguous).toBe(true);
+      expect(detection.candidates.sort()).toEqual(['filament', 'printer']);
+    });
+
+    it('should trust an explicit ini_type', () => {
+      expect(scoreIniType({ ini_type: 'printer' })).toEqual({
+        iniType: 'printer',
+        confidence: 1,
+        ambiguous: false,
+        candidates: ['printer'],
+        scores: []
+      });
+    });
   });
 });
 
@@ -14,7 +14,10 @@ import {
   NewHash,
   IniType,
   SlicerFlavor,
-  ParameterMap
+  ParameterMap,
+  ConditionChoice,
+  IniTypeScore,
+  IniTypeDetection
 } from './types';
 import {
   isDecimal,
@@ -43,10 +46,15 @@ import {
   gcodeFlavors,
   hostTypes,
   zhopEnforcement,
-  thumbnailFormat
+  thumbnailFormat,
+  gcodeParams,
+  iniTypeSignatures
 } from './constants';
 import { parameterMap } from './parameterMap';
+import { translateGcode } from './gcode';
+import { translateCondition } from './condition';
 import { displayMenu } from './menu';
+import { baseFlavor } from './flavors';
 
 /**
  * Converts a single parameter from the source INI format to OrcaSlicer JSON format.
@@ -87,14 +95,23 @@ export async function convertParams(
   // Handle multivalue parameters
   if (multivalueParams[parameter]) {
     const array = multivalueToArray(newValue);
-    if (multivalueParams[parameter] === 'single') {
-      newValue = array[0] || '';
-    } else {
+    if (multivalueParams[parameter] === 'perExtruder' && array.length > 1) {
+      // Convert each extruder's value on its own
+      const values: string[] = [];
+      for (const value of array) {
+        const converted = await convertParams(parameter, file, { ...sourceIni, [parameter]: value }, status, newHash);
+        values.push(typeof converted === 'string' ? converted : '');
+      }
+      return values;
+    }
+    if (multivalueParams[parameter] === 'array') {
       return array;
     }
+    newValue = array[0] || '';
   }
 
-  const defaultSpeed = status.slicerFlavor === 'SuperSlicer' ? sourceIni['default_speed'] : undefined;
+  const sourceBase = baseFlavor(status.slicerFlavor);
+  const defaultSpeed = sourceBase === 'SuperSlicer' ? sourceIni['default_speed'] : undefined;
 
   if (!status.iniType || status.iniType === 'unsupported' || status.iniType === 'physical_printer') {
     return undefined;
@@ -132,52 +149,48 @@ export async function convertParams(
   const unbackslashGcode = (): string => {
     if (!newValue) return '';
     let val = newValue.replace(/^"(.*)"$/, '$1');
-    return unbackslash(val);
+    val = unbackslash(val);
+    if (!gcodeParams.includes(parameter)) return val;
+
+    const { gcode, unknown } = translateGcode(val);
+    for (const name of unknown) {
+      status.report?.passthrough.push({ parameter, value: name });
+      status.warnings?.push(`Unknown G-code placeholder "${name}" in ${parameter} was left unchanged`);
+    }
+    return gcode;
   };
 
   const handleCompatibleCondition = async (): Promise<string> => {
-    if (parameter === 'compatible_printers_condition') {
-      if (status.value.compatiblePrintersCondition === 'DISCARD') {
-        return '';
-      }
-      if (newValue === '' || status.value.compatiblePrintersCondition === 'KEEP') {
-        return newValue;
-      }
-      const parts = parameter.split('_');
-      const affectedProfile = parts[1]?.slice(0, -1) || 'profile';
-      const choice = await displayMenu(
-        `The \x1b[1m${file || 'profile'}\x1b[0m ${status.iniType} profile has the following \x1b[1m${parameter}\x1b[0m value:\n\n\t\x1b[40m\x1b[0;93m${newValue}\x1b[0m\n\nIf you keep this value, this ${status.iniType} profile will not be visible in OrcaSlicer unless you have selected a ${affectedProfile} that satisfies all the conditions specified above. If you discard this value, this ${status.iniType} profile will be visible regardless of which ${affectedProfile} you have selected.\n\nDo you want to KEEP this value or DISCARD it?\n\n`,
-        true,
-        ['KEEP', 'DISCARD']
-      );
-      if (typeof choice === 'string') {
-        status.value.compatiblePrintersCondition = choice;
-        return choice === 'KEEP' ? newValue : '';
-      }
+    const valueKey = parameter === 'compatible_printers_condition'
+      ? 'compatiblePrintersCondition'
+      : 'compatiblePrintsCondition';
+    if (newValue === '') {
+      return newValue;
+    }
+    const choice = status.value[valueKey]
+      || await askCompatibleCondition(parameter, newValue, file, status.iniType);
+    status.value[valueKey] = choice;
+    if (choice === 'DISCARD') {
       return '';
-    } else if (parameter === 'compatible_prints_condition') {
-      if (status.value.compatiblePrintsCondition === 'DISCARD') {
-        return '';
-      }
-      if (newValue === '' || status.value.compatiblePrintsCondition === 'KEEP') {
-        return newValue;
-      }
-      const parts = parameter.split('_');
-      const affectedProfile = parts[1]?.slice(0, -1) || 'profile';
-      const choice = await displayMenu(
-        `The \x1b[1m${file || 'profile'}\x1b[0m ${status.iniType} profile has the following \x1b[1m${parameter}\x1b[0m value:\n\n\t\x1b[40m\x1b[0;93m${newValue}\x1b[0m\n\nIf you keep this value, this ${status.iniType} profile will not be visible in OrcaSlicer unless you have selected a ${affectedProfile} that satisfies all the conditions specified above. If you discard this value, this ${status.iniType} profile will be visible regardless of which ${affectedProfile} you have selected.\n\nDo you want to KEEP this value or DISCARD it?\n\n`,
-        true,
-        ['KEEP', 'DISCARD']
-      );
-      if (typeof choice === 'string') {
-        status.value.compatiblePrintsCondition = choice;
-        return choice === 'KEEP' ? newValue : '';
+    }
+    if (choice === 'TRANSLATE') {
+      const { condition, untranslated } = translateCondition(newValue);
+      for (const expression of untranslated) {
+        status.report?.passthrough.push({ parameter, value: expression });
+        status.warnings?.push(`Could not translate "${expression}" in ${parameter}; it was kept unchanged`);
       }
-      return '';
+      return condition;
     }
     return newValue;
   };
 
+  // Translate a value through a lookup table, reporting values with no known translation
+  const translate = (table: { [key: string]: string }, fallback: string = newValue): string => {
+    if (table[newValue]) return table[newValue];
+    status.report?.passthrough.push({ parameter, value: newValue });
+    return fallback;
+  };
+
   // Note: This function needs to be synchronous for most cases
   // We'll handle async cases separately
 
@@ -226,8 +239,13 @@ export async function convertParams(
       return unbackslash(arr[0] || '');
     },
 
+    extruder_colour: () => newValue.replace(/^"(.*)"$/, '$1'),
+
     retract_lift_top: () => {
       const arr = multivalueToArray(newValue);
+      if (!zhopEnforcement[arr[0] || '']) {
+        status.report?.passthrough.push({ parameter, value: arr[0] || '' });
+      }
       return zhopEnforcement[arr[0] || ''] || arr[0] || '';
     },
 
@@ -261,26 +279,36 @@ export async function convertParams(
         const genstyle = sourceIni['support_material_auto'] ? 'auto' : 'manual';
         newHash['support_type'] = `${supportType}(${genstyle})`;
         newHash['support_style'] = supportStyle;
+      } else {
+        status.report?.passthrough.push({ parameter, value: newValue });
       }
       return '';
     },
 
-    fill_pattern: () => infillTypes[newValue] || newValue,
-    top_fill_pattern: () => infillTypes[newValue] || newValue,
-    bottom_fill_pattern: () => infillTypes[newValue] || newValue,
-    solid_fill_pattern: () => infillTypes[newValue] || newValue,
+    fill_pattern: () => translate(infillTypes),
+    top_fill_pattern: () => translate(infillTypes),
+    bottom_fill_pattern: () => translate(infillTypes),
+    solid_fill_pattern: () => translate(infillTypes),
 
-    gcode_flavor: () => gcodeFlavors[newValue] || '',
+    gcode_flavor: () => translate(gcodeFlavors, ''),
 
-    host_type: () => hostTypes[newValue] || newValue,
+    host_type: () => translate(hostTypes),
 
-    thumbnails_format: () => thumbnailFormat[newValue] || newValue,
+    thumbnails_format: () => translate(thumbnailFormat),
 
-    support_material_pattern: () => supportPatterns[newValue] ? newValue : 'default',
+    support_material_pattern: () => {
+      if (supportPatterns[newValue]) return newValue;
+      status.report?.passthrough.push({ parameter, value: newValue });
+      return 'default';
+    },
 
-    support_material_interface_pattern: () => interfacePatterns[newValue] ? newValue : 'auto',
+    support_material_interface_pattern: () => {
+      if (interfacePatterns[newValue]) return newValue;
+      status.report?.passthrough.push({ parameter, value: newValue });
+      return 'auto';
+    },
 
-    seam_position: () => seamPositions[newValue] || newValue,
+    seam_position: () => translate(seamPositions),
 
     support_material_layer_height: () => parseFloat(newValue) > 0 ? '1' : '0',
 
@@ -312,60 +340,63 @@ export async function convertParams(
     support_material_interface_speed: () => percentToMm(sourceIni['support_material_speed'], newValue) || newValue,
 
     first_layer_infill_speed: () => {
-      const base = status.slicerFlavor === 'PrusaSlicer'
+      const base = sourceBase === 'PrusaSlicer'
         ? sourceIni['first_layer_speed']
         : newValue;
       return percentToMm(sourceIni['infill_speed'], base) || newValue;
     },
 
     solid_infill_speed: () => {
-      const base = status.slicerFlavor === 'PrusaSlicer'
+      const base = sourceBase === 'PrusaSlicer'
         ? sourceIni['infill_speed']
         : defaultSpeed;
       return percentToMm(base, newValue) || newValue;
     },
 
     perimeter_speed: () => {
-      return status.slicerFlavor === 'SuperSlicer'
+      return sourceBase === 'SuperSlicer'
         ? (percentToMm(defaultSpeed, newValue) || newValue)
         : newValue;
     },
 
     support_material_speed: () => {
-      return status.slicerFlavor === 'SuperSlicer'
+      return sourceBase === 'SuperSlicer'
         ? (percentToMm(defaultSpeed, newValue) || newValue)
         : newValue;
     },
 
     bridge_speed: () => {
-      return status.slicerFlavor === 'SuperSlicer'
+      return sourceBase === 'SuperSlicer'
         ? (percentToMm(defaultSpeed, newValue) || newValue)
         : newValue;
     },
 
     infill_speed: () => {
       const base = newHash['internal_solid_infill_speed'];
-      return status.slicerFlavor === 'SuperSlicer'
+      return sourceBase === 'SuperSlicer'
         ? (percentToMm(typeof base === 'string' ? base : '', newValue) || newValue)
         : newValue;
     },
 
     small_perimeter_speed: () => {
       const base = newHash['sparse_infill_speed'];
-      return status.slicerFlavor === 'SuperSlicer'
+      return sourceBase === 'SuperSlicer'
         ? (percentToMm(typeof base === 'string' ? base : '', newValue) || newValue)
         : newValue;
     },
 
     gap_fill_speed: () => {
       const base = newHash['sparse_infill_speed'];
-      return status.slicerFlavor === 'SuperSlicer'
+      return sourceBase === 'SuperSlicer'
         ? (percentToMm(typeof base === 'string' ? base : '', newValue) || newValue)
         : newValue;
     }
   };
 
   if (specialCases[parameter]) {
+    if (!status.report?.specialCases.includes(parameter)) {
+      status.report?.specialCases.push(parameter);
+    }
     const result = await specialCases[parameter]();
     return result;
   }
@@ -373,6 +404,37 @@ export async function convertParams(
   return newValue;
 }
 
+/**
+ * Asks the user whether to keep, discard or translate a compatible condition string.
+ *
+ * @param parameter - The condition parameter ('compatible_printers_condition' or 'compatible_prints_condition')
+ * @param value - The condition expression from the source INI
+ * @param file - The filename being processed (for display purposes), or undefined
+ * @param iniType - The type of the profile being converted
+ * @returns The user's choice, 'KEEP', 'DISCARD' or 'TRANSLATE'
+ *
+ * @example
+ * ```ts
+ * const choice = await askCompatibleCondition('compatible_printers_condition', 'nozzle_diameter[0]==0.4', 'my_print', 'print');
+ * ```
+ */
+export async function askCompatibleCondition(
+  parameter: string,
+  value: string,
+  file: string | undefined,
+  iniType: IniType | undefined
+): Promise<ConditionChoice> {
+  const parts = parameter.split('_');
+  const affectedProfile = parts[1]?.slice(0, -1) || 'profile';
+  const choice = await displayMenu(
+    `The \x1b[1m${file || 'profile'}\x1b[0m ${iniType} profile has the following \x1b[1m${parameter}\x1b[0m value:\n\n\t\x1b[40m\x1b[0;93m${value}\x1b[0m\n\nIf you keep this value, this ${iniType} profile will not be visible in OrcaSlicer unless you have selected a ${affectedProfile} that satisfies all the conditions specified above. If you discard this value, this ${iniType} profile will be visible regardless of which ${affectedProfile} you have selected. If you translate this value, the PrusaSlicer/SuperSlicer setting names it refers to will be renamed to their OrcaSlicer equivalents.\n\nDo you want to KEEP this value, DISCARD it, or TRANSLATE it?\n\n`,
+    true,
+    ['KEEP', 'DISCARD', 'TRANSLATE']
+  );
+  if (choice === 'TRANSLATE' || choice === 'DISCARD') return choice;
+  return 'KEEP';
+}
+
 /**
  * Calculates and converts print-specific parameters, including speed settings and print order.
  *
@@ -421,17 +483,13 @@ export async function calculatePrintParams(
   newHash['enable_overhang_speed'] = enableDynamicOverhangSpeeds ? '1' : '0';
 
   if (enableDynamicOverhangSpeeds) {
-    let speeds: string[] = [];
-    if (status.slicerFlavor === 'SuperSlicer') {
-      speeds = (sourceIni['dynamic_overhang_speeds'] || '').split(',');
-    } else {
-      speeds = [
-        sourceIni['overhang_speed_0'] || '',
-        sourceIni['overhang_speed_1'] || '',
-        sourceIni['overhang_speed_2'] || '',
-        sourceIni['overhang_speed_3'] || ''
-      ];
-    }
+    // SuperSlicer's dynamic_overhang_speeds list was already split by upgradeSourceIni
+    const speeds = [
+      sourceIni['overhang_speed_0'] || '',
+      sourceIni['overhang_speed_1'] || '',
+      sourceIni['overhang_speed_2'] || '',
+      sourceIni['overhang_speed_3'] || ''
+    ];
     const overhangSpeedKeys = [
       'overhang_1_4_speed',
       'overhang_2_4_speed',
@@ -458,49 +516,97 @@ export async function calculatePrintParams(
   return newHash;
 }
 
+/** The lowest score a profile type needs to be detected: one strong signature key. */
+const MIN_TYPE_SCORE = 5;
+
+/** Score from which a clear winner is detected with full confidence. */
+const CONFIDENT_TYPE_SCORE = 15;
+
+/** Fraction of the best score from which another type is considered a candidate too. */
+const AMBIGUOUS_TYPE_RATIO = 0.75;
+
 /**
- * Detects the type of INI file by analyzing which parameters are present.
+ * Scores how well a source INI matches each profile type.
  *
  * @param sourceIni - The source INI configuration object to analyze
- * @returns The detected ini type ('print', 'filament', 'printer', etc.), or undefined if type cannot be determined
+ * @returns The detected type with its confidence, the candidate types and the score of every type
  *
  * @remarks
- * The function counts how many parameters from each type's parameter map are present in the source.
- * Returns the type with the highest count, but only if at least 10 matching parameters are found.
- * If 'ini_type' is explicitly set in the source, that value is returned directly.
+ * Every key adds its weight in `iniTypeSignatures` to the types it signals (e.g. `bed_shape` to
+ * printer, `filament_diameter` to filament); other keys of a type's `parameterMap` section add 1.
+ * The best type is detected if it scores at least 5, which a single strong key reaches, so
+ * small override-only presets are recognised. If another type scores within 75% of the best,
+ * the result is ambiguous and no type is detected; `candidates` lists the types to choose from.
+ *
+ * The confidence is 1 when the best type scores 15 or more and no other type scores at all,
+ * and shrinks as the best score gets lower or the runner-up gets closer.
+ *
+ * If 'ini_type' is explicitly set in the source, that value is returned with full confidence.
  *
  * @example
  * ```ts
- * const type = detectIniType(sourceIni);
- * if (type === 'print') {
- *   // Handle print profile
- * }
+ * scoreIniType({ temperature: '215', bed_temperature: '60' })
+ * // { iniType: 'filament', confidence: 0.53, ambiguous: false, candidates: ['filament'], scores: [...] }
  * ```
  */
-export function detectIniType(sourceIni: SourceIni): IniType | undefined {
+export function scoreIniType(sourceIni: SourceIni): IniTypeDetection {
   if (sourceIni['ini_type']) {
-    return sourceIni['ini_type'] as IniType;
+    const iniType = sourceIni['ini_type'] as IniType;
+    return { iniType, confidence: 1, ambiguous: false, candidates: [iniType], scores: [] };
   }
 
-  const typeCounts: { [key: string]: number } = {};
-  for (const type of Object.keys(parameterMap)) {
-    typeCounts[type] = 0;
-    const typeMap = parameterMap[type as IniType];
-    if (typeMap) {
-      for (const param of Object.keys(sourceIni)) {
-        if (param in typeMap) {
-          typeCounts[type]++;
-        }
-      }
+  const scores: IniTypeScore[] = [];
+  for (const iniType of Object.keys(parameterMap) as IniType[]) {
+    const typeMap = parameterMap[iniType] || {};
+    const signatures = iniTypeSignatures[iniType] || {};
+    const evidence = Object.keys(sourceIni)
+      .map(key => ({ key, weight: signatures[key] ?? (key in typeMap ? 1 : 0) }))
+      .filter(match => match.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+    const score = evidence.reduce((sum, match) => sum + match.weight, 0);
+    if (score > 0) {
+      scores.push({ iniType, score, evidence });
     }
   }
+  scores.sort((a, b) => b.score - a.score);
 
-  // Check if all counts are less than 10
-  const hasValidType = Object.values(typeCounts).some(count => count >= 10);
-  if (!hasValidType) return undefined;
+  const best = scores[0]?.score ?? 0;
+  if (best < MIN_TYPE_SCORE) {
+    return { confidence: 0, ambiguous: false, candidates: [], scores };
+  }
+
+  const candidates = scores.filter(entry => entry.score >= best * AMBIGUOUS_TYPE_RATIO).map(entry => entry.iniType);
+  const runnerUp = scores[1]?.score ?? 0;
+  const confidence = (1 - runnerUp / best) * Math.min(1, best / CONFIDENT_TYPE_SCORE);
+  const ambiguous = candidates.length > 1;
+  return {
+    iniType: ambiguous ? undefined : scores[0].iniType,
+    confidence: Math.round(confidence * 100) / 100,
+    ambiguous,
+    candidates,
+    scores
+  };
+}
 
-  // Return type with highest count
-  return Object.entries(typeCounts)
-    .sort((a, b) => b[1] - a[1])[0][0] as IniType;
+/**
+ * Detects the type of INI file by analyzing which parameters are present.
+ *
+ * @param sourceIni - The source INI configuration object to analyze
+ * @returns The detected ini type ('print', 'filament', 'printer', etc.), or undefined if type cannot be determined
+ *
+ * @remarks
+ * Returns the type found by `scoreIniType`, or undefined if no type scored high enough or
+ * several types scored too close to each other.
+ *
+ * @example
+ * ```ts
+ * const type = detectIniType(sourceIni);
+ * if (type === 'print') {
+ *   // Handle print profile
+ * }
+ * ```
+ */
+export function detectIniType(sourceIni: SourceIni): IniType | undefined {
+  return scoreIniType(sourceIni).iniType;
 }
 
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { convertProfile, initializeStatus } from './converter';
+import type { SourceIni } from './types';
+import { ORCA_SLICER_VERSION } from './types';
+import * as menu from './menu';
+
+// Mock the menu module
+vi.mock('./menu', () => ({
+  displayMenu: vi.fn(),
+  askInput: vi.fn()
+}));
+
+describe('converter', () => {
+  let printIni: SourceIni;
+
+  beforeEach(() => {
+    printIni = {
+      layer_height: '0.2',
+      perimeters: '3',
+      fill_density: '20%',
+      fill_pattern: 'rectilinear',
+      perimeter_speed: '60',
+      compatible_printers_condition: 'printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*/'
+    };
+    vi.clearAllMocks();
+  });
+
+  describe('initializeStatus', () => {
+    it('should create a status with default values', () => {
+      const status = initializeStatus();
+      expect(status.forceOut).toBe(false);
+      expect(status.iniType).toBeUndefined();
+      expect(status.value.onExisting).toBeUndefined();
+    });
+
+    it('should create independent status objects', () => {
+      const first = initializeStatus();
+      const second = initializeStatus();
+      first.value.nozzleSize = 0.6;
+      expect(second.value.nozzleSize).toBeUndefined();
+    });
+  });
+
+  describe('convertProfile', () => {
+    it('should convert a print profile', async () => {
+      const { json, iniType, profileName } = await convertProfile(printIni, {
+        iniType: 'print',
+        slicerFlavor: 'PrusaSlicer',
+        profileName: 'My Print',
+        nozzleSize: 0.4
+      });
+
+      expect(iniType).toBe('print');
+      expect(profileName).toBe('My Print');
+      expect(json['layer_height']).toBe('0.2');
+      expect(json['sparse_infill_pattern']).toBe('zig-zag');
+      expect(json['inner_wall_speed']).toBe('60');
+      expect(json['print_settings_id']).toBe('My Print');
+      expect(json['version']).toBe(ORCA_SLICER_VERSION);
+    });
+
+    it('should never prompt for compatible conditions', async () => {
+      const { json } = await convertProfile(printIni, { iniType: 'print', slicerFlavor: 'PrusaSlicer', nozzleSize: 0.4 });
+      expect(json['compatible_printers_condition']).toBe('printer_notes=~/.*PRINTER_VENDOR_PRUSA3D.*/');
+      expect(menu.displayMenu).not.toHaveBeenCalled();
+    });
+
+    it('should discard compatible conditions when asked to', async () => {
+      const { json } = await convertProfile(printIni, {
+        iniType: 'print',
+        slicerFlavor: 'PrusaSlicer',
+        nozzleSize: 0.4,
+        compatiblePrintersCondition: 'DISCARD'
+      });
+      expect(json['compatible_printers_condition']).toBeUndefined();
+    });
+
+    it('should derive nozzle size from layer height with a warning', async () => {
+      const { warnings } = await convertProfile(printIni, { iniType: 'print', slicerFlavor: 'PrusaSlicer' });
+      expect(warnings.some(w => w.includes('0.4 mm'))).toBe(true);
+    });
+
+    it('should warn when the slicer flavor is not specified', async () => {
+      const { warnings } = await convertProfile(printIni, { iniType: 'print', nozzleSize: 0.4 });
+      expect(warnings).toContain('Source slicer not specified; assuming PrusaSlicer');
+    });
+
+    it('should prefer profile_name from the source INI', async () => {
+      printIni['profile_name'] = 'Bundle Profile';
+      const { json } = await convertProfile(printIni, { iniType: 'print', profileName: 'file', nozzleSize: 0.4 });
+      expect(json['name']).toBe('Bundle Profile');
+    });
+
+    it('should name the profile after the name template', async () => {
+      printIni['profile_name'] = '0.20mm QUALITY';
+      const { json, profileName } = await convertProfile(printIni, {
+        iniType: 'print',
+        slicerFlavor: 'SuperSlicer',
+        nozzleSize: 0.4,
+        nameTemplate: '{name} (from {flavor})'
+      });
+      expect(profileName).toBe('0.20mm QUALITY (from SuperSlicer)');
+      expect(json['name']).toBe('0.20mm QUALITY (from SuperSlicer)');
+      expect(json['print_settings_id']).toBe('0.20mm QUALITY (from SuperSlicer)');
+    });
+
+    it('should unquote the names of compatible printers', async () => {
+      printIni['compatible_printers'] = '"Original Prusa MK4";"My MK3S"';
+      const { json } = await convertProfile(printIni, { iniType: 'print', nozzleSize: 0.4 });
+      expect(json['compatible_printers']).toEqual(['Original Prusa MK4', 'My MK3S']);
+    });
+
+    it('should throw for unknown placeholders in the name template', async () => {
+      await expect(convertProfile(printIni, { iniType: 'print', nozzleSize: 0.4, nameTemplate: '{vendor} {name}' }))
+        .rejects.toThrow('Unknown placeholder {vendor} in name template');
+    });
+
+    it('should throw for unsupported files', async () => {
+      await expect(convertProfile({ random_param: 'value' })).rejects.toThrow('Unsupported file');
+    });
+
+    it('should throw for profiles whose type is ambiguous', async () => {
+      await expect(convertProfile({ temperature: '210', bed_temperature: '60', nozzle_diameter: '0.4', gcode_flavor: 'marlin' }))
+        .rejects.toThrow(/^Ambiguous profile type \((filament or printer|printer or filament)\)$/);
+    });
+
+    it('should throw for print profiles without nozzle size or layer height', async () => {
+      delete printIni['layer_height'];
+      await expect(convertProfile(printIni, { iniType: 'print' })).rejects.toThrow('Invalid layer height');
+    });
+
+    it('should add filament metadata', async () => {
+      const { json } = await convertProfile({
+        temperature: '215',
+        first_layer_temperature: '220',
+        filament_type: 'PET',
+        slowdown_below_layer_time: '5'
+      }, { iniType: 'filament', slicerFlavor: 'PrusaSlicer' });
+
+      expect(json['filament_type']).toBe('PETG');
+      expect(json['nozzle_temperature_range_high']).toBe('220');
+      expect(json['slow_down_for_layer_cooling']).toBe('1');
+      expect(json['compatible_printers']).toEqual([]);
+    });
+
+    it('should upgrade profiles from older source releases', async () => {
+      const { json, warnings } = await convertProfile({
+        ...printIni,
+        support_material_contact_distance: '0.2'
+      }, { iniType: 'print', slicerFlavor: 'PrusaSlicer', slicerVersion: '2.3.3', nozzleSize: 0.4 });
+
+      expect(json['support_style']).toBe('grid');
+      expect(json['support_interface_bottom_layers']).toBe('-1');
+      expect(warnings.some(warning => warning.includes('PrusaSlicer 2.3.3'))).toBe(true);
+    });
+
+    it('should convert SuperSlicer dynamic overhang speeds', async () => {
+      const { json } = await convertProfile({
+        ...printIni,
+        enable_dynamic_overhang_speeds: '1',
+        dynamic_overhang_speeds: '100,80,60,40'
+      }, { iniType: 'print', slicerFlavor: 'SuperSlicer', nozzleSize: 0.4 });
+
+      expect(json['overhang_1_4_speed']).toBe('40');
+      expect(json['overhang_4_4_speed']).toBe('100');
+    });
+
+    it('should merge inherits and physical printer settings into printer profiles', async () => {
+      const { json } = await convertProfile({
+        nozzle_diameter: '0.4',
+        gcode_flavor: 'klipper'
+      }, {
+        iniType: 'printer',
+        slicerFlavor: 'SuperSlicer',
+        inherits: 'Voron 2.4 300 0.4 nozzle',
+        physicalPrinterIni: { host_type: 'moonraker', print_host: '192.168.1.2' }
+      });
+
+      expect(json['inherits']).toBe('Voron 2.4 300 0.4 nozzle');
+      expect(json['host_type']).toBe('octoprint');
+      expect(json['print_host']).toBe('192.168.1.2');
+    });
+
+    it('should emit per-extruder arrays for multi-extruder printers', async () => {
+      const { json } = await convertProfile({
+        nozzle_diameter: '0.4,0.6',
+        retract_length: '0.8,1.2',
+        extruder_offset: '0x0,20x0'
+      }, { iniType: 'printer', slicerFlavor: 'PrusaSlicer' });
+
+      expect(json['nozzle_diameter']).toEqual(['0.4', '0.6']);
+      expect(json['retraction_length']).toEqual(['0.8', '1.2']);
+      expect(json['extruder_offset']).toEqual(['0x0', '20x0']);
+    });
+
+    it('should resolve inherited values from vendor bundles', async () => {
+      const vendorBundles = [{
+        vendor: 'Prusa Research',
+        presets: { print: { '*common*': { layer_height: '0.15', perimeters: '2', fill_pattern: 'gyroid' } } }
+      }];
+      const { json, report, warnings } = await convertProfile(
+        { inherits: '*common*', perimeters: '4' },
+        { slicerFlavor: 'PrusaSlicer', nozzleSize: 0.4, vendorBundles }
+      );
+
+      expect(json['layer_height']).toBe('0.15');
+      expect(json['wall_loops']).toBe('4');
+      expect(json['sparse_infill_pattern']).toBe('gyroid');
+      expect(json['inherits']).toBeUndefined();
+      expect(report.inherited).toEqual({ layer_height: '*common*', fill_pattern: '*common*' });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should report dropped keys, passthrough values and special cases', async () => {
+      const { report } = await convertProfile(
+        { ...printIni, seam_position: 'mystery', not_a_real_key: '1', support_material_auto: '1' },
+        { iniType: 'print', nozzleSize: 0.4 }
+      );
+      expect(report.unmapped).toEqual(['not_a_real_key']);
+      expect(report.passthrough).toEqual([{ parameter: 'seam_position', value: 'mystery' }]);
+      expect(report.specialCases).toContain('fill_pattern');
+    });
+
+    it('should not share state between calls', async () => {
+      await convertProfile({ ...printIni, external_perimeters_first: '1' }, { iniType: 'print', nozzleSize: 0.4 });
+      const { json } = await convertProfile(printIni, { iniType: 'print', nozzleSize: 0.4 });
+      expect(json['wall_sequence']).toBe('inner wall/outer wall');
+    });
+
+    it('should follow the schema of the target version', async () => {
+      const source = { ...printIni, external_perimeters_first: '1' };
+      const legacy = await convertProfile(source, { iniType: 'print', nozzleSize: 0.4, targetVersion: '1.6' });
+      expect(legacy.json['version']).toBe('1.6.0.0');
+      expect(legacy.json['wall_infill_order']).toBe('outer wall/inner wall/infill');
+
+      const release = await convertProfile(source, { iniType: 'print', nozzleSize: 0.4, targetVersion: '2.2' });
+      expect(release.json['version']).toBe('2.2.0.0');
+      expect(release.json['wall_sequence']).toBe('outer wall/inner wall');
+
+      const { json } = await convertProfile(source, { iniType: 'print', nozzleSize: 0.4 });
+      expect(json['wall_infill_order']).toBeUndefined();
+      expect(json['wall_sequence']).toBe('outer wall/inner wall');
+      expect(json['is_infill_first']).toBe('0');
+    });
+
+    it('should fill standalone printer profiles from the baseline template', async () => {
+      const printerIni = { bed_shape: '0x0,250x0,250x210,0x210', nozzle_diameter: '0.4', gcode_flavor: 'marlin2' };
+      const standalone = await convertProfile(printerIni, { iniType: 'printer' });
+      expect(standalone.json['printer_technology']).toBe('FFF');
+      expect(standalone.json['printable_area']).toEqual(['0x0', '250x0', '250x210', '0x210']);
+      expect(standalone.report.filled).toContain('printer_technology');
+      expect(standalone.report.filled).not.toContain('printable_area');
+
+      const linked = await convertProfile(printerIni, { iniType: 'printer', inherits: 'Prusa MK4 0.4 nozzle' });
+      expect(linked.json['printer_technology']).toBeUndefined();
+      expect(linked.report.filled).toBeUndefined();
+    });
+
+    it('should throw for unsupported target versions', async () => {
+      await expect(convertProfile(printIni, { iniType: 'print', nozzleSize: 0.4, targetVersion: '1.2' }))
+        .rejects.toThrow('Unsupported OrcaSlicer version');
+    });
+  });
+});
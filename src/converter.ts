@@ -0,0 +1,317 @@
+/**
+ * State-free library API for converting a single profile.
+ *
+ * This module provides:
+ * - Creation of a fresh conversion `Status`
+ * - `convertProfile`, which converts one parsed INI profile to OrcaSlicer JSON without
+ *   prompting the user, touching the file system, or exiting the process
+ *
+ * The command-line interface in `index.ts` is a thin wrapper around these functions.
+ */
+
+import * as path from 'path';
+import {
+  Status,
+  SourceIni,
+  NewHash,
+  ConvertProfileOptions,
+  ConvertProfileResult,
+  ConversionReport,
+  ORCA_SLICER_VERSION
+} from './types';
+import { systemDirectories, indirectParams, speedSequence } from './constants';
+import { getOS, getHomeDir, multivalueToArray } from './utils';
+import { isOutputIniType } from './type-guards';
+import {
+  convertParams,
+  calculatePrintParams,
+  scoreIniType
+} from './conversion';
+import { parameterMap } from './parameterMap';
+import { resolveInherits, detectInheritedType } from './inheritance';
+import { normalizeOrcaVersion, applyVersionOverlays } from './versions';
+import { upgradeSourceIni } from './sourceVersions';
+import { convertCuraValues } from './cura';
+import { formatProfileName } from './renames';
+import { fillFromBaseline } from './baselines';
+
+/**
+ * Initializes a status object with default values.
+ *
+ * @returns A new Status object with all fields initialized to their default values
+ *
+ * @remarks
+ * Sets up OS-specific data directory paths and initializes all tracking variables.
+ * The data directory is determined based on the operating system.
+ */
+export function initializeStatus(): Status {
+  const osType = getOS();
+  const homeDir = getHomeDir();
+  const osDirs = systemDirectories.os[osType];
+  const dataDir = path.join(homeDir, ...osDirs);
+
+  return {
+    forceOut: false,
+    legacyOverwrite: false,
+    dryRun: false,
+    maxTemp: 0,
+    interactiveMode: false,
+    outdirWasProvided: false,
+    slicerFlavor: undefined,
+    iniType: undefined,
+    profileName: undefined,
+    ironingType: undefined,
+    iterationsLeft: undefined,
+    dirs: {
+      output: undefined,
+      data: dataDir,
+      slicer: undefined,
+      temp: undefined
+    },
+    toVar: {
+      externalPerimetersFirst: undefined,
+      infillFirst: undefined,
+      ironing: undefined
+    },
+    reset: {
+      onExisting: false,
+      physicalPrinter: false,
+      nozzleSize: false,
+      inherits: false,
+      compatiblePrintersCondition: false,
+      compatiblePrintsCondition: false
+    },
+    value: {
+      onExisting: undefined,
+      physicalPrinter: undefined,
+      nozzleSize: undefined,
+      inherits: undefined,
+      compatiblePrintersCondition: undefined,
+      compatiblePrintsCondition: undefined
+    }
+  };
+}
+
+/**
+ * Converts the network settings of a physical printer profile for inclusion in a machine profile.
+ *
+ * @param printerIni - The parsed physical printer INI configuration
+ * @param status - The status object of the current conversion
+ * @returns A record containing the converted physical printer parameters
+ */
+async function convertPhysicalPrinter(printerIni: SourceIni, status: Status): Promise<Record<string, string>> {
+  const printerHash: Record<string, string> = {};
+  const physPrinterMap = parameterMap.physical_printer;
+  if (!physPrinterMap) return printerHash;
+
+  for (const parameter of Object.keys(printerIni)) {
+    if (!(parameter in physPrinterMap)) continue;
+    const newValue = await convertParams(parameter, undefined, printerIni, status, {});
+    if (newValue && newValue !== '') {
+      printerHash[parameter] = String(newValue);
+    }
+  }
+  return printerHash;
+}
+
+/**
+ * Converts a single PrusaSlicer, SuperSlicer or Cura profile to an OrcaSlicer JSON profile.
+ *
+ * @param sourceIni - The parsed source INI configuration
+ * @param options - Decisions that the command-line interface would otherwise prompt for
+ * @returns The converted JSON profile, any warnings, and the resolved profile type and name
+ * @throws {Error} With message 'Unsupported file' if the profile type cannot be determined,
+ *   'Ambiguous profile type (print or filament)' if several types match about equally well,
+ *   'Invalid layer height' if a print profile has neither a nozzle size nor a layer height,
+ *   'Unsupported OrcaSlicer version' if `options.targetVersion` is not supported, or
+ *   'Unknown placeholder' if `options.nameTemplate` has a placeholder other than `{name}`,
+ *   `{flavor}` and `{type}`
+ *
+ * @remarks
+ * Each call creates its own `Status`, so calls are independent of each other and of the
+ * command-line session. The function never prompts and never exits the process:
+ * - Compatible condition strings are kept unless the options say to discard them
+ * - A missing nozzle size for print profiles is derived from the layer height
+ * - Printer profiles only inherit from a system printer if `options.inherits` is given
+ * - The profile follows the schema of `options.targetVersion`, or of the newest supported version
+ * - If `options.vendorBundles` is given, the profile's PrusaSlicer/SuperSlicer `inherits` chain
+ *   is resolved first, so values from the parent system presets are converted as well
+ * - Profiles from older PrusaSlicer/SuperSlicer releases (per `options.slicerVersion`) are
+ *   upgraded to the current source keys first, with a warning for each change
+ * - Cura profiles (`slicerFlavor: 'Cura'`, as extracted by `extractCuraProfiles`) are converted
+ *   with `curaParameterMap` instead; they need no nozzle size
+ * - `options.nameTemplate` renames the profile (its `name` and `*_settings_id`)
+ * - Settings the source does not provide are filled from the baseline template of the profile
+ *   type and listed in `report.filled`, unless the profile inherits from a system printer or
+ *   `options.fillMissing` is false
+ *
+ * The returned report lists every source parameter that was dropped, every value that fell
+ * back to a passthrough, and every special case that ran.
+ *
+ * @example
+ * ```ts
+ * const { config, slicerFlavor, slicerVersion } = readIniFile("my_print.ini");
+ * const { json, warnings } = await convertProfile(config, { slicerFlavor, slicerVersion, nozzleSize: 0.4 });
+ * ```
+ */
+export async function convertProfile(
+  sourceIni: SourceIni,
+  options: ConvertProfileOptions = {}
+): Promise<ConvertProfileResult> {
+  const targetVersion = normalizeOrcaVersion(options.targetVersion || ORCA_SLICER_VERSION);
+  if (!targetVersion) {
+    throw new Error('Unsupported OrcaSlicer version');
+  }
+
+  const status = initializeStatus();
+  const newHash: NewHash = {};
+  const warnings: string[] = [];
+  const report: ConversionReport = { unmapped: [], passthrough: [], specialCases: [] };
+  status.report = report;
+  status.warnings = warnings;
+
+  if (options.slicerFlavor) {
+    status.slicerFlavor = options.slicerFlavor;
+  } else {
+    status.slicerFlavor = 'PrusaSlicer';
+    warnings.push('Source slicer not specified; assuming PrusaSlicer');
+  }
+
+  const detection = options.iniType ? undefined : scoreIniType(sourceIni);
+  status.iniType = options.iniType
+    || detection?.iniType
+    || (options.vendorBundles && detectInheritedType(sourceIni, options.vendorBundles));
+  if (!status.iniType && detection?.ambiguous) {
+    throw new Error(`Ambiguous profile type (${detection.candidates.join(' or ')})`);
+  }
+  if (!status.iniType || !isOutputIniType(status.iniType)) {
+    throw new Error('Unsupported file');
+  }
+  const iniType = status.iniType;
+
+  if (status.slicerFlavor === 'Cura') {
+    // Cura profiles have their own keys, units and formulas
+    convertCuraValues(sourceIni, iniType, status, newHash);
+  } else {
+    // Fill in values inherited from system presets
+    if (options.vendorBundles && sourceIni['inherits']) {
+      const { config, origins, unresolved } = resolveInherits(sourceIni, iniType, options.vendorBundles);
+      sourceIni = config;
+      report.inherited = origins;
+      for (const parent of unresolved) {
+        warnings.push(`Parent preset "${parent}" was not found in the vendor bundles; its values are missing`);
+      }
+    }
+
+    // Bring profiles from older releases (and SuperSlicer-only keys) up to the current keys
+    status.slicerVersion = options.slicerVersion;
+    const upgrade = upgradeSourceIni(sourceIni, status.slicerFlavor, status.slicerVersion);
+    sourceIni = upgrade.config;
+    warnings.push(...upgrade.warnings);
+
+    status.value.compatiblePrintersCondition = options.compatiblePrintersCondition || 'KEEP';
+    status.value.compatiblePrintsCondition = options.compatiblePrintsCondition || 'KEEP';
+
+    // Handle nozzle size
+    const nozzleDiameters = multivalueToArray(sourceIni['nozzle_diameter']);
+    if (nozzleDiameters.length > 0) {
+      status.value.nozzleSize = parseFloat(nozzleDiameters[0]);
+    } else if (options.nozzleSize) {
+      status.value.nozzleSize = options.nozzleSize;
+    }
+
+    if (!status.value.nozzleSize && iniType === 'print') {
+      const layerHeight = sourceIni['layer_height'];
+      if (!layerHeight) {
+        throw new Error('Invalid layer height');
+      }
+      status.value.nozzleSize = 2 * parseFloat(layerHeight);
+      warnings.push(`Nozzle size not specified; assuming ${status.value.nozzleSize} mm from the layer height`);
+    }
+
+    // Process parameters
+    const typeMap = parameterMap[iniType] || {};
+    for (const parameter of Object.keys(sourceIni)) {
+      if (parameter === 'profile_name') {
+        status.profileName = sourceIni[parameter];
+        continue;
+      }
+
+      if (!(parameter in typeMap)) {
+        if (!indirectParams.includes(parameter) && !speedSequence.includes(parameter)) {
+          report.unmapped.push(parameter);
+        }
+        continue;
+      }
+
+      const newValue = await convertParams(parameter, options.profileName, sourceIni, status, newHash);
+      if (!newValue) continue;
+
+      const mappedKey = typeMap[parameter];
+      if (Array.isArray(mappedKey)) {
+        // Already handled in convertParams
+        continue;
+      }
+      if (typeof mappedKey === 'string') {
+        // Handle compatible_printers and compatible_prints - convert semicolon-separated lists of quoted names to arrays
+        if ((mappedKey === 'compatible_printers' || mappedKey === 'compatible_prints') && typeof newValue === 'string') {
+          const printers = multivalueToArray(newValue).map(name => name.replace(/^"(.*)"$/, '$1'));
+          newHash[mappedKey] = printers.length > 0 ? printers : [];
+        } else {
+          newHash[mappedKey] = newValue;
+        }
+      }
+
+      // Track max temperature
+      if ((parameter === 'first_layer_temperature' || parameter === 'temperature') && typeof newValue === 'string') {
+        const temp = parseFloat(newValue);
+        if (temp > status.maxTemp) {
+          status.maxTemp = temp;
+        }
+      }
+    }
+  }
+
+  const sourceName = status.profileName || options.profileName || 'Converted Profile';
+  const profileName = options.nameTemplate
+    ? formatProfileName(options.nameTemplate, sourceName, status.slicerFlavor, iniType)
+    : sourceName;
+
+  // Add metadata
+  newHash[`${iniType}_settings_id`] = profileName;
+  newHash['name'] = profileName;
+  newHash['from'] = 'User';
+  newHash['is_custom_defined'] = '1';
+  newHash['version'] = targetVersion;
+
+  // Add profile-specific metadata
+  if (iniType === 'filament') {
+    newHash['nozzle_temperature_range_low'] = '0';
+    newHash['nozzle_temperature_range_high'] = String(status.maxTemp);
+    if (sourceIni['slowdown_below_layer_time']) {
+      newHash['slow_down_for_layer_cooling'] = parseFloat(sourceIni['slowdown_below_layer_time']) > 0 ? '1' : '0';
+    }
+    // Ensure compatible_printers is always present for filament profiles
+    // OrcaSlicer requires this field to be present (as an array), even if empty
+    // An empty array makes the filament compatible with all printers
+    if (!Array.isArray(newHash['compatible_printers'])) {
+      newHash['compatible_printers'] = [];
+    }
+  } else if (iniType === 'print' && status.slicerFlavor !== 'Cura') {
+    await calculatePrintParams(sourceIni, status, newHash);
+  } else if (iniType === 'printer') {
+    const physPrinterData = options.physicalPrinterIni
+      ? await convertPhysicalPrinter(options.physicalPrinterIni, status)
+      : {};
+    Object.assign(newHash, physPrinterData, { inherits: options.inherits || '' });
+  }
+
+  applyVersionOverlays(newHash, targetVersion);
+
+  // Standalone profiles get the settings OrcaSlicer requires from the baseline template
+  if (options.fillMissing ?? !(iniType === 'printer' && options.inherits)) {
+    report.filled = fillFromBaseline(newHash, iniType, targetVersion);
+  }
+
+  return { json: newHash, warnings, report, iniType, profileName };
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  parseCuraContainer,
+  readCuraProfile,
+  evaluateCuraFormula,
+  resolveCuraValues,
+  extractCuraProfiles,
+  translateCuraGcode
+} from './cura';
+import { readIniFile, writeIniFile } from './fileIO';
+import { writeZip } from './zip';
+import { convertProfile } from './converter';
+
+const qualityChanges = `[general]
+version = 4
+name = Fine PLA
+definition = creality_ender3
+
+[metadata]
+type = quality_changes
+setting_version = 22
+
+[values]
+layer_height = 0.12
+infill_sparse_density = 18
+speed_print = 60
+material_flow = 97
+retraction_amount = 5
+`;
+
+const extruderChanges = `[general]
+version = 4
+name = Fine PLA
+definition = creality_ender3
+
+[metadata]
+type = quality_changes
+position = 0
+setting_version = 22
+
+[values]
+speed_print = 50
+material_print_temperature = 205
+`;
+
+describe('cura', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseCuraContainer', () => {
+    it('should read the sections and join indented continuation lines', () => {
+      const container = parseCuraContainer(`[general]
+name = Ender-3
+
+[metadata]
+type = definition_changes
+
+[values]
+machine_start_gcode = G28
+\tM104 S{material_print_temperature}
+
+\tG1 Z5
+machine_width = 235
+`);
+
+      expect(container.general).toEqual({ name: 'Ender-3' });
+      expect(container.metadata).toEqual({ type: 'definition_changes' });
+      expect(container.values).toEqual({
+        machine_start_gcode: 'G28\nM104 S{material_print_temperature}\n\nG1 Z5',
+        machine_width: '235'
+      });
+    });
+  });
+
+  describe('readCuraProfile', () => {
+    it('should read the global and extruder containers of a .curaprofile', () => {
+      const profilePath = path.join(tempDir, 'Fine PLA.curaprofile');
+      writeZip(profilePath, [
+        { name: 'Fine PLA_extruder_0', content: extruderChanges },
+        { name: 'Fine PLA_global', content: qualityChanges }
+      ]);
+
+      const containers = readCuraProfile(profilePath);
+      expect(containers).toHaveLength(2);
+      expect(containers[0].metadata['position']).toBeUndefined();
+      expect(containers[1].metadata['position']).toBe('0');
+    });
+
+    it('should throw for files without Cura settings', () => {
+      const profilePath = path.join(tempDir, 'empty.inst.cfg');
+      fs.writeFileSync(profilePath, '; nothing here\n');
+      expect(() => readCuraProfile(profilePath)).toThrow('No Cura settings found');
+    });
+  });
+
+  describe('evaluateCuraFormula', () => {
+    const lookup = (name: string): number | undefined => ({ speed_print: 60, layer_height: 0.2 } as { [key: string]: number })[name];
+
+    it('should evaluate arithmetic, functions and comparisons', () => {
+      expect(evaluateCuraFormula('=speed_print / 2', lookup)).toBe(30);
+      expect(evaluateCuraFormula('=max(1, round(0.84 / layer_height))', lookup)).toBe(4);
+      expect(evaluateCuraFormula('=math.ceil(0.5 / layer_height)', lookup)).toBe(3);
+      expect(evaluateCuraFormula('=-(speed_print - 70)', lookup)).toBe(10);
+      expect(evaluateCuraFormula('=speed_print >= 60', lookup)).toBe(1);
+    });
+
+    it('should return undefined for unsupported formulas and unknown settings', () => {
+      expect(evaluateCuraFormula('=speed_wall * 2', lookup)).toBeUndefined();
+      expect(evaluateCuraFormula("=extruderValue(0, 'speed_print')", lookup)).toBeUndefined();
+      expect(evaluateCuraFormula('=60 if True else 30', lookup)).toBeUndefined();
+    });
+  });
+
+  describe('resolveCuraValues', () => {
+    it('should evaluate formulas and derive unset child settings from their parents', () => {
+      const { config, unresolved } = resolveCuraValues({
+        speed_print: '60',
+        speed_infill: '=speed_print * 1.5',
+        speed_travel: '=speed_unknown',
+        support_enable: 'True'
+      });
+
+      expect(config['speed_infill']).toBe('90');
+      expect(config['speed_wall']).toBe('30');
+      expect(config['speed_wall_0']).toBe('30');
+      expect(config['speed_wall_x']).toBe('60');
+      expect(config['speed_support_interface']).toBe('40');
+      expect(config['speed_travel']).toBe('=speed_unknown');
+      expect(config['support_enable']).toBe('True');
+      expect(config['wall_line_width']).toBeUndefined();
+      expect(unresolved).toEqual(['speed_travel']);
+    });
+  });
+
+  describe('extractCuraProfiles', () => {
+    it('should split an .inst.cfg into print and filament profiles', () => {
+      const profilePath = path.join(tempDir, 'fine.inst.cfg');
+      fs.writeFileSync(profilePath, qualityChanges);
+
+      const files = extractCuraProfiles(profilePath, path.join(tempDir, 'out'));
+      expect(files).toEqual([
+        path.join(tempDir, 'out', 'print', 'Fine PLA.ini'),
+        path.join(tempDir, 'out', 'filament', 'Fine PLA.ini')
+      ]);
+
+      const print = readIniFile(files[0]);
+      expect(print.slicerFlavor).toBe('Cura');
+      expect(print.config).toMatchObject({ ini_type: 'print', profile_name: 'Fine PLA', layer_height: '0.12' });
+      expect(readIniFile(files[1]).config).toMatchObject({ material_flow: '97', retraction_amount: '5' });
+    });
+
+    it('should let extruder settings override global settings', () => {
+      const profilePath = path.join(tempDir, 'Fine PLA.curaprofile');
+      writeZip(profilePath, [
+        { name: 'Fine PLA_global', content: qualityChanges },
+        { name: 'Fine PLA_extruder_0', content: extruderChanges }
+      ]);
+
+      const [printFile] = extractCuraProfiles(profilePath, tempDir);
+      expect(readIniFile(printFile).config).toMatchObject({ speed_print: '50', speed_infill: '50', speed_wall: '25' });
+    });
+  });
+
+  describe('translateCuraGcode', () => {
+    it('should translate known placeholders and report unknown ones', () => {
+      expect(translateCuraGcode('M190 S{material_bed_temperature_layer_0}\nM109 S{material_print_temperature, 0}\nG1 Z{foo}'))
+        .toEqual({
+          gcode: 'M190 S[bed_temperature_initial_layer_single]\nM109 S[nozzle_temperature]\nG1 Z{foo}',
+          unknown: ['foo']
+        });
+    });
+  });
+
+  describe('convertProfile', () => {
+    it('should convert Cura units and values', async () => {
+      const { json, report } = await convertProfile(
+        {
+          ini_type: 'print',
+          profile_name: 'Fine PLA',
+          infill_sparse_density: '18',
+          infill_pattern: 'cubicsubdiv',
+          support_enable: 'True',
+          support_type: 'buildplate',
+          adhesion_type: 'brim',
+          z_seam_type: 'sharpest_corner',
+          line_width: '0.4',
+          initial_layer_line_width_factor: '120',
+          magic_fuzzy_skin_enabled: 'True'
+        },
+        { slicerFlavor: 'Cura' }
+      );
+
+      expect(json).toMatchObject({
+        name: 'Fine PLA',
+        sparse_infill_density: '18%',
+        sparse_infill_pattern: 'adaptivecubic',
+        enable_support: '1',
+        support_on_build_plate_only: '1',
+        brim_type: 'outer_only',
+        seam_position: 'aligned',
+        initial_layer_line_width: '0.48'
+      });
+      expect(report.unmapped).toEqual(['magic_fuzzy_skin_enabled']);
+    });
+
+    it('should convert the bed size and machine limits of printer profiles', async () => {
+      const { json } = await convertProfile(
+        {
+          ini_type: 'printer',
+          machine_width: '200',
+          machine_depth: '100',
+          machine_center_is_zero: 'True',
+          machine_max_feedrate_x: '500',
+          machine_gcode_flavor: 'RepRap (RepRap)'
+        },
+        { slicerFlavor: 'Cura' }
+      );
+
+      expect(json['printable_area']).toEqual(['-100x-50', '100x-50', '100x50', '-100x50']);
+      expect(json['machine_max_speed_x']).toEqual(['500', '500']);
+      expect(json['gcode_flavor']).toBe('reprapfirmware');
+    });
+
+    it('should convert flow to a ratio and honor disabled Z hops', async () => {
+      const { json } = await convertProfile(
+        { ini_type: 'filament', material_flow: '97', retraction_hop: '0.4', retraction_hop_enabled: 'False' },
+        { slicerFlavor: 'Cura' }
+      );
+
+      expect(json['filament_flow_ratio']).toBe('0.97');
+      expect(json['filament_z_hop']).toBe('0');
+    });
+
+    it('should warn about formulas that could not be evaluated', async () => {
+      const iniPath = path.join(tempDir, 'print.ini');
+      writeIniFile(iniPath, { ini_type: 'print', speed_travel: "=min(150, extruderValue(0, 'x'))" }, '# generated by Cura');
+
+      const { json, warnings, report } = await convertProfile(readIniFile(iniPath).config, { slicerFlavor: 'Cura', fillMissing: false });
+      expect(json['travel_speed']).toBeUndefined();
+      expect(report.passthrough).toEqual([{ parameter: 'speed_travel', value: "=min(150, extruderValue(0, 'x'))" }]);
+      expect(warnings[0]).toContain('Could not evaluate the Cura formula');
+    });
+  });
+});
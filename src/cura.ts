@@ -0,0 +1,525 @@
+/**
+ * Import and conversion of Cura profiles.
+ *
+ * This module handles:
+ * - Reading `.inst.cfg` setting containers and zipped `.curaprofile` exports
+ * - Evaluating the formulas Cura stores for derived settings (e.g. `=speed_print / 2`)
+ * - Splitting the settings into print, filament and printer profiles
+ * - Converting Cura settings to OrcaSlicer keys, units and values
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Status, SourceIni, NewHash, OutputIniType } from './types';
+import {
+  curaInfillTypes,
+  curaSurfacePatterns,
+  curaSupportPatterns,
+  curaSeamPositions,
+  curaGcodeFlavors,
+  curaDerivedSettings,
+  curaIndirectParams,
+  curaPercentParams,
+  curaRatioParams,
+  curaPlaceholders
+} from './constants';
+import { curaParameterMap } from './curaParameterMap';
+import { writeIniFile, joinPath, sanitizeFilename } from './fileIO';
+import { listZipEntries, readZipEntry } from './zip';
+import { backslash, unbackslash } from './utils';
+
+/** Header written to the INI files extracted from Cura profiles, so they are read as Cura. */
+const CURA_HEADER = '# generated by Cura';
+
+/** Profile types of a Cura profile, in the order an ambiguous key is assigned to them. */
+const profileTypes: OutputIniType[] = ['print', 'printer', 'filament'];
+
+/** Profile type that keeps the unmapped settings of each kind of Cura container. */
+const containerTypes: { [containerType: string]: OutputIniType } = {
+  quality_changes: 'print',
+  quality: 'print',
+  user: 'print',
+  intent: 'print',
+  material: 'filament',
+  variant: 'printer',
+  definition_changes: 'printer'
+};
+
+/** Functions that Cura formulas may call and that `evaluateCuraFormula` supports. */
+const formulaFunctions: { [name: string]: (...args: number[]) => number } = {
+  min: Math.min,
+  max: Math.max,
+  abs: Math.abs,
+  round: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  int: Math.trunc,
+  float: value => value,
+  'math.ceil': Math.ceil,
+  'math.floor': Math.floor,
+  'math.sqrt': Math.sqrt
+};
+
+/**
+ * A Cura setting container, as stored in an `.inst.cfg` file.
+ */
+export interface CuraContainer {
+  /** The `[general]` section (e.g. `name`, `definition`) */
+  general: SourceIni;
+  /** The `[metadata]` section (e.g. `type`, `position`, `setting_version`) */
+  metadata: SourceIni;
+  /** The `[values]` section, holding the settings */
+  values: SourceIni;
+}
+
+/**
+ * Parses the contents of a Cura `.inst.cfg` setting container.
+ *
+ * @param content - The file contents
+ * @returns The `[general]`, `[metadata]` and `[values]` sections
+ *
+ * @remarks
+ * Multi-line values (such as start G-code) continue on indented lines, as in Python's
+ * `configparser`, and are joined with newlines.
+ *
+ * @example
+ * ```ts
+ * parseCuraContainer("[general]\nname = Fine\n\n[values]\nlayer_height = 0.1\n").values
+ * // { layer_height: "0.1" }
+ * ```
+ */
+export function parseCuraContainer(content: string): CuraContainer {
+  const container: CuraContainer = { general: {}, metadata: {}, values: {} };
+  let section: SourceIni | undefined;
+  let lastKey: string | undefined;
+  let blankLines = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*$/.test(line)) {
+      if (lastKey) blankLines++;
+      continue;
+    }
+    if (/^[#;]/.test(line)) continue;
+
+    // Indented lines continue the previous value
+    if (/^\s/.test(line) && section && lastKey) {
+      section[lastKey] = `${section[lastKey]}${'\n'.repeat(blankLines + 1)}${line.trim()}`;
+      blankLines = 0;
+      continue;
+    }
+    blankLines = 0;
+
+    const header = line.match(/^\[([^\]]+)\]\s*$/);
+    if (header) {
+      const name = header[1].trim() as keyof CuraContainer;
+      section = name in container ? container[name] : undefined;
+      lastKey = undefined;
+      continue;
+    }
+
+    const match = line.match(/^([^=]+?)\s*=\s*(.*)$/);
+    if (match && section) {
+      lastKey = match[1].trim();
+      section[lastKey] = match[2].trim();
+    }
+  }
+
+  return container;
+}
+
+/**
+ * Reads the setting containers of a Cura profile.
+ *
+ * @param filePath - The path to an `.inst.cfg` file or a `.curaprofile` export
+ * @returns The containers, global container first and extruder containers by position
+ * @throws {Error} If the file cannot be read or holds no Cura setting container
+ *
+ * @remarks
+ * A `.curaprofile` is a ZIP archive holding one `.inst.cfg` container for the global stack and
+ * one for each extruder.
+ */
+export function readCuraProfile(filePath: string): CuraContainer[] {
+  const contents: string[] = [];
+  if (/\.curaprofile$/i.test(filePath)) {
+    const archive = fs.readFileSync(filePath);
+    for (const entry of listZipEntries(archive)) {
+      const content = readZipEntry(archive, entry);
+      if (content) contents.push(content.toString('utf-8'));
+    }
+  } else {
+    contents.push(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  const containers = contents
+    .map(content => parseCuraContainer(content))
+    .filter(container => container.general['name'] !== undefined || Object.keys(container.values).length > 0);
+  if (containers.length === 0) {
+    throw new Error('No Cura settings found');
+  }
+
+  const position = (container: CuraContainer): number =>
+    container.metadata['position'] === undefined ? -1 : parseInt(container.metadata['position'], 10);
+  return containers.sort((a, b) => position(a) - position(b));
+}
+
+/**
+ * Evaluates a Cura setting formula.
+ *
+ * @param formula - The formula, with or without its leading `=`
+ * @param lookup - Returns the numeric value of a setting the formula refers to, or undefined
+ * @returns The result, or undefined if the formula uses unsupported syntax or an unknown setting
+ *
+ * @remarks
+ * Cura formulas are Python expressions. Arithmetic, comparisons, `True`/`False` and the
+ * functions in `formulaFunctions` are supported; conditional expressions and Cura's
+ * `extruderValue()`-style helpers are not.
+ *
+ * @example
+ * ```ts
+ * evaluateCuraFormula("=speed_print / 2", name => (name === 'speed_print' ? 60 : undefined)) // 30
+ * ```
+ */
+export function evaluateCuraFormula(
+  formula: string,
+  lookup: (name: string) => number | undefined
+): number | undefined {
+  const tokens = formula.replace(/^\s*=/, '').match(/\d+\.?\d*(?:e[-+]?\d+)?|\.\d+|[A-Za-z_][\w.]*|[=!<>]=|[-+*/(),<>]|\S/gi) || [];
+  let position = 0;
+
+  const fail = (): never => {
+    throw new Error('Unsupported formula');
+  };
+  const accept = (token: string): boolean => {
+    if (tokens[position] !== token) return false;
+    position++;
+    return true;
+  };
+
+  const primary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) return fail();
+    if (token === '(') {
+      const value = comparison();
+      if (!accept(')')) fail();
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+    if (token === 'True') return 1;
+    if (token === 'False') return 0;
+    if (/^[A-Za-z_]/.test(token)) {
+      if (accept('(')) {
+        const fn = formulaFunctions[token] || fail();
+        const args: number[] = [];
+        if (!accept(')')) {
+          do {
+            args.push(comparison());
+          } while (accept(','));
+          if (!accept(')')) fail();
+        }
+        return fn(...args);
+      }
+      const value = lookup(token);
+      return value === undefined ? fail() : value;
+    }
+    return fail();
+  };
+  const unary = (): number => (accept('-') ? -unary() : accept('+') ? unary() : primary());
+  const term = (): number => {
+    let value = unary();
+    for (;;) {
+      if (accept('*')) value *= unary();
+      else if (accept('/')) value /= unary();
+      else return value;
+    }
+  };
+  const sum = (): number => {
+    let value = term();
+    for (;;) {
+      if (accept('+')) value += term();
+      else if (accept('-')) value -= term();
+      else return value;
+    }
+  };
+  const comparison = (): number => {
+    const value = sum();
+    const operators: { [operator: string]: (a: number, b: number) => boolean } = {
+      '==': (a, b) => a === b,
+      '!=': (a, b) => a !== b,
+      '<': (a, b) => a < b,
+      '<=': (a, b) => a <= b,
+      '>': (a, b) => a > b,
+      '>=': (a, b) => a >= b
+    };
+    const operator = tokens[position];
+    if (operator && operators[operator]) {
+      position++;
+      return operators[operator](value, sum()) ? 1 : 0;
+    }
+    return value;
+  };
+
+  try {
+    const value = comparison();
+    return position === tokens.length && Number.isFinite(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the formulas of Cura settings and fills in the settings derived from them.
+ *
+ * @param values - The settings as stored by Cura
+ * @returns The settings with every formula that could be evaluated replaced by its value, and
+ *   the settings whose formula could not be evaluated (kept as they are)
+ *
+ * @remarks
+ * Settings that the profile does not set are derived from their parent with the defaults in
+ * `curaDerivedSettings`, but only if the parent is set, so untouched settings stay unset.
+ *
+ * @example
+ * ```ts
+ * resolveCuraValues({ speed_print: '60', speed_infill: '=speed_print * 1.5' }).config
+ * // { speed_print: '60', speed_infill: '90', speed_wall: '30', speed_wall_0: '30', ... }
+ * ```
+ */
+export function resolveCuraValues(values: SourceIni): { config: SourceIni; unresolved: string[] } {
+  const resolved: { [key: string]: number | undefined } = {};
+  const resolving = new Set<string>();
+
+  const lookup = (name: string): number | undefined => {
+    if (name in resolved) return resolved[name];
+    if (resolving.has(name)) return undefined;
+
+    const raw = values[name] ?? curaDerivedSettings[name];
+    if (raw === undefined) return undefined;
+    resolving.add(name);
+    let value: number | undefined;
+    if (raw.startsWith('=')) {
+      value = evaluateCuraFormula(raw, lookup);
+    } else if (raw === 'True' || raw === 'False') {
+      value = raw === 'True' ? 1 : 0;
+    } else if (raw.trim() !== '' && !isNaN(Number(raw))) {
+      value = Number(raw);
+    }
+    resolving.delete(name);
+    resolved[name] = value;
+    return value;
+  };
+  const format = (value: number): string => String(Math.round(value * 10000) / 10000);
+
+  const config: SourceIni = {};
+  const unresolved: string[] = [];
+  for (const [key, raw] of Object.entries(values)) {
+    if (raw === undefined || !raw.startsWith('=')) {
+      config[key] = raw;
+      continue;
+    }
+    const value = lookup(key);
+    if (value === undefined) unresolved.push(key);
+    config[key] = value === undefined ? raw : format(value);
+  }
+  for (const key of Object.keys(curaDerivedSettings)) {
+    if (key in config) continue;
+    const value = lookup(key);
+    if (value !== undefined) config[key] = format(value);
+  }
+
+  return { config, unresolved };
+}
+
+/**
+ * Extracts the print, filament and printer profiles of a Cura profile as INI files.
+ *
+ * @param filePath - The path to an `.inst.cfg` file or a `.curaprofile` export
+ * @param tempDir - The temporary directory where the profiles should be written
+ * @returns The paths of the written INI files, one per profile type found
+ * @throws {Error} If the file cannot be read or holds no Cura settings
+ *
+ * @remarks
+ * The settings of all containers are merged, extruder containers over the global one, and
+ * their formulas are resolved. Each setting goes to the first profile type whose
+ * `curaParameterMap` or `curaIndirectParams` lists it, in the order print, printer, filament;
+ * unknown settings stay with the profile type of the container (print for quality profiles,
+ * printer for machine settings), so they show up in the conversion report. Profiles are named
+ * after the container name, or after the file if it has none. The INI files carry a
+ * `# generated by Cura` header, so they are converted with the Cura map.
+ *
+ * @example
+ * ```ts
+ * const files = extractCuraProfiles("PLA fine.curaprofile", tempDir);
+ * // [".../print/PLA fine.ini", ".../filament/PLA fine.ini"]
+ * ```
+ */
+export function extractCuraProfiles(filePath: string, tempDir: string): string[] {
+  const containers = readCuraProfile(filePath);
+  const merged: SourceIni = {};
+  for (const container of containers) {
+    Object.assign(merged, container.values);
+  }
+  const { config } = resolveCuraValues(merged);
+
+  const homeType = containerTypes[containers[0].metadata['type'] || ''] || 'print';
+  const profiles: Partial<Record<OutputIniType, SourceIni>> = {};
+  const mappedTypes = new Set<OutputIniType>();
+  for (const [key, value] of Object.entries(config)) {
+    const iniType = profileTypes.find(type => key in (curaParameterMap[type] || {}))
+      || profileTypes.find(type => curaIndirectParams[type].includes(key));
+    if (iniType && key in (curaParameterMap[iniType] || {})) mappedTypes.add(iniType);
+    const profile = profiles[iniType || homeType] || (profiles[iniType || homeType] = {});
+    profile[key] = value === undefined ? value : backslash(value);
+  }
+
+  const fileName = path.basename(filePath).replace(/\.(?:inst\.cfg|curaprofile)$/i, '');
+  const name = containers[0].general['name'] || fileName;
+  const files: string[] = [];
+  for (const iniType of profileTypes) {
+    if (!profiles[iniType] || !mappedTypes.has(iniType)) continue;
+    const iniFile = joinPath(tempDir, iniType, `${sanitizeFilename(name)}.ini`);
+    writeIniFile(iniFile, { ini_type: iniType, profile_name: name, ...profiles[iniType] }, CURA_HEADER);
+    files.push(iniFile);
+  }
+  return files;
+}
+
+/**
+ * Translates the placeholders of Cura start and end G-code to OrcaSlicer.
+ *
+ * @param gcode - The G-code, with newlines already unescaped
+ * @returns The translated G-code and the placeholders that could not be translated
+ *
+ * @example
+ * ```ts
+ * translateCuraGcode("M190 S{material_bed_temperature_layer_0}")
+ * // { gcode: "M190 S[bed_temperature_initial_layer_single]", unknown: [] }
+ * ```
+ */
+export function translateCuraGcode(gcode: string): { gcode: string; unknown: string[] } {
+  const unknown: string[] = [];
+  const translated = gcode.replace(/\{([A-Za-z_]\w*)(?:\s*,\s*-?\d+)?\}/g, (whole, name: string) => {
+    if (curaPlaceholders[name]) return `[${curaPlaceholders[name]}]`;
+    if (!unknown.includes(name)) unknown.push(name);
+    return whole;
+  });
+  return { gcode: translated, unknown };
+}
+
+/**
+ * Converts the settings of a Cura profile to OrcaSlicer keys and values.
+ *
+ * @param sourceIni - The Cura settings, as extracted by `extractCuraProfiles`
+ * @param iniType - The profile type
+ * @param status - The conversion status, whose report and warnings are filled in
+ * @param newHash - The output hash object where converted values are stored
+ *
+ * @remarks
+ * Settings are converted in `curaParameterMap` order, so a specific setting overrides the value
+ * of its parent. Cura gives some settings in other units than OrcaSlicer: percentages without
+ * a `%` sign, flow as a percentage instead of a ratio, booleans as `True`/`False` and the bed
+ * as width and depth instead of a shape. Settings whose formula could not be evaluated are
+ * left out and reported.
+ *
+ * @example
+ * ```ts
+ * convertCuraValues({ infill_sparse_density: '20', support_enable: 'True' }, 'print', status, newHash);
+ * // newHash: { sparse_infill_density: '20%', enable_support: '1' }
+ * ```
+ */
+export function convertCuraValues(
+  sourceIni: SourceIni,
+  iniType: OutputIniType,
+  status: Status,
+  newHash: NewHash
+): void {
+  const typeMap = curaParameterMap[iniType] || {};
+  const report = status.report;
+
+  for (const parameter of Object.keys(sourceIni)) {
+    if (parameter === 'profile_name') {
+      status.profileName = sourceIni[parameter];
+    } else if (!(parameter in typeMap) && parameter !== 'ini_type' && !curaIndirectParams[iniType].includes(parameter)) {
+      report?.unmapped.push(parameter);
+    }
+  }
+
+  for (const [parameter, mappedKey] of Object.entries(typeMap)) {
+    const rawValue = sourceIni[parameter];
+    if (rawValue === undefined || rawValue === '') continue;
+
+    let value: string = unbackslash(rawValue);
+    if (value.startsWith('=')) {
+      report?.passthrough.push({ parameter, value });
+      status.warnings?.push(`Could not evaluate the Cura formula "${value}" of ${parameter}; it was left out`);
+      continue;
+    }
+    if (value === 'True' || value === 'False') {
+      value = value === 'True' ? '1' : '0';
+    }
+
+    const translate = (table: { [key: string]: string }): string => {
+      if (table[value]) return table[value];
+      report?.passthrough.push({ parameter, value });
+      return value;
+    };
+
+    const specialCases: { [key: string]: () => string | string[] | undefined } = {
+      initial_layer_line_width_factor: () => {
+        const lineWidth = parseFloat(sourceIni['line_width'] || '');
+        return isNaN(lineWidth) ? `${value}%` : String(Math.round(lineWidth * parseFloat(value) * 100) / 10000);
+      },
+      outer_inset_first: () => (value === '1' ? 'outer wall/inner wall/infill' : 'inner wall/outer wall/infill'),
+      top_bottom_pattern: () => translate(curaSurfacePatterns),
+      infill_pattern: () => translate(curaInfillTypes),
+      ironing_enabled: () => (value === '1' ? 'top' : 'no ironing'),
+      z_seam_type: () => translate(curaSeamPositions),
+      support_type: () => (value === 'buildplate' ? '1' : '0'),
+      support_pattern: () => translate(curaSupportPatterns),
+      adhesion_type: () => {
+        if (value === 'raft') {
+          report?.passthrough.push({ parameter, value });
+          status.warnings?.push('Cura raft adhesion has no direct OrcaSlicer equivalent; set raft_layers by hand');
+        }
+        return value === 'brim' ? 'outer_only' : 'no_brim';
+      },
+      machine_width: () => {
+        const width = parseFloat(value);
+        const depth = parseFloat(sourceIni['machine_depth'] || value);
+        const [x, y] = sourceIni['machine_center_is_zero'] === 'True' ? [-width / 2, -depth / 2] : [0, 0];
+        return [`${x}x${y}`, `${x + width}x${y}`, `${x + width}x${y + depth}`, `${x}x${y + depth}`];
+      },
+      machine_gcode_flavor: () => translate(curaGcodeFlavors),
+      machine_start_gcode: () => translateGcodeValue(),
+      machine_end_gcode: () => translateGcodeValue(),
+      retraction_hop: () => (sourceIni['retraction_hop_enabled'] === 'False' ? '0' : value)
+    };
+    const translateGcodeValue = (): string => {
+      const { gcode, unknown } = translateCuraGcode(value);
+      for (const name of unknown) {
+        report?.passthrough.push({ parameter, value: name });
+        status.warnings?.push(`Unknown G-code placeholder "${name}" in ${parameter} was left unchanged`);
+      }
+      return gcode;
+    };
+
+    let newValue: string | string[] | undefined;
+    if (specialCases[parameter]) {
+      if (!report?.specialCases.includes(parameter)) report?.specialCases.push(parameter);
+      newValue = specialCases[parameter]();
+    } else if (curaPercentParams.includes(parameter)) {
+      newValue = `${value}%`;
+    } else if (curaRatioParams.includes(parameter)) {
+      newValue = String(parseFloat(value) / 100);
+    } else if (parameter.startsWith('machine_max_')) {
+      // OrcaSlicer keeps separate limits for normal and silent mode
+      newValue = [value, value];
+    } else {
+      newValue = value;
+    }
+    if (newValue === undefined) continue;
+
+    for (const key of Array.isArray(mappedKey) ? mappedKey : [mappedKey]) {
+      newHash[key] = newValue;
+    }
+    if (parameter.startsWith('material_print_temperature')) {
+      status.maxTemp = Math.max(status.maxTemp, parseFloat(value) || 0);
+    }
+  }
+}
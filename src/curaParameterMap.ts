@@ -0,0 +1,121 @@
+/**
+ * Parameter mapping from Cura setting keys to OrcaSlicer JSON keys.
+ *
+ * Cura stores print, material and machine settings under its own keys (defined in
+ * `fdmprinter.def.json`), so it has a map of its own instead of sharing `parameterMap`.
+ * Within each type, parent settings are listed before the settings derived from them,
+ * so a more specific setting overrides the value taken from its parent. Retraction is an
+ * extruder setting in Cura that quality profiles often change, so it maps to the filament
+ * retraction overrides rather than to the printer.
+ *
+ * Some parameters map to arrays (multiple OrcaSlicer keys get the same value).
+ */
+
+import { ParameterMap } from './types';
+
+/**
+ * Parameter mapping from Cura setting keys to OrcaSlicer JSON keys, by profile type.
+ *
+ * @example
+ * ```ts
+ * curaParameterMap.print['wall_line_count'] // 'wall_loops'
+ * curaParameterMap.filament['material_bed_temperature'] // ['hot_plate_temp', 'cool_plate_temp', ...]
+ * ```
+ */
+export const curaParameterMap: ParameterMap = {
+  print: {
+    layer_height: 'layer_height',
+    layer_height_0: 'initial_layer_print_height',
+    line_width: 'line_width',
+    wall_line_width_0: 'outer_wall_line_width',
+    wall_line_width_x: 'inner_wall_line_width',
+    skin_line_width: ['top_surface_line_width', 'internal_solid_infill_line_width'],
+    infill_line_width: 'sparse_infill_line_width',
+    support_line_width: 'support_line_width',
+    initial_layer_line_width_factor: 'initial_layer_line_width',
+    wall_line_count: 'wall_loops',
+    outer_inset_first: 'wall_infill_order',
+    top_thickness: 'top_shell_thickness',
+    bottom_thickness: 'bottom_shell_thickness',
+    top_layers: 'top_shell_layers',
+    bottom_layers: 'bottom_shell_layers',
+    top_bottom_pattern: ['top_surface_pattern', 'bottom_surface_pattern'],
+    infill_sparse_density: 'sparse_infill_density',
+    infill_pattern: 'sparse_infill_pattern',
+    infill_overlap: 'infill_wall_overlap',
+    ironing_enabled: 'ironing_type',
+    speed_infill: 'sparse_infill_speed',
+    speed_wall_0: 'outer_wall_speed',
+    speed_wall_x: 'inner_wall_speed',
+    speed_topbottom: ['top_surface_speed', 'internal_solid_infill_speed'],
+    speed_support: 'support_speed',
+    speed_support_interface: 'support_interface_speed',
+    speed_travel: 'travel_speed',
+    speed_layer_0: 'initial_layer_speed',
+    speed_print_layer_0: 'initial_layer_speed',
+    acceleration_print: 'default_acceleration',
+    acceleration_infill: 'sparse_infill_acceleration',
+    acceleration_wall_0: 'outer_wall_acceleration',
+    acceleration_wall_x: 'inner_wall_acceleration',
+    acceleration_topbottom: 'top_surface_acceleration',
+    acceleration_travel: 'travel_acceleration',
+    acceleration_layer_0: 'initial_layer_acceleration',
+    z_seam_type: 'seam_position',
+    support_enable: 'enable_support',
+    support_type: 'support_on_build_plate_only',
+    support_angle: 'support_threshold_angle',
+    support_pattern: 'support_base_pattern',
+    support_z_distance: 'support_top_z_distance',
+    support_bottom_distance: 'support_bottom_z_distance',
+    support_xy_distance: 'support_object_xy_distance',
+    adhesion_type: 'brim_type',
+    brim_width: 'brim_width',
+    skirt_line_count: 'skirt_loops',
+    skirt_gap: 'skirt_distance',
+    magic_spiralize: 'spiral_mode'
+  },
+
+  filament: {
+    material_diameter: 'filament_diameter',
+    material_flow: 'filament_flow_ratio',
+    material_print_temperature: 'nozzle_temperature',
+    material_print_temperature_layer_0: 'nozzle_temperature_initial_layer',
+    material_bed_temperature: ['hot_plate_temp', 'cool_plate_temp', 'eng_plate_temp', 'textured_plate_temp'],
+    material_bed_temperature_layer_0: [
+      'hot_plate_temp_initial_layer',
+      'cool_plate_temp_initial_layer',
+      'eng_plate_temp_initial_layer',
+      'textured_plate_temp_initial_layer'
+    ],
+    cool_fan_speed_min: 'fan_min_speed',
+    cool_fan_speed_max: 'fan_max_speed',
+    cool_fan_full_layer: 'full_fan_speed_layer',
+    cool_min_layer_time: 'slow_down_layer_time',
+    cool_min_speed: 'slow_down_min_speed',
+    retraction_amount: 'filament_retraction_length',
+    retraction_retract_speed: 'filament_retraction_speed',
+    retraction_prime_speed: 'filament_deretraction_speed',
+    retraction_min_travel: 'filament_retraction_minimum_travel',
+    retraction_hop: 'filament_z_hop'
+  },
+
+  printer: {
+    machine_width: 'printable_area',
+    machine_height: 'printable_height',
+    machine_nozzle_size: 'nozzle_diameter',
+    machine_gcode_flavor: 'gcode_flavor',
+    machine_start_gcode: 'machine_start_gcode',
+    machine_end_gcode: 'machine_end_gcode',
+    machine_max_feedrate_x: 'machine_max_speed_x',
+    machine_max_feedrate_y: 'machine_max_speed_y',
+    machine_max_feedrate_z: 'machine_max_speed_z',
+    machine_max_feedrate_e: 'machine_max_speed_e',
+    machine_max_acceleration_x: 'machine_max_acceleration_x',
+    machine_max_acceleration_y: 'machine_max_acceleration_y',
+    machine_max_acceleration_z: 'machine_max_acceleration_z',
+    machine_max_acceleration_e: 'machine_max_acceleration_e',
+    machine_max_jerk_xy: ['machine_max_jerk_x', 'machine_max_jerk_y'],
+    machine_max_jerk_z: 'machine_max_jerk_z',
+    machine_max_jerk_e: 'machine_max_jerk_e'
+  }
+};
@@ -6,6 +6,7 @@ import {
   readIniFile,
   readJsonFile,
   writeJsonFile,
+  writeIniFile,
   fileExists,
   isDirectory,
   isFile,
@@ -13,8 +14,10 @@ import {
   getBasename,
   getDirname,
   joinPath,
+  sanitizeFilename,
   isConfigBundle,
   processConfigBundle,
+  parseConfigBundle,
   getChildren
 } from './fileIO';
 
@@ -59,6 +62,49 @@ layer_height = 0.2
       expect(slicerFlavor).toBe('SuperSlicer');
     });
 
+    it('should detect Prusa-derived forks', () => {
+      const iniPath = path.join(tempDir, 'test.ini');
+      const headers: [string, string][] = [
+        ['# generated by Slic3r++ 2.3.56.0 on 2021-05-01', 'Slic3r++'],
+        ['# generated by QIDISlicer 1.1.3+win64 on 2024-05-01', 'QIDISlicer'],
+        ['# generated by Slic3r 1.3.0 on 2018-05-01', 'Slic3r']
+      ];
+      for (const [header, flavor] of headers) {
+        fs.writeFileSync(iniPath, `${header}\nlayer_height = 0.2\n`);
+        expect(readIniFile(iniPath).slicerFlavor).toBe(flavor);
+      }
+    });
+
+    it('should detect Cura flavor', () => {
+      const iniPath = path.join(tempDir, 'test.ini');
+      fs.writeFileSync(iniPath, '# generated by Cura\nlayer_height = 0.2\n');
+
+      const { slicerFlavor, slicerVersion } = readIniFile(iniPath);
+      expect(slicerFlavor).toBe('Cura');
+      expect(slicerVersion).toBeUndefined();
+    });
+
+    it('should detect the slicer version', () => {
+      const iniPath = path.join(tempDir, 'test.ini');
+      fs.writeFileSync(iniPath, '# generated by PrusaSlicer 2.7.1+win64 on 2024-01-01 at 12:00:00 UTC\nlayer_height = 0.2\n');
+
+      const { slicerFlavor, slicerVersion } = readIniFile(iniPath);
+      expect(slicerFlavor).toBe('PrusaSlicer');
+      expect(slicerVersion).toBe('2.7.1');
+    });
+
+    it('should read Windows files with a byte order mark and CRLF line endings', () => {
+      const iniPath = path.join(tempDir, 'test.ini');
+      fs.writeFileSync(iniPath, '\uFEFF# generated by PrusaSlicer 2.7.1\r\nlayer_height = 0.2\r\nlayer_height = 0.3\r\n');
+
+      const { config, slicerFlavor, slicerVersion, encoding, diagnostics } = readIniFile(iniPath);
+      expect(config).toEqual({ layer_height: '0.3' });
+      expect(slicerFlavor).toBe('PrusaSlicer');
+      expect(slicerVersion).toBe('2.7.1');
+      expect(encoding).toBe('utf-8');
+      expect(diagnostics).toEqual([{ line: 3, message: 'Duplicate key "layer_height" (first set on line 2); the last value is used' }]);
+    });
+
     it('should skip comments and empty lines', () => {
       const iniPath = path.join(tempDir, 'test.ini');
       const content = `# This is a comment
@@ -150,6 +196,27 @@ extrusion_width = 0.4
     });
   });
 
+  describe('writeIniFile', () => {
+    it('should write sorted key/value pairs with header', () => {
+      const iniPath = path.join(tempDir, 'output', 'test.ini');
+
+      writeIniFile(iniPath, { perimeters: '3', layer_height: '0.2' }, '# generated by PrusaSlicer');
+
+      const content = fs.readFileSync(iniPath, 'utf-8');
+      expect(content).toBe('# generated by PrusaSlicer\n\nlayer_height = 0.2\nperimeters = 3\n');
+    });
+
+    it('should be readable by readIniFile', () => {
+      const iniPath = path.join(tempDir, 'test.ini');
+
+      writeIniFile(iniPath, { layer_height: '0.2' }, '# generated by SuperSlicer');
+
+      const { config, slicerFlavor } = readIniFile(iniPath);
+      expect(config['layer_height']).toBe('0.2');
+      expect(slicerFlavor).toBe('SuperSlicer');
+    });
+  });
+
   describe('fileExists', () => {
     it('should return true for existing file', () => {
       const filePath = path.join(tempDir, 'test.txt');
@@ -244,6 +311,14 @@ extrusion_width = 0.4
     });
   });
 
+  describe('sanitizeFilename', () => {
+    it('should remove every illegal character', () => {
+      const name = sanitizeFilename('PLA/PETG/TPU');
+      expect(name).not.toContain('/');
+      expect(name).toContain('PLA');
+    });
+  });
+
   describe('isConfigBundle', () => {
     it('should return true for config bundle', () => {
       const bundlePath = path.join(tempDir, 'bundle.ini');
@@ -268,6 +343,31 @@ extrusion_width = 0.4
     });
   });
 
+  describe('parseConfigBundle', () => {
+    it('should parse sections with and without names', () => {
+      const bundlePath = path.join(tempDir, 'PrusaResearch.ini');
+      fs.writeFileSync(bundlePath, `# Vendor bundle
+[vendor]
+name = Prusa Research
+
+[print:*common*]
+layer_height = 0.2
+
+[print:0.20mm QUALITY @MK4]\r
+inherits = *common*\r
+perimeters = 2\r
+`);
+
+      const sections = parseConfigBundle(bundlePath);
+
+      expect(sections).toEqual([
+        { type: 'vendor', name: '', config: { name: 'Prusa Research' } },
+        { type: 'print', name: '*common*', config: { layer_height: '0.2' } },
+        { type: 'print', name: '0.20mm QUALITY @MK4', config: { inherits: '*common*', perimeters: '2' } }
+      ]);
+    });
+  });
+
   describe('processConfigBundle', () => {
     it('should split config bundle into individual files', () => {
       const bundlePath = path.join(tempDir, 'bundle.ini');
@@ -326,6 +426,20 @@ temperature = 210
       expect(files.some(f => f.includes('Profile') && !f.includes('filament_'))).toBe(true);
     });
 
+    it('should split bundles with CRLF line endings and report their diagnostics', () => {
+      const bundlePath = path.join(tempDir, 'bundle.ini');
+      fs.writeFileSync(bundlePath, '# generated by PrusaSlicer 2.7.1\r\n\r\n[print:Fine]\r\nlayer_height = 0.1\r\noops\r\n[filament:PLA]\r\ntemperature = 210\r\n');
+
+      const { files, diagnostics } = processConfigBundle(bundlePath, tempDir);
+      expect(files).toHaveLength(2);
+      expect(readIniFile(files[0])).toMatchObject({
+        config: { ini_type: 'print', profile_name: 'Fine', layer_height: '0.1' },
+        slicerFlavor: 'PrusaSlicer',
+        diagnostics: []
+      });
+      expect(diagnostics).toEqual([{ line: 5, message: 'Expected "key = value", found: oops' }]);
+    });
+
     it('should sanitize filenames based on OS', () => {
       const bundlePath = path.join(tempDir, 'bundle.ini');
       const content = `[print:Test:Profile]
@@ -11,8 +11,11 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SourceIni, SlicerFlavor } from './types';
+import { SourceIni, SlicerFlavor, ConfigBundleSection, IniEncoding, IniDiagnostic } from './types';
 import { getOS } from './utils';
+import { illegalChars } from './constants';
+import { flavorFromHeader } from './flavors';
+import { readIni, decodeIni } from './ini';
 
 /**
  * Reads and parses an INI file, extracting key-value pairs and detecting the slicer flavor.
@@ -20,47 +23,50 @@ import { getOS } from './utils';
  * @param filePath - The path to the INI file to read
  * @returns An object containing the parsed configuration and detected slicer flavor
  * @returns Returns.config - Key-value pairs from the INI file
- * @returns Returns.slicerFlavor - Detected slicer ('PrusaSlicer' or 'SuperSlicer') if found in header comments
+ * @returns Returns.slicerFlavor - Detected slicer (e.g. 'PrusaSlicer', 'QIDISlicer' or 'Cura') if found in header comments
+ * @returns Returns.slicerVersion - Version of the detected slicer (e.g. '2.7.1') if found in header comments
+ * @returns Returns.encoding - The detected text encoding of the file
+ * @returns Returns.diagnostics - Line-numbered problems found while parsing (see `parseIni`)
  *
  * @throws {Error} If the file cannot be read
  *
+ * @remarks
+ * The file is parsed with `parseIni`, so byte order marks, CRLF line endings and Latin-1 files
+ * are handled. Keys inside `[type:name]` sections are merged into `config` as well.
+ *
  * @example
  * ```ts
- * const { config, slicerFlavor } = readIniFile("profile.ini");
+ * const { config, slicerFlavor, slicerVersion } = readIniFile("profile.ini");
  * console.log(config['layer_height']); // "0.2"
  * console.log(slicerFlavor); // "PrusaSlicer"
+ * console.log(slicerVersion); // "2.7.1"
  * ```
  */
-export function readIniFile(filePath: string): { config: SourceIni; slicerFlavor?: SlicerFlavor } {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
-  const config: SourceIni = {};
+export function readIniFile(filePath: string): {
+  config: SourceIni;
+  slicerFlavor?: SlicerFlavor;
+  slicerVersion?: string;
+  encoding: IniEncoding;
+  diagnostics: IniDiagnostic[];
+} {
+  const parsed = readIni(filePath);
+  const config: SourceIni = Object.assign({}, parsed.config, ...parsed.sections.map(section => section.config));
   let slicerFlavor: SlicerFlavor | undefined;
+  let slicerVersion: string | undefined;
 
-  for (const line of lines) {
-    // Detect which slicer we're importing from
-    const slicerMatch = line.match(/^#\s*generated\s+by\s+(\S+)/i);
+  for (const comment of parsed.comments) {
+    // Detect which slicer (and which release of it) we're importing from,
+    // e.g. "# generated by PrusaSlicer 2.7.1+win64 on 2024-01-01 at 12:00:00 UTC"
+    const slicerMatch = comment.match(/^#\s*generated\s+by\s+(\S+)(?:\s+(\d+(?:\.\d+)*))?/i);
     if (slicerMatch) {
-      const slicer = slicerMatch[1];
-      if (slicer.includes('PrusaSlicer')) {
-        slicerFlavor = 'PrusaSlicer';
-      } else if (slicer.includes('SuperSlicer')) {
-        slicerFlavor = 'SuperSlicer';
+      slicerFlavor = flavorFromHeader(slicerMatch[1]);
+      if (slicerFlavor) {
+        slicerVersion = slicerMatch[2];
       }
     }
-
-    // Skip empty and comment lines
-    if (/^\s*(?:#|$)/.test(line)) continue;
-
-    const match = line.match(/^\s*([^=]+?)\s*=\s*(.*)$/);
-    if (match) {
-      const key = match[1].trim();
-      const value = match[2].trim();
-      config[key] = value;
-    }
   }
 
-  return { config, slicerFlavor };
+  return { config, slicerFlavor, slicerVersion, encoding: parsed.encoding, diagnostics: parsed.diagnostics };
 }
 
 /**
@@ -106,6 +112,36 @@ export function writeJsonFile(filePath: string, data: Record<string, unknown>):
   fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
 }
 
+/**
+ * Writes key/value pairs to an INI file in the format used by PrusaSlicer and SuperSlicer.
+ *
+ * @param filePath - The path where the INI file should be written
+ * @param config - The key/value pairs to write
+ * @param headerLine - Optional header comment (e.g. "# generated by PrusaSlicer")
+ * @throws {Error} If the directory cannot be created or the file cannot be written
+ *
+ * @remarks
+ * Automatically creates parent directories if they don't exist. Keys are written in
+ * alphabetical order, as PrusaSlicer does. Undefined values are skipped.
+ *
+ * @example
+ * ```ts
+ * writeIniFile("profile.ini", { layer_height: "0.2" }, "# generated by PrusaSlicer");
+ * ```
+ */
+export function writeIniFile(filePath: string, config: SourceIni, headerLine?: string): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const lines = Object.keys(config)
+    .sort()
+    .filter(key => config[key] !== undefined)
+    .map(key => `${key} = ${config[key]}`);
+  const header = headerLine ? `${headerLine}\n\n` : '';
+  fs.writeFileSync(filePath, header + lines.join('\n') + '\n', 'utf-8');
+}
+
 /**
  * Checks if a file or directory exists at the given path.
  *
@@ -210,6 +246,21 @@ export function joinPath(...parts: string[]): string {
   return path.join(...parts);
 }
 
+/**
+ * Removes the characters that are not allowed in filenames on the current operating system.
+ *
+ * @param name - The profile or file name
+ * @returns The name without illegal characters
+ *
+ * @example
+ * ```ts
+ * sanitizeFilename("Prusament PLA/PETG") // "Prusament PLAPETG" on Linux
+ * ```
+ */
+export function sanitizeFilename(name: string): string {
+  return name.replace(new RegExp(illegalChars[getOS()].source, 'g'), '');
+}
+
 /**
  * Checks if a file is a config bundle (contains multiple profiles in one file).
  *
@@ -227,7 +278,7 @@ export function joinPath(...parts: string[]): string {
  * ```
  */
 export function isConfigBundle(filePath: string): boolean {
-  const content = fs.readFileSync(filePath, 'utf-8');
+  const content = decodeIni(fs.readFileSync(filePath)).text;
   return /\[\w+:[\w\s\+\-]+\]/.test(content);
 }
 
@@ -240,6 +291,7 @@ export function isConfigBundle(filePath: string): boolean {
  * @returns Returns.files - Array of paths to created INI files (excludes physical_printer profiles)
  * @returns Returns.headerLine - The header comment line from the original bundle, if found
  * @returns Returns.tempDir - The temporary directory path
+ * @returns Returns.diagnostics - Line-numbered problems found while parsing the bundle
  *
  * @remarks
  * Config bundles contain multiple profiles in the format [type:name] followed by content.
@@ -256,32 +308,17 @@ export function isConfigBundle(filePath: string): boolean {
 export function processConfigBundle(
   filePath: string,
   tempDir: string
-): { files: string[]; headerLine?: string; tempDir: string } {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const headerMatch = content.match(/^(# generated[^\n]*)/m);
-  const headerLine = headerMatch ? headerMatch[1] : undefined;
-
+): { files: string[]; headerLine?: string; tempDir: string; diagnostics: IniDiagnostic[] } {
+  const { sections, comments, diagnostics } = readIni(filePath);
+  const headerLine = comments.find(comment => comment.startsWith('# generated'));
   const files: string[] = [];
-  const regex = /\[([\w\s\+\-]+):([^\]]+)\]\n(.*?)\n(?=\[|$)/gs;
-  let match;
 
-  const os = getOS();
-  let illegalRegex: RegExp;
-  if (os === 'MSWin32') {
-    illegalRegex = /[<>:"\/\\|?*\x00-\x1F]/;
-  } else if (os === 'darwin') {
-    illegalRegex = /[:]/;
-  } else {
-    // Linux: colons and forward slashes are illegal in filenames
-    illegalRegex = /[:/]/;
-  }
-
-  while ((match = regex.exec(content)) !== null) {
-    const [, profileType, profileName, profileContent] = match;
+  for (const { type: profileType, name: profileName, config } of sections) {
+    if (!profileName) continue;
     const isPhysicalPrinter = profileType === 'physical_printer';
 
     // Clean filename
-    let tempFilename = profileName.replace(illegalRegex, '');
+    let tempFilename = sanitizeFilename(profileName);
     let finalPath = isPhysicalPrinter
       ? joinPath(tempDir, 'physical_printer', `${tempFilename}.ini`)
       : joinPath(tempDir, `${tempFilename}.ini`);
@@ -292,21 +329,34 @@ export function processConfigBundle(
       finalPath = joinPath(tempDir, `${tempFilename}.ini`);
     }
 
-    // Create directory if needed
-    const dir = path.dirname(finalPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    const fileContent = `${headerLine || ''}\n\nini_type = ${profileType}\nprofile_name = ${profileName}\n${profileContent}`;
-    fs.writeFileSync(finalPath, fileContent, 'utf-8');
+    writeIniFile(finalPath, { ...config, ini_type: profileType, profile_name: profileName }, headerLine);
 
     if (!isPhysicalPrinter) {
       files.push(finalPath);
     }
   }
 
-  return { files, headerLine, tempDir };
+  return { files, headerLine, tempDir, diagnostics };
+}
+
+/**
+ * Parses a config bundle or vendor bundle into its sections.
+ *
+ * @param filePath - The path to the bundle file
+ * @returns The sections of the bundle, in file order
+ *
+ * @remarks
+ * Unlike `processConfigBundle`, nothing is written to disk. Section headers are either
+ * `[type:name]` or `[type]`; key/value pairs before the first header are ignored.
+ *
+ * @example
+ * ```ts
+ * const sections = parseConfigBundle("vendor/PrusaResearch.ini");
+ * sections.find(s => s.type === 'print' && s.name === '*common*')?.config['layer_height']
+ * ```
+ */
+export function parseConfigBundle(filePath: string): ConfigBundleSection[] {
+  return readIni(filePath).sections;
 }
 
 /**
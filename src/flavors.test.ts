@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { flavorFromHeader, baseFlavor, guessSlicerFlavor } from './flavors';
+
+describe('flavors', () => {
+  describe('flavorFromHeader', () => {
+    it('should recognise forks before the slicers they are named after', () => {
+      expect(flavorFromHeader('PrusaSlicer')).toBe('PrusaSlicer');
+      expect(flavorFromHeader('Slic3r++')).toBe('Slic3r++');
+      expect(flavorFromHeader('Slic3r')).toBe('Slic3r');
+      expect(flavorFromHeader('QIDISlicer')).toBe('QIDISlicer');
+      expect(flavorFromHeader('Cura')).toBe('Cura');
+    });
+
+    it('should return undefined for unsupported slicers', () => {
+      expect(flavorFromHeader('Simplify3D')).toBeUndefined();
+      expect(flavorFromHeader('CuraEngine')).toBeUndefined();
+    });
+  });
+
+  describe('baseFlavor', () => {
+    it('should map forks to the slicer they are converted like', () => {
+      expect(baseFlavor('Slic3r++')).toBe('SuperSlicer');
+      expect(baseFlavor('QIDISlicer')).toBe('PrusaSlicer');
+      expect(baseFlavor('Slic3r')).toBe('PrusaSlicer');
+      expect(baseFlavor('SuperSlicer')).toBe('SuperSlicer');
+      expect(baseFlavor('OrcaSlicer')).toBe('OrcaSlicer');
+      expect(baseFlavor(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('guessSlicerFlavor', () => {
+    it('should prefer SuperSlicer keys over the PrusaSlicer keys it also writes', () => {
+      expect(guessSlicerFlavor({ default_speed: '100', infill_dense: '0', perimeter_generator: 'arachne' })).toEqual({
+        flavor: 'SuperSlicer',
+        confidence: 0.8,
+        evidence: ['default_speed', 'infill_dense']
+      });
+    });
+
+    it('should recognise PrusaSlicer and Slic3r keys', () => {
+      expect(guessSlicerFlavor({ perimeter_generator: 'arachne', layer_height: '0.2' })).toEqual({
+        flavor: 'PrusaSlicer',
+        confidence: 0.65,
+        evidence: ['perimeter_generator']
+      });
+      expect(guessSlicerFlavor({ top_infill_pattern: 'rectilinear', z_steps_per_mm: '0' })?.flavor).toBe('Slic3r');
+    });
+
+    it('should lower the confidence when keys of another slicer are present', () => {
+      const guess = guessSlicerFlavor({ top_infill_pattern: 'rectilinear', adaptive_slicing: '0', arc_fitting: 'disabled' });
+      expect(guess?.flavor).toBe('Slic3r');
+      expect(guess?.confidence).toBe(0.53);
+    });
+
+    it('should guess PrusaSlicer with low confidence from shared keys only', () => {
+      expect(guessSlicerFlavor({ layer_height: '0.2' })).toEqual({ flavor: 'PrusaSlicer', confidence: 0.3, evidence: [] });
+    });
+
+    it('should return undefined for files that are not slicer profiles', () => {
+      expect(guessSlicerFlavor({ foo: 'bar' })).toBeUndefined();
+    });
+  });
+});
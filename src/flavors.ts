@@ -0,0 +1,99 @@
+/**
+ * Identification of the slicer that wrote a source profile.
+ *
+ * This module handles:
+ * - Recognising the source slicer from the `# generated by` header of an INI file
+ * - Mapping forks to the slicer whose keys and value formats they use
+ * - Guessing the source slicer from distinctive keys when the header is missing
+ */
+
+import { SourceIni, SlicerFlavor, FlavorGuess } from './types';
+import { sourceSlicers, flavorSignatures } from './constants';
+import { parameterMap } from './parameterMap';
+
+/** Confidence of a guess that is based on no distinctive keys at all. */
+const UNSIGNED_CONFIDENCE = 0.3;
+
+/**
+ * Recognises a source slicer by the name in a `# generated by` header.
+ *
+ * @param slicer - The slicer name from the header (e.g. `PrusaSlicer`, `Slic3r++`)
+ * @returns The slicer flavor, or undefined if the slicer is not supported
+ *
+ * @example
+ * ```ts
+ * flavorFromHeader("QIDISlicer") // 'QIDISlicer'
+ * flavorFromHeader("Simplify3D") // undefined
+ * ```
+ */
+export function flavorFromHeader(slicer: string): SlicerFlavor | undefined {
+  return sourceSlicers.find(candidate => candidate.header.test(slicer))?.flavor;
+}
+
+/**
+ * Maps a source slicer to the slicer whose keys and value formats its profiles use.
+ *
+ * @param slicerFlavor - The source slicer
+ * @returns `PrusaSlicer` or `SuperSlicer` for Prusa-derived forks, otherwise the flavor itself
+ *
+ * @example
+ * ```ts
+ * baseFlavor("Slic3r++")   // 'SuperSlicer'
+ * baseFlavor("QIDISlicer") // 'PrusaSlicer'
+ * ```
+ */
+export function baseFlavor(slicerFlavor: SlicerFlavor | undefined): SlicerFlavor | undefined {
+  return sourceSlicers.find(candidate => candidate.flavor === slicerFlavor)?.base ?? slicerFlavor;
+}
+
+/**
+ * Guesses the source slicer of a profile that has no `# generated by` header.
+ *
+ * @param sourceIni - The parsed source INI configuration
+ * @returns The most likely slicer, how confident the guess is and the keys it is based on, or
+ * undefined if the profile does not look like a Prusa-derived slicer profile at all
+ *
+ * @remarks
+ * Each slicer in `flavorSignatures` scores one point per distinctive key present. SuperSlicer
+ * wins whenever any of its keys are present, since its recent releases also write the
+ * PrusaSlicer keys; otherwise the higher of Slic3r and PrusaSlicer wins, PrusaSlicer on a tie.
+ * The confidence grows with the number of matching keys and shrinks when keys of a competing
+ * slicer are present too. A profile with only keys that all Prusa-derived slicers share is
+ * guessed to be a PrusaSlicer profile with low confidence.
+ *
+ * @example
+ * ```ts
+ * guessSlicerFlavor({ default_speed: '100', perimeter_speed: '50%' })
+ * // { flavor: 'SuperSlicer', confidence: 0.65, evidence: ['default_speed'] }
+ * ```
+ */
+export function guessSlicerFlavor(sourceIni: SourceIni): FlavorGuess | undefined {
+  const matches: { [flavor: string]: string[] } = {};
+  for (const [flavor, keys] of Object.entries(flavorSignatures)) {
+    matches[flavor] = keys.filter(key => key in sourceIni);
+  }
+
+  const superSlicer = matches['SuperSlicer'].length;
+  const slic3r = matches['Slic3r'].length;
+  const prusaSlicer = matches['PrusaSlicer'].length;
+  let flavor: SlicerFlavor;
+  let competing: number;
+  if (superSlicer > 0) {
+    flavor = 'SuperSlicer';
+    competing = slic3r;
+  } else if (slic3r > prusaSlicer) {
+    flavor = 'Slic3r';
+    competing = prusaSlicer;
+  } else if (prusaSlicer > 0) {
+    flavor = 'PrusaSlicer';
+    competing = slic3r;
+  } else {
+    const knownKeys = Object.values(parameterMap).flatMap(params => Object.keys(params || {}));
+    if (!Object.keys(sourceIni).some(key => knownKeys.includes(key))) return undefined;
+    return { flavor: 'PrusaSlicer', confidence: UNSIGNED_CONFIDENCE, evidence: [] };
+  }
+
+  const evidence = matches[flavor];
+  const confidence = Math.min(0.95, 0.5 + 0.15 * evidence.length) * evidence.length / (evidence.length + competing);
+  return { flavor, confidence: Math.round(confidence * 100) / 100, evidence };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { translateGcode, findRenamedPlaceholders } from './gcode';
+
+describe('gcode', () => {
+  describe('translateGcode', () => {
+    it('should rename legacy square-bracket placeholders', () => {
+      const { gcode, unknown } = translateGcode('M109 S[first_layer_temperature]\nM104 S[temperature]');
+      expect(gcode).toBe('M109 S[nozzle_temperature_initial_layer]\nM104 S[nozzle_temperature]');
+      expect(unknown).toEqual([]);
+    });
+
+    it('should drop the index of single-value placeholders', () => {
+      const { gcode } = translateGcode('M190 S{first_layer_bed_temperature[0]}');
+      expect(gcode).toBe('M190 S{bed_temperature_initial_layer_single}');
+    });
+
+    it('should drop variable indexes of single-value placeholders', () => {
+      const { gcode, unknown } = translateGcode(
+        'M190 S{first_layer_bed_temperature[initial_tool]}\nM140 S{first_layer_bed_temperature[ current_extruder ] - 5}'
+      );
+      expect(gcode).toBe('M190 S{bed_temperature_initial_layer_single}\nM140 S{bed_temperature_initial_layer_single - 5}');
+      expect(unknown).toEqual([]);
+    });
+
+    it('should keep the index of vector placeholders', () => {
+      const { gcode } = translateGcode('M109 S{first_layer_temperature[current_extruder] + 5}');
+      expect(gcode).toBe('M109 S{nozzle_temperature_initial_layer[current_extruder] + 5}');
+    });
+
+    it('should translate legacy indexed placeholders', () => {
+      expect(translateGcode('M104 S[temperature_0]').gcode).toBe('M104 S[nozzle_temperature_0]');
+      expect(translateGcode('M140 S[first_layer_bed_temperature_0]').gcode).toBe('M140 S[bed_temperature_initial_layer_single]');
+    });
+
+    it('should leave built-in placeholders unchanged', () => {
+      const input = ';LAYER:[layer_num]\n{if layer_z > 2}M106 S255{endif}';
+      const { gcode, unknown } = translateGcode(input);
+      expect(gcode).toBe(input);
+      expect(unknown).toEqual([]);
+    });
+
+    it('should not translate functions, keywords, string or regex literals', () => {
+      const input = '{if printer_notes=~/.*temperature.*/ and max(1, 2) == 2}M117 {"temperature"}{endif}';
+      const { gcode, unknown } = translateGcode(input);
+      expect(gcode).toBe(input);
+      expect(unknown).toEqual([]);
+    });
+
+    it('should not report local variables', () => {
+      const { unknown } = translateGcode('{local offset = 5}M104 S{temperature[0] + offset}');
+      expect(unknown).toEqual([]);
+    });
+
+    it('should report unknown placeholders once and leave them unchanged', () => {
+      const { gcode, unknown } = translateGcode('M117 [mystery_value]\nM117 {mystery_value}');
+      expect(gcode).toBe('M117 [mystery_value]\nM117 {mystery_value}');
+      expect(unknown).toEqual(['mystery_value']);
+    });
+  });
+
+  describe('findRenamedPlaceholders', () => {
+    it('should find the placeholders that have a different source name', () => {
+      expect(findRenamedPlaceholders('M190 S{bed_temperature_initial_layer_single}\nM109 S[nozzle_temperature_initial_layer]\nG28 ; [layer_num]'))
+        .toEqual(['bed_temperature_initial_layer_single', 'nozzle_temperature_initial_layer']);
+      expect(findRenamedPlaceholders('{if layer_z > 2}M106 S255{endif}')).toEqual([]);
+    });
+  });
+});
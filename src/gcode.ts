@@ -0,0 +1,264 @@
+/**
+ * Translation of PrusaSlicer/SuperSlicer custom G-code templates to OrcaSlicer syntax.
+ *
+ * This module handles:
+ * - Renaming placeholders in `[name]` and `{expression}` blocks to their OrcaSlicer names
+ * - Dropping the index of placeholders that OrcaSlicer provides as a single value
+ * - Renaming the variables of a single macro-language expression
+ * - Reporting placeholders that have no known OrcaSlicer equivalent
+ * - Finding the placeholders of OrcaSlicer G-code that were renamed from another source name
+ */
+
+import { IniType } from './types';
+import {
+  gcodePlaceholders,
+  orcaPlaceholders,
+  scalarPlaceholders,
+  placeholderKeywords
+} from './constants';
+import { parameterMap } from './parameterMap';
+
+/**
+ * Result of translating a single G-code template.
+ */
+export interface GcodeTranslation {
+  /** The G-code with known placeholders renamed */
+  gcode: string;
+  /** Placeholders that were left unchanged because they have no known OrcaSlicer equivalent */
+  unknown: string[];
+}
+
+/** Profile types whose settings are searched for placeholder names, in order of precedence. */
+const placeholderSources: IniType[] = ['filament', 'printer', 'print'];
+
+let placeholderRenames: { [key: string]: string } | undefined;
+let knownPlaceholders: Set<string> | undefined;
+let renamedPlaceholders: Set<string> | undefined;
+
+/**
+ * Builds the placeholder rename table from `parameterMap` and `gcodePlaceholders`.
+ *
+ * @returns The source placeholder names mapped to their OrcaSlicer names
+ *
+ * @remarks
+ * Every profile setting is also a placeholder, so a setting renamed by `parameterMap` is
+ * renamed in G-code as well. Settings that map to several OrcaSlicer keys are skipped.
+ */
+function getPlaceholderRenames(): { [key: string]: string } {
+  if (placeholderRenames) return placeholderRenames;
+
+  const renames: { [key: string]: string } = {};
+  for (const iniType of placeholderSources) {
+    for (const [sourceKey, orcaKey] of Object.entries(parameterMap[iniType] || {})) {
+      if (typeof orcaKey === 'string' && !(sourceKey in renames)) {
+        renames[sourceKey] = orcaKey;
+      }
+    }
+  }
+  placeholderRenames = Object.assign(renames, gcodePlaceholders);
+  return placeholderRenames;
+}
+
+/**
+ * Gets every placeholder name known to OrcaSlicer.
+ *
+ * @returns The set of OrcaSlicer settings and built-in placeholders
+ */
+function getKnownPlaceholders(): Set<string> {
+  if (!knownPlaceholders) {
+    knownPlaceholders = new Set([...Object.values(getPlaceholderRenames()), ...orcaPlaceholders]);
+  }
+  return knownPlaceholders;
+}
+
+/**
+ * Looks up the OrcaSlicer name of a placeholder.
+ *
+ * @param name - The PrusaSlicer/SuperSlicer placeholder name
+ * @returns The OrcaSlicer placeholder name, or undefined if it is unknown
+ */
+function lookupName(name: string): string | undefined {
+  const renames = getPlaceholderRenames();
+  if (renames[name]) return renames[name];
+  if (getKnownPlaceholders().has(name)) return name;
+  return undefined;
+}
+
+/**
+ * Translates a single placeholder name.
+ *
+ * @param name - The PrusaSlicer/SuperSlicer placeholder name
+ * @param locals - Variables declared with `local` or `global` in the template
+ * @param unknown - Collects names that have no known OrcaSlicer equivalent
+ * @returns The OrcaSlicer placeholder name, or the original name if it is unknown
+ */
+function translateName(name: string, locals: Set<string>, unknown: string[]): string {
+  if (locals.has(name) || placeholderKeywords.includes(name)) return name;
+
+  const newName = lookupName(name);
+  if (newName) return newName;
+
+  if (!unknown.includes(name)) {
+    unknown.push(name);
+  }
+  return name;
+}
+
+/**
+ * Translates a legacy `[name]` placeholder, which may carry an index as a `_N` suffix.
+ *
+ * @param name - The placeholder name between the square brackets
+ * @param locals - Variables declared with `local` or `global` in the template
+ * @param unknown - Collects names that have no known OrcaSlicer equivalent
+ * @returns The translated placeholder name
+ */
+function translateLegacyName(name: string, locals: Set<string>, unknown: string[]): string {
+  const indexed = /^(.+)_(\d+)$/.exec(name);
+  if (indexed && !lookupName(name)) {
+    const newBase = lookupName(indexed[1]);
+    if (newBase) {
+      return scalarPlaceholders.includes(newBase) ? newBase : `${newBase}_${indexed[2]}`;
+    }
+  }
+  return translateName(name, locals, unknown);
+}
+
+/**
+ * Translates the identifiers of a `{...}` expression, leaving string and regex literals alone.
+ *
+ * @param expression - The contents of the braces
+ * @param locals - Variables declared with `local` or `global` in the template
+ * @param unknown - Collects names that have no known OrcaSlicer equivalent
+ * @returns The translated expression
+ */
+function translateExpression(expression: string, locals: Set<string>, unknown: string[]): string {
+  const literal = /"(?:[^"\\]|\\.)*"|([=!]~\s*)\/(?:[^/\\]|\\.)*\//g;
+  let result = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  // The index of a placeholder that is a single value in OrcaSlicer is dropped, whatever
+  // expression it holds (`[0]`, `[initial_tool]`, `[current_extruder]`)
+  const translateCode = (code: string): string => {
+    const identifier = /\b([A-Za-z_][A-Za-z0-9_]*)\b(?!\s*\()/g;
+    let translated = '';
+    let copied = 0;
+    let found: RegExpExecArray | null;
+    while ((found = identifier.exec(code)) !== null) {
+      const newName = translateName(found[1], locals, unknown);
+      translated += code.slice(copied, found.index) + newName;
+      copied = identifier.lastIndex;
+      const index = /^\s*\[/.exec(code.slice(copied));
+      if (index && scalarPlaceholders.includes(newName)) {
+        let depth = 0;
+        let end = copied + index[0].length - 1;
+        for (; end < code.length; end++) {
+          if (code[end] === '[') depth++;
+          if (code[end] === ']' && --depth === 0) break;
+        }
+        if (end < code.length) copied = identifier.lastIndex = end + 1;
+      }
+    }
+    return translated + code.slice(copied);
+  };
+
+  while ((match = literal.exec(expression)) !== null) {
+    result += translateCode(expression.slice(lastIndex, match.index)) + match[0];
+    lastIndex = match.index + match[0].length;
+  }
+  return result + translateCode(expression.slice(lastIndex));
+}
+
+/**
+ * Translates the variable names of a single macro-language expression to OrcaSlicer.
+ *
+ * @param expression - An expression such as `nozzle_diameter[0]==0.4`, without enclosing braces
+ * @returns The translated expression and the variables that could not be translated
+ *
+ * @example
+ * ```ts
+ * translateExpressionVariables("first_layer_temperature[0] > 200")
+ * // { gcode: "nozzle_temperature_initial_layer[0] > 200", unknown: [] }
+ * ```
+ */
+export function translateExpressionVariables(expression: string): GcodeTranslation {
+  const unknown: string[] = [];
+  return { gcode: translateExpression(expression, new Set(), unknown), unknown };
+}
+
+/**
+ * Translates the placeholders of a PrusaSlicer/SuperSlicer custom G-code template to OrcaSlicer.
+ *
+ * @param gcode - The custom G-code, with newlines already unescaped
+ * @returns The translated G-code and the placeholders that could not be translated
+ *
+ * @remarks
+ * Both legacy `[name]` (or `[name_N]`) placeholders and `{expression}` blocks are translated.
+ * Names come from `parameterMap` (every setting is also a placeholder), `gcodePlaceholders` for
+ * names that are renamed differently in G-code, and `orcaPlaceholders` for built-in names that
+ * are unchanged.
+ * Unknown placeholders are left as they are so the G-code can be fixed by hand.
+ *
+ * @example
+ * ```ts
+ * translateGcode("M190 S{first_layer_bed_temperature[0]}\nM109 S[first_layer_temperature]")
+ * // {
+ * //   gcode: "M190 S{bed_temperature_initial_layer_single}\nM109 S[nozzle_temperature_initial_layer]",
+ * //   unknown: []
+ * // }
+ * ```
+ */
+export function translateGcode(gcode: string): GcodeTranslation {
+  const unknown: string[] = [];
+  const locals = new Set<string>();
+  for (const match of gcode.matchAll(/\b(?:local|global)\s+([A-Za-z_][A-Za-z0-9_]*)/g)) {
+    locals.add(match[1]);
+  }
+
+  const translated = gcode.replace(
+    /\{([^{}]*)\}|\[([A-Za-z_][A-Za-z0-9_]*)\]/g,
+    (whole, expression: string | undefined, name: string | undefined) => {
+      if (expression !== undefined) {
+        return `{${translateExpression(expression, locals, unknown)}}`;
+      }
+      if (name !== undefined) {
+        return `[${translateLegacyName(name, locals, unknown)}]`;
+      }
+      return whole;
+    }
+  );
+
+  return { gcode: translated, unknown };
+}
+
+/**
+ * Finds the OrcaSlicer placeholders in G-code or a condition that have a different name in
+ * PrusaSlicer/SuperSlicer.
+ *
+ * @param text - OrcaSlicer custom G-code or a compatible condition expression
+ * @returns The renamed placeholder names found in the text, in order of appearance
+ *
+ * @remarks
+ * Used by the reverse conversion, which does not rename placeholders back: a name can be the
+ * translation of several source names, and single-value placeholders have lost their index.
+ *
+ * @example
+ * ```ts
+ * findRenamedPlaceholders("M190 S{bed_temperature_initial_layer_single}\nG28")
+ * // ["bed_temperature_initial_layer_single"]
+ * ```
+ */
+export function findRenamedPlaceholders(text: string): string[] {
+  if (!renamedPlaceholders) {
+    renamedPlaceholders = new Set(Object.entries(getPlaceholderRenames())
+      .filter(([sourceName, orcaName]) => sourceName !== orcaName)
+      .map(([, orcaName]) => orcaName));
+  }
+  const found: string[] = [];
+  for (const [name] of text.matchAll(/\b[A-Za-z_][A-Za-z0-9_]*\b/g)) {
+    if (renamedPlaceholders.has(name) && !found.includes(name)) {
+      found.push(name);
+    }
+  }
+  return found;
+}
@@ -38,6 +38,7 @@ describe('index helper functions', () => {
       const status: Status = {
         forceOut: false,
         legacyOverwrite: false,
+        dryRun: false,
         maxTemp: 0,
         interactiveMode: false,
         outdirWasProvided: false,
@@ -121,6 +122,7 @@ describe('index helper functions', () => {
       const status: Status = {
         forceOut: false,
         legacyOverwrite: false,
+        dryRun: false,
         maxTemp: 100,
         interactiveMode: false,
         outdirWasProvided: false,
@@ -182,6 +184,7 @@ describe('index helper functions', () => {
       const status: Status = {
         forceOut: false,
         legacyOverwrite: false,
+        dryRun: false,
         maxTemp: 0,
         interactiveMode: true,
         outdirWasProvided: false,
@@ -280,6 +283,7 @@ describe('index helper functions', () => {
       const status: Status = {
         forceOut: false,
         legacyOverwrite: false,
+        dryRun: false,
         maxTemp: 0,
         interactiveMode: false,
         outdirWasProvided: false,
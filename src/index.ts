@@ -20,25 +20,31 @@ import {
   ConvertedFile,
   IniType,
   SlicerFlavor,
-  OnExistingOption
+  IniSlicerFlavor,
+  OnExistingOption,
+  Answers,
+  AnswersFile,
+  ConversionReport,
+  VendorBundle,
+  SystemPrinter,
+  SystemPreset,
+  IniTypeDetection,
+  IniDiagnostic,
+  ORCA_SLICER_VERSION
 } from './types';
 import {
   systemDirectories,
-  onExistingOpts
+  onExistingOpts,
+  sourceSlicers
 } from './constants';
-import { ORCA_SLICER_VERSION } from './types';
-import {
-  getOS,
-  getHomeDir,
-  multivalueToArray,
-  isDecimal
-} from './utils';
+import { multivalueToArray, diffProfiles } from './utils';
 import { isOutputIniType, isValidIniType } from './type-guards';
 import { OutputIniType } from './types';
 import {
   readIniFile,
   readJsonFile,
   writeJsonFile,
+  writeIniFile,
   fileExists,
   isDirectory,
   isFile,
@@ -46,78 +52,63 @@ import {
   getBasename,
   getDirname,
   joinPath,
+  sanitizeFilename,
   isConfigBundle,
   processConfigBundle,
   getChildren
 } from './fileIO';
 import { displayMenu, askInput } from './menu';
-import {
-  convertParams,
-  calculatePrintParams,
-  detectIniType
-} from './conversion';
+import { askCompatibleCondition, scoreIniType } from './conversion';
+import { convertProfile, initializeStatus } from './converter';
 import { parameterMap } from './parameterMap';
+import { convertJsonToIni, detectJsonType } from './reverse';
+import { loadVendorBundles, detectInheritedType } from './inheritance';
+import { extractEmbeddedProfiles, isFullConfig, extractFullConfigProfiles } from './project';
+import { extractCuraProfiles } from './cura';
+import { guessSlicerFlavor } from './flavors';
+import { normalizeOrcaVersion, supportedOrcaVersions } from './versions';
+import { BundledProfile, bundleTypes, buildPresetBundle, writePresetBundle } from './bundle';
+import { convertVendorBundle } from './vendor';
+import { readSystemPrinters, matchSystemPrinters, pickSystemPrinter } from './systemPrinters';
+import { readVendorPresets, matchSystemPreset, inheritSystemPreset } from './systemPresets';
+import { fillFromBaseline } from './baselines';
+import { createRenameTable, recordRename, applyRenames, formatProfileName } from './renames';
+import {
+  readAnswersFile,
+  writeAnswersFile,
+  resolveAnswers,
+  recordAnswer,
+  recordAnswerForAll
+} from './answers';
 
 // Global state
 let status: Status;
 let newHash: NewHash = {};
 const convertedFiles: { [key: string]: ConvertedFile[] } = {};
-
-/**
- * Initializes the global status object with default values.
- *
- * @returns A new Status object with all fields initialized to their default values
- *
- * @remarks
- * Sets up OS-specific data directory paths and initializes all tracking variables.
- * The data directory is determined based on the operating system.
- */
-function initializeStatus(): Status {
-  const osType = getOS();
-  const homeDir = getHomeDir();
-  const osDirs = systemDirectories.os[osType];
-  const dataDir = path.join(homeDir, ...osDirs);
-
-  return {
-    forceOut: false,
-    legacyOverwrite: false,
-    maxTemp: 0,
-    interactiveMode: false,
-    outdirWasProvided: false,
-    slicerFlavor: undefined,
-    iniType: undefined,
-    profileName: undefined,
-    ironingType: undefined,
-    iterationsLeft: undefined,
-    dirs: {
-      output: undefined,
-      data: dataDir,
-      slicer: undefined,
-      temp: undefined
-    },
-    toVar: {
-      externalPerimetersFirst: undefined,
-      infillFirst: undefined,
-      ironing: undefined
-    },
-    reset: {
-      onExisting: false,
-      physicalPrinter: false,
-      nozzleSize: false,
-      inherits: false,
-      compatiblePrintersCondition: false,
-      compatiblePrintsCondition: false
-    },
-    value: {
-      onExisting: undefined,
-      physicalPrinter: undefined,
-      nozzleSize: undefined,
-      inherits: undefined,
-      compatiblePrintersCondition: undefined,
-      compatiblePrintsCondition: undefined
-    }
-  };
-}
+let answersFile: AnswersFile | undefined;
+let currentAnswers: Answers = {};
+let recordedAnswers: AnswersFile | undefined;
+let recordAnswersPath: string | undefined;
+let currentReport: ConversionReport | undefined;
+let flavorConfidence: number | undefined;
+let typeConfidence: number | undefined;
+let explainDetection = false;
+let reportPath: string | undefined;
+let vendorDirs: string[] | undefined;
+const vendorBundles: { [directories: string]: VendorBundle[] } = {};
+let targetVersion: string | undefined;
+let nameTemplate: string | undefined;
+let inheritsOption: string | undefined;
+let bundlePath: string | undefined;
+const bundledProfiles: BundledProfile[] = [];
+const renames = createRenameTable();
+const writtenProfiles: string[] = [];
+const systemPresets: { [iniType: string]: SystemPreset[] } = {};
+let systemPrinters: SystemPrinter[] | undefined;
+const linkedPrinters: string[] = [];
+
+/** Number of closest system printers listed first when asking which one to link. */
+const MAX_PRINTER_SUGGESTIONS = 3;
 
 /**
  * Prints usage information and exits the program.
@@ -136,7 +127,17 @@ Options:
                                 pass multiple space-separated arguments to this
                                 option to specify multiple filenames. Any file
                                 path(s) containing a space must be enclosed in
-                                quotes. (Optional)
+                                quotes. 3MF project files and G-code files
+                                (.gcode or .bgcode) are also accepted; their
+                                embedded settings are split into print, filament
+                                and printer profiles named after the file.
+                                Cura profiles (.inst.cfg or .curaprofile) are
+                                split the same way and converted with the Cura
+                                setting names and units. Profiles from Slic3r,
+                                Slic3r++ and QIDISlicer are converted like
+                                PrusaSlicer or SuperSlicer profiles; the source
+                                slicer of files without a "generated by" header
+                                is guessed from their keys. (Optional)
 
   --outdir <DIRECTORY>          Specifies the ROOT OrcaSlicer settings directory.
                                 (Optional) If this is not specified, the script will
@@ -158,6 +159,20 @@ Options:
                                 script will give you a choice among detected
                                 "physical printer" profiles. (Optional)
 
+  --inherits <PRINTER>          Selects the OrcaSlicer system printer that
+                                converted printer profiles inherit from: 'auto'
+                                links each profile to its best matching system
+                                printer (by model, vendor, bed size and nozzle)
+                                when the match is clear and otherwise to none,
+                                'none' links no system printer, and any other
+                                value is used as the printer name. If this is
+                                not specified, clear matches are linked and you
+                                are asked about the rest. Filament and process
+                                profiles inherit from the closest system preset
+                                (by filament type and vendor, or by layer height
+                                and nozzle) and only store what differs from
+                                it, unless this is 'none'. (Optional)
+
   --on-existing <CHOICE>        Forces the behavior when an output file already
                                 exists. Valid choices are: "skip" to leave all 
                                 existing files alone, "overwrite" to overwrite all 
@@ -172,6 +187,91 @@ Options:
                                 the new files to be placed in your OrcaSlicer 
                                 settings folder. (Optional)
 
+  --answers <FILE>              Supplies the answers to interactive prompts from
+                                a JSON or YAML file, for unattended batch runs.
+                                Answers under "defaults" apply to every profile;
+                                answers under "profiles" override them for the
+                                profile whose file or profile name matches the
+                                key. Valid answers are compatiblePrintersCondition,
+                                compatiblePrintsCondition (KEEP, DISCARD or
+                                TRANSLATE),
+                                physicalPrinter, inherits (a name or <NONE>),
+                                nozzleSize, onExisting (skip, merge or
+                                overwrite) and iniType (print, filament or
+                                printer, used when the profile type cannot be
+                                told from its keys). (Optional)
+
+  --record-answers <FILE>       Saves the choices made in an interactive session
+                                to a JSON or YAML file that can be replayed later
+                                with '--answers'. (Optional)
+
+  --reverse <FLAVOR>            Converts OrcaSlicer JSON profiles (given with
+                                '--input') back to INI files. Valid flavors are
+                                "prusaslicer" and "superslicer". Keys that cannot
+                                be converted back are listed in the conversion
+                                report. (Optional)
+
+  --convert-vendor <FILE>       Converts a whole PrusaSlicer or SuperSlicer
+                                vendor bundle (e.g. PrusaResearch.ini) into an
+                                OrcaSlicer vendor profile set: a <Vendor>.json
+                                index with machine, process and filament
+                                folders, written to the output directory.
+                                Presets keep their inheritance chains and only
+                                store what differs from their parent. Copy the
+                                result to OrcaSlicer's "system" folder. (Optional)
+
+  --target-version <VERSION>    Specifies the OrcaSlicer version whose profile
+                                format the converted files should use (e.g.
+                                --target-version 2.0). If this is not specified,
+                                the newest supported version is used. Any release
+                                from ${supportedOrcaVersions.oldest} to ${supportedOrcaVersions.newest} is supported.
+                                (Optional)
+
+  --name-template <TEMPLATE>    Names the converted profiles after a template,
+                                so they do not clash with OrcaSlicer presets of
+                                the same name (e.g. --name-template "PS - {name}"
+                                or "{name} (from {flavor})"). {name} is the
+                                source profile name, {flavor} the source slicer
+                                and {type} print, filament or printer. The name
+                                is used for the profile, its settings id and the
+                                output file. (Optional)
+
+  --vendor-dir <DIRECTORY>      Specifies the directory (or directories) holding
+                                the PrusaSlicer or SuperSlicer vendor bundles, used
+                                to resolve profiles that inherit from system
+                                presets. Inherited values are filled in before
+                                converting, and the conversion report shows which
+                                parent preset each value came from. If this is not
+                                specified, the "vendor" folder of the source slicer
+                                is used. (Optional)
+
+  --dry-run                     Runs the whole conversion but writes nothing.
+                                For each profile, prints the target path,
+                                whether the file would be created, merged or
+                                overwritten, and a key-level diff against the
+                                existing output file. (Optional)
+
+  --bundle <FILE>               Packages the converted profiles into a single
+                                OrcaSlicer preset bundle instead of writing
+                                separate JSON files. Use a ".orca_printer" file
+                                for one printer with its process and filament
+                                profiles, or a ".orca_filament" file for
+                                filament profiles only. Import it in OrcaSlicer
+                                with File > Import > Import Configs. (Optional)
+
+  --explain-detection           For each file, shows how strongly its settings
+                                match each profile type, the keys that decided
+                                it and the confidence of the detected type.
+                                (Optional)
+
+  --report <FILE>               Specifies where to write the machine-readable
+                                conversion report, which lists for each file the
+                                keys that were dropped, the values that were
+                                passed through untranslated, and the special
+                                cases that ran. If this is not specified, no
+                                report is written; the summary still lists the
+                                keys of each file. (Optional)
+
   -h, --help                    Displays this usage information.
 `;
   console.log(usage);
@@ -204,6 +304,156 @@ function checkOutputDirectory(directory: string): void {
   }
 }
 
+/**
+ * Gets the vendor bundles used to resolve inherited system presets, loading them on first use.
+ *
+ * @returns The vendor bundles from `--vendor-dir`, or from the source slicer's `vendor` folder
+ *
+ * @remarks
+ * Without `--vendor-dir`, the bundles are looked up in the `vendor` folder of the source
+ * slicer's configuration directory, so the slicer flavor of the current file must be known.
+ * Bundles are cached per set of directories, so a session that mixes slicer flavors resolves
+ * each file against its own slicer's bundles.
+ */
+function getVendorBundles(): VendorBundle[] {
+  const directories = (vendorDirs || [...new Set([
+    ...(status.dirs.slicer ? [joinPath(status.dirs.slicer, 'vendor')] : []),
+    ...(status.slicerFlavor ? [joinPath(status.dirs.data, status.slicerFlavor, 'vendor')] : [])
+  ])]).filter(directory => isDirectory(directory));
+  const key = directories.join('\n');
+  if (!vendorBundles[key]) {
+    vendorBundles[key] = loadVendorBundles(directories);
+  }
+  return vendorBundles[key];
+}
+
+/**
+ * Gets the temporary directory of this session, creating it on first use.
+ *
+ * @returns The directory that profiles extracted from projects, G-code, Cura profiles, config
+ *   bundles and Export Config files are written to; it is removed when the session ends
+ */
+function getTempDir(): string {
+  if (!status.dirs.temp) {
+    status.dirs.temp = fs.mkdtempSync(path.join(os.tmpdir(), 'orca-convert-'));
+  }
+  return status.dirs.temp;
+}
+
+/**
+ * Removes the temporary directory of this session, if one was created.
+ *
+ * @remarks
+ * Runs when the process exits, so the directory is removed on every exit path, including
+ * `process.exit` calls after an error and quitting from a menu.
+ */
+function removeTempDir(): void {
+  if (status.dirs.temp && fs.existsSync(status.dirs.temp)) {
+    fs.rmSync(status.dirs.temp, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Gets the printers from OrcaSlicer's system presets, reading them on first use.
+ *
+ * @returns The system printers found in the `system` folder of the output directory
+ */
+function getSystemPrinters(): SystemPrinter[] {
+  if (!systemPrinters) {
+    systemPrinters = readSystemPrinters(joinPath(status.dirs.output!, 'system'));
+  }
+  return systemPrinters;
+}
+
+/**
+ * Gets the filament or process presets from OrcaSlicer's system presets, reading them on first use.
+ *
+ * @param iniType - The type of presets to get
+ * @returns The system presets of that type found in the `system` folder of the output directory
+ */
+function getSystemPresets(iniType: 'print' | 'filament'): SystemPreset[] {
+  if (!systemPresets[iniType]) {
+    systemPresets[iniType] = readVendorPresets(joinPath(status.dirs.output!, 'system'), iniType);
+  }
+  return systemPresets[iniType];
+}
+
+/**
+ * Creates an output directory if needed and verifies that it is writable.
+ *
+ * @param directory - The directory path to prepare
+ *
+ * @remarks
+ * In dry-run mode a missing directory is left uncreated and not checked.
+ */
+function prepareOutputDirectory(directory: string): void {
+  if (!fs.existsSync(directory)) {
+    if (status.dryRun) return;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+  checkOutputDirectory(directory);
+}
+
+/**
+ * Formats a profile value for a single line of the dry-run diff.
+ *
+ * @param value - The profile value to format
+ * @returns The value on one line, shortened to at most 60 characters
+ */
+function formatPreviewValue(value: unknown): string {
+  const text = (typeof value === 'string' ? value : JSON.stringify(value)).replace(/\n/g, '\\n');
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Prints what a dry run would do to an output file.
+ *
+ * @param outputFile - The path the converted profile would be written to
+ * @param updated - The content that would be written
+ * @param existing - The current content of the output file, or undefined if it does not exist
+ * @param onExisting - How the existing output file would be handled
+ *
+ * @example
+ * ```ts
+ * printDryRunPreview("out/print/My Print.json", newHash, existingJson, onExistingOpts.overwrite);
+ * // [DRY RUN] Would overwrite out/print/My Print.json
+ * //   ~ layer_height: 0.2 -> 0.3
+ * ```
+ */
+function printDryRunPreview(
+  outputFile: string,
+  updated: Record<string, unknown>,
+  existing?: Record<string, unknown>,
+  onExisting?: OnExistingOption
+): void {
+  if (!existing) {
+    console.log(`\n\x1b[1m[DRY RUN]\x1b[0m Would create \x1b[36m${outputFile}\x1b[0m (${Object.keys(updated).length} keys)`);
+    return;
+  }
+  if (onExisting === onExistingOpts.skip) {
+    console.log(`\n\x1b[1m[DRY RUN]\x1b[0m Would leave \x1b[36m${outputFile}\x1b[0m unchanged`);
+    return;
+  }
+
+  const action = onExisting === onExistingOpts.merge ? 'merge into' : 'overwrite';
+  console.log(`\n\x1b[1m[DRY RUN]\x1b[0m Would ${action} \x1b[36m${outputFile}\x1b[0m`);
+
+  const { added, removed, changed } = diffProfiles(existing, updated);
+  if (added.length + removed.length + changed.length === 0) {
+    console.log('  No changes');
+    return;
+  }
+  for (const key of added) {
+    console.log(`  \x1b[32m+ ${key}: ${formatPreviewValue(updated[key])}\x1b[0m`);
+  }
+  for (const key of removed) {
+    console.log(`  \x1b[31m- ${key}: ${formatPreviewValue(existing[key])}\x1b[0m`);
+  }
+  for (const key of changed) {
+    console.log(`  \x1b[33m~ ${key}: ${formatPreviewValue(existing[key])} -> ${formatPreviewValue(updated[key])}\x1b[0m`);
+  }
+}
+
 /**
  * Resets tracking variables and state to prepare for processing the next input file.
  *
@@ -223,6 +473,9 @@ function resetLoop(): void {
   status.toVar.infillFirst = undefined;
   status.toVar.ironing = undefined;
   status.ironingType = undefined;
+  currentReport = undefined;
+  flavorConfidence = undefined;
+  typeConfidence = undefined;
 
   for (const param of Object.keys(status.reset)) {
     const key = param as keyof typeof status.reset;
@@ -264,9 +517,21 @@ function logFileStatus(
     success,
     error: error || ''
   };
+  if (slicerFlavor === status.slicerFlavor && status.slicerVersion) {
+    completedFile.slicerVersion = status.slicerVersion;
+  }
+  if (slicerFlavor === status.slicerFlavor && flavorConfidence !== undefined) {
+    completedFile.flavorConfidence = flavorConfidence;
+  }
+  if (typeConfidence !== undefined) {
+    completedFile.typeConfidence = typeConfidence;
+  }
+  if (currentReport) {
+    completedFile.report = currentReport;
+  }
 
   if (status.iniType === 'printer') {
-    const physPrinter = status.value.physicalPrinter;
+    const physPrinter = currentAnswers.physicalPrinter ?? status.value.physicalPrinter;
     if (physPrinter && fileExists(physPrinter)) {
       completedFile.physicalPrinterFile = getBasename(physPrinter);
       completedFile.physicalPrinterDir = getDirname(physPrinter);
@@ -292,41 +557,50 @@ function logFileStatus(
  *
  * @remarks
  * Only prompts if there are remaining files to process. If user chooses "JUST [file]",
- * marks the parameter for reset so it will be asked again for the next file.
+ * marks the parameter for reset so it will be asked again for the next file. With
+ * --record-answers, a choice applied to all remaining profiles is recorded as a default.
  */
-async function askYesToAll(param: string, file: string): Promise<void> {
+async function askYesToAll(param: keyof Status['reset'], file: string): Promise<void> {
   if (!status.iterationsLeft) return;
   const choice = await displayMenu(
-    `You have chosen \x1b[1m${status.value[param as keyof typeof status.value]}\x1b[0m. Would you like to apply this choice to ALL remaining profiles you are importing in this session? Or just to \x1b[1m${file}\x1b[0m?\n`,
+    `You have chosen \x1b[1m${status.value[param]}\x1b[0m. Would you like to apply this choice to ALL remaining profiles you are importing in this session? Or just to \x1b[1m${file}\x1b[0m?\n`,
     true,
     ['ALL REMAINING PROFILES', `JUST ${file}`]
   ) as string;
 
-  const resetKey = param as keyof typeof status.reset;
-  status.reset[resetKey] = choice !== 'ALL REMAINING PROFILES';
+  status.reset[param] = choice !== 'ALL REMAINING PROFILES';
+  if (!status.reset[param] && recordedAnswers) {
+    recordAnswerForAll(recordedAnswers, file, param);
+  }
 }
 
 /**
  * Handles physical printer configuration for printer profiles.
  *
  * @param inputFile - The path to the input printer INI file
- * @returns A record containing physical printer parameters to merge into the printer profile
+ * @returns The parsed physical printer INI whose network settings belong in the printer profile,
+ *   or undefined if no physical printer was chosen
  *
  * @remarks
  * If no physical printer was specified via command line, prompts the user to select one
- * from detected physical printer profiles. Extracts network-related settings from the
- * physical printer INI file and converts them for inclusion in the OrcaSlicer machine profile.
+ * from detected physical printer profiles. The network-related settings are converted by
+ * `convertProfile` for inclusion in the OrcaSlicer machine profile.
  *
  * @example
  * ```ts
- * const physData = await handlePhysicalPrinter("printer.ini");
- * // physData contains network settings like print_host, printhost_port, etc.
+ * const physIni = await handlePhysicalPrinter("printer.ini");
+ * // physIni contains network settings like print_host, printhost_port, etc.
  * ```
  */
-async function handlePhysicalPrinter(inputFile: string): Promise<Record<string, string>> {
-  const printerHash: Record<string, string> = {};
+async function handlePhysicalPrinter(inputFile: string): Promise<SourceIni | undefined> {
   const file = getBasename(inputFile, '.ini');
 
+  if (currentAnswers.physicalPrinter !== undefined) {
+    return currentAnswers.physicalPrinter === '<NONE>'
+      ? undefined
+      : readIniFile(currentAnswers.physicalPrinter).config;
+  }
+
   if (!status.value.physicalPrinter) {
     const physicalPrinterDir = status.dirs.slicer
       ? joinPath(status.dirs.slicer, 'physical_printer')
@@ -347,6 +621,7 @@ async function handlePhysicalPrinter(inputFile: string): Promise<Record<string,
       } else {
         status.value.physicalPrinter = '<NONE>';
       }
+      recordChoice(file, 'physicalPrinter', status.value.physicalPrinter);
       await askYesToAll('physicalPrinter', file);
     } else {
       status.value.physicalPrinter = inputFile;
@@ -354,81 +629,446 @@ async function handlePhysicalPrinter(inputFile: string): Promise<Record<string,
   }
 
   if (status.value.physicalPrinter === '<NONE>') {
-    return printerHash;
+    return undefined;
   }
 
-  const { config: printerIni } = readIniFile(status.value.physicalPrinter!);
-  const physPrinterMap = parameterMap.physical_printer;
-  if (physPrinterMap) {
-    for (const parameter of Object.keys(printerIni)) {
-      if (!(parameter in physPrinterMap)) continue;
-      const newValue = await convertParams(parameter, file, printerIni, status, {});
-      if (newValue && newValue !== '') {
-        printerHash[parameter] = String(newValue);
-      }
-    }
-  }
+  return readIniFile(status.value.physicalPrinter!).config;
+}
 
-  return printerHash;
+/**
+ * Asks whether to keep, discard or translate the compatible condition strings of a profile.
+ *
+ * @param sourceIni - The source INI configuration of the current profile
+ * @param file - The current file being processed (for display purposes)
+ *
+ * @remarks
+ * Only prompts for conditions that are present and non-empty, and only if no choice has
+ * been made earlier in the session or supplied by the answers file. The choices are stored
+ * in `status.value`.
+ */
+async function resolveCompatibleConditions(sourceIni: SourceIni, file: string): Promise<void> {
+  const conditions: [string, 'compatiblePrintersCondition' | 'compatiblePrintsCondition'][] = [
+    ['compatible_printers_condition', 'compatiblePrintersCondition'],
+    ['compatible_prints_condition', 'compatiblePrintsCondition']
+  ];
+  const typeMap = isValidIniType(status.iniType) ? parameterMap[status.iniType] || {} : {};
+
+  for (const [parameter, valueKey] of conditions) {
+    const value = sourceIni[parameter];
+    if (!value || !(parameter in typeMap) || status.value[valueKey] || currentAnswers[valueKey]) continue;
+    status.value[valueKey] = await askCompatibleCondition(parameter, value, file, status.iniType);
+    recordChoice(file, valueKey, status.value[valueKey]);
+  }
 }
 
 /**
  * Links a converted printer profile to a system printer in OrcaSlicer.
  *
  * @param file - The filename being processed (for display purposes)
+ * @param sourceIni - The parsed source printer profile, matched against the system printers
  * @returns A record containing the 'inherits' key with the selected system printer name
  *
  * @remarks
- * Scans OrcaSlicer's system directory for configured printers and prompts the user to
- * select one. The 'inherits' parameter links the machine profile to a system printer,
- * which is required for network functionality. If '<NONE>' is selected, returns empty string.
+ * The 'inherits' parameter links the machine profile to a system printer, which is required
+ * for network functionality. An answer from the answers file or a printer name given with
+ * --inherits is used as is. Otherwise the printers in OrcaSlicer's system directory are scored
+ * against the source profile and a clear best match is linked without asking. With
+ * `--inherits auto`, a profile without a clear match is linked to no printer; otherwise the
+ * user is prompted, with the closest matches listed first. If '<NONE>' is selected, returns
+ * empty string.
  *
  * @example
  * ```ts
- * const inherits = await linkSystemPrinter("my_printer");
+ * const inherits = await linkSystemPrinter("my_printer", sourceIni);
  * // inherits = { inherits: "Prusa i3 MK3S+" }
  * ```
  */
-async function linkSystemPrinter(file: string): Promise<Record<string, string>> {
+async function linkSystemPrinter(file: string, sourceIni: SourceIni): Promise<Record<string, string>> {
+  if (currentAnswers.inherits !== undefined) {
+    return { inherits: currentAnswers.inherits === '<NONE>' ? '' : currentAnswers.inherits };
+  }
+  if (inheritsOption !== undefined && inheritsOption !== 'auto') {
+    return { inherits: inheritsOption === 'none' ? '' : inheritsOption };
+  }
   if (status.value.inherits) {
     return { inherits: status.value.inherits };
   }
 
-  const sysDir = joinPath(status.dirs.output!, 'system');
-  const uniqueNames: { [key: string]: boolean } = {};
+  const printers = getSystemPrinters();
+  const matches = matchSystemPrinters(sourceIni, printers);
+  const best = pickSystemPrinter(matches);
+  if (best) {
+    console.log(`Linked ${file} to the system printer ${best.name} (${Math.round(best.confidence * 100)}% match: ${best.evidence.join(', ')})`);
+    recordChoice(file, 'inherits', best.name);
+    return { inherits: best.name };
+  }
 
-  if (isDirectory(sysDir)) {
-    const files = getChildren(sysDir, /\.json$/);
-    for (const jsonFile of files) {
-      try {
-        const decodedData = readJsonFile(jsonFile);
-        if (decodedData.machine_list && Array.isArray(decodedData.machine_list)) {
-          for (const machine of decodedData.machine_list) {
-            if (machine.name && !machine.name.match(/common/i)) {
-              uniqueNames[machine.name] = true;
-            }
-          }
-        }
-      } catch (e) {
-        // Skip invalid JSON files
-      }
-    }
+  const suggestions = matches.slice(0, MAX_PRINTER_SUGGESTIONS).map(match => match.name);
+  if (inheritsOption === 'auto') {
+    const closest = suggestions.length > 0 ? ` Closest matches: ${suggestions.join(', ')}.` : '';
+    console.log(`\x1b[33m${file}: no system printer matches clearly enough; not linking a system printer.${closest}\x1b[0m`);
+    recordChoice(file, 'inherits', '<NONE>');
+    return { inherits: '' };
   }
 
-  const sortedNames = Object.keys(uniqueNames).sort();
-  sortedNames.push('<NONE>');
+  const otherNames = printers.map(printer => printer.name).filter(name => !suggestions.includes(name));
+  const listNote = suggestions.length > 0
+    ? 'The printers that match this profile best are listed first.'
+    : 'None of them matches the model, bed size or nozzle of this profile.';
   const choice = await displayMenu(
-    `In OrcaSlicer, a "machine" profile must be associated with a printer selected and configured from the available system presets. Below is a list of the configured printers that have been detected in your OrcaSlicer installation.\n\nIf you do not see the printer you wish to associate with this profile, choose \x1b[1;31m<QUIT>\x1b[0m to exit this script, then configure your desired printer in OrcaSlicer and run this script again. Alternatively, you may select \x1b[1m<NONE>\x1b[0m to proceed without associating this "machine" profile with a configured printer, but network configuration and g-code upload will not be available.\n\nPlease choose an OrcaSlicer printer to associate with \x1b[1m${file}\x1b[0m:\n`,
+    `In OrcaSlicer, a "machine" profile must be associated with a printer selected and configured from the available system presets. Below is a list of the configured printers that have been detected in your OrcaSlicer installation. ${listNote}\n\nIf you do not see the printer you wish to associate with this profile, choose \x1b[1;31m<QUIT>\x1b[0m to exit this script, then configure your desired printer in OrcaSlicer and run this script again. Alternatively, you may select \x1b[1m<NONE>\x1b[0m to proceed without associating this "machine" profile with a configured printer, but network configuration and g-code upload will not be available.\n\nPlease choose an OrcaSlicer printer to associate with \x1b[1m${file}\x1b[0m:\n`,
     true,
-    sortedNames
+    [...suggestions, ...otherNames, '<NONE>']
   ) as string;
 
+  recordChoice(file, 'inherits', choice);
   await askYesToAll('inherits', file);
   const inherits = choice === '<NONE>' ? '' : choice;
   status.value.inherits = inherits;
   return { inherits };
 }
 
+/**
+ * Determines what to do with an output file that already exists.
+ *
+ * @param outputFile - The path to the existing output file
+ * @param file - The current file being processed (for display purposes)
+ * @returns The choice for this file
+ *
+ * @remarks
+ * Prompts the user only if no choice was made via the answers file, --on-existing, or an
+ * earlier "apply to all" answer. Prompted choices are stored in `status.value.onExisting`.
+ */
+async function resolveOnExisting(outputFile: string, file: string): Promise<OnExistingOption> {
+  if (currentAnswers.onExisting) {
+    return onExistingOpts[currentAnswers.onExisting.toLowerCase()] as OnExistingOption;
+  }
+  if (status.value.onExisting) return status.value.onExisting;
+
+  const menuItems = [
+    onExistingOpts.skip,
+    onExistingOpts.overwrite,
+    onExistingOpts.merge
+  ];
+  const choice = await displayMenu(
+    `Output file '${outputFile}' already exists!\n\nIf you \x1b[1m${onExistingOpts.skip}\x1b[0m, the existing file will not be modified and this profile will not be converted.\n\nIf you \x1b[1m${onExistingOpts.overwrite}\x1b[0m it, the file will be replaced with the contents of this converted profile.\n\nIf you \x1b[1m${onExistingOpts.merge}\x1b[0m, the file will be amended to add any new key/value pairs from the source file that are not already present. Pre-existing key/value pairs will not be altered.\n\nWhat would you like to do?\n`,
+    true,
+    menuItems
+  ) as string;
+  status.value.onExisting = choice as OnExistingOption;
+  const shortChoice = Object.keys(onExistingOpts).find(key => onExistingOpts[key] === choice);
+  recordChoice(file, 'onExisting', shortChoice);
+  await askYesToAll('onExisting', file);
+  return status.value.onExisting;
+}
+
+/**
+ * Bases a converted filament or process profile on the closest OrcaSlicer system preset.
+ *
+ * @param file - The filename being processed (for display purposes)
+ * @param json - The converted profile
+ * @param iniType - The type of the converted profile
+ * @returns The profile reduced to the settings that differ from the system preset, or undefined
+ *   if no system preset matches or `--inherits none` was given
+ *
+ * @remarks
+ * Filaments are matched by filament type and vendor, processes by layer height and nozzle
+ * size; presets compatible with the system printers linked earlier in the session are
+ * preferred. OrcaSlicer then shows only the differing settings as user overrides.
+ */
+function inheritFromSystemPreset(file: string, json: NewHash, iniType: 'print' | 'filament'): NewHash | undefined {
+  if (inheritsOption === 'none') return undefined;
+  const match = matchSystemPreset(json, iniType, getSystemPresets(iniType), {
+    nozzleSize: currentAnswers.nozzleSize || status.value.nozzleSize,
+    printers: getSystemPrinters(),
+    linkedPrinters
+  });
+  const base = match && getSystemPresets(iniType).find(preset => preset.name === match.name);
+  if (!match || !base) return undefined;
+
+  const inherited = inheritSystemPreset(json, base);
+  const unchanged = Object.keys(json).filter(key => !(key in inherited)).length;
+  console.log(`${file} inherits from the system preset ${match.name} (${match.evidence.join(', ')}); ${unchanged} settings with the same value are left out`);
+  return inherited;
+}
+
+/**
+ * Rewrites references to renamed profiles in the profiles written earlier in this session.
+ *
+ * @remarks
+ * A print or filament profile written before the printer it is compatible with was converted
+ * still names that printer by its source name. Once every file has been converted, the written
+ * profiles are updated with the final rename table; profiles without such references are left
+ * untouched. Merged files are not updated, as their pre-existing values must not be altered.
+ */
+function updateRenamedReferences(): void {
+  let updated = 0;
+  for (const outputFile of writtenProfiles) {
+    const json = readJsonFile(outputFile);
+    if (applyRenames(json as NewHash, renames)) {
+      writeJsonFile(outputFile, json);
+      updated++;
+    }
+  }
+  if (updated > 0) {
+    console.log(`\n\x1b[36mUpdated references to renamed profiles in ${updated} file${updated === 1 ? '' : 's'}\x1b[0m`);
+  }
+}
+
+/**
+ * Prints the problems found while parsing an INI file.
+ *
+ * @param file - The name of the file, shown before each line number
+ * @param diagnostics - The diagnostics returned by `readIniFile` or `processConfigBundle`
+ */
+function printIniDiagnostics(file: string, diagnostics: IniDiagnostic[]): void {
+  for (const { line, message } of diagnostics) {
+    console.log(`\x1b[33m${file}:${line}: ${message}\x1b[0m`);
+  }
+}
+
+/**
+ * Prints why a profile type was (or was not) detected, for --explain-detection.
+ *
+ * @param file - The current file being processed
+ * @param detection - The result of `scoreIniType`
+ */
+function explainTypeDetection(file: string, detection: IniTypeDetection): void {
+  let verdict: string;
+  if (detection.iniType) {
+    verdict = `detected ${detection.iniType} (${Math.round(detection.confidence * 100)}% confidence)`;
+  } else if (detection.ambiguous) {
+    verdict = `ambiguous between ${detection.candidates.join(' and ')}`;
+  } else {
+    verdict = 'no profile type scored high enough';
+  }
+  console.log(`\x1b[36m${file}: ${verdict}\x1b[0m`);
+
+  for (const { iniType, score, evidence } of detection.scores) {
+    const keys = evidence.slice(0, 8).map(({ key, weight }) => `${key} (${weight})`);
+    if (evidence.length > keys.length) {
+      keys.push(`${evidence.length - keys.length} more`);
+    }
+    console.log(`  ${iniType.padEnd(16)} ${String(score).padStart(4)}  ${keys.join(', ')}`);
+  }
+}
+
+/**
+ * Asks which profile type a file is when several types match about equally well.
+ *
+ * @param file - The current file being processed
+ * @param detection - The ambiguous result of `scoreIniType`
+ * @returns The chosen profile type, or undefined if the file should be skipped
+ */
+async function resolveAmbiguousType(file: string, detection: IniTypeDetection): Promise<IniType | undefined> {
+  if (currentAnswers.iniType) {
+    return currentAnswers.iniType;
+  }
+
+  const choice = await displayMenu(
+    `The settings in \x1b[1m${file}\x1b[0m match more than one profile type (${detection.candidates.join(', ')}). Which type of profile is it?\n`,
+    true,
+    [...detection.candidates.filter(isOutputIniType), 'SKIP THIS FILE']
+  ) as string;
+  if (choice === 'SKIP THIS FILE') return undefined;
+
+  const iniType = choice as OutputIniType;
+  recordChoice(file, 'iniType', iniType);
+  return iniType;
+}
+
+/**
+ * Records an interactive choice when --record-answers is in use.
+ *
+ * @param file - The current file being processed
+ * @param key - The decision that was made
+ * @param value - The chosen value
+ */
+function recordChoice<K extends keyof Answers>(file: string, key: K, value: Answers[K]): void {
+  if (recordedAnswers && value !== undefined) {
+    recordAnswer(recordedAnswers, file, key, value);
+  }
+}
+
+/**
+ * Converts OrcaSlicer JSON profiles back to PrusaSlicer or SuperSlicer INI files.
+ *
+ * @param inputPatterns - Input file patterns or directories from --input
+ * @param slicerFlavor - The slicer the INI files are intended for
+ *
+ * @remarks
+ * Output files are written to `[outdir]/[type]/[name].ini`, which mirrors the PrusaSlicer and
+ * SuperSlicer configuration directory layout. Keys that cannot be converted back are recorded
+ * in the conversion report rather than silently dropped.
+ */
+async function runReverseConversion(inputPatterns: string[], slicerFlavor: IniSlicerFlavor): Promise<void> {
+  const inputFiles: string[] = [];
+  for (const pattern of inputPatterns) {
+    if (isDirectory(pattern)) {
+      inputFiles.push(...getChildren(pattern, /\.json$/));
+      continue;
+    }
+    const matches = await glob(pattern);
+    for (const match of matches) {
+      if (!isFile(match)) {
+        console.log(`Cannot find ${match}`);
+        continue;
+      }
+      if (!match.endsWith('.json')) {
+        console.log(`${match} is not a .json file!`);
+        continue;
+      }
+      inputFiles.push(match);
+    }
+  }
+
+  for (let index = 0; index < inputFiles.length; index++) {
+    status.iterationsLeft = inputFiles.length - (index + 1);
+
+    const inputFile = inputFiles[index];
+    const file = getBasename(inputFile, '.json');
+    currentAnswers = resolveAnswers(answersFile, [file]);
+
+    let json: Record<string, unknown>;
+    try {
+      json = readJsonFile(inputFile);
+    } catch (e) {
+      logFileStatus(inputFile, undefined, 'OrcaSlicer', 'NO', 'Invalid JSON');
+      continue;
+    }
+
+    status.iniType = detectJsonType(json);
+    if (!status.iniType) {
+      status.iniType = 'unsupported';
+      logFileStatus(inputFile, undefined, 'OrcaSlicer', 'NO', 'Unsupported file');
+      continue;
+    }
+
+    const { ini, unmapped, lossy } = convertJsonToIni(json, status.iniType, slicerFlavor);
+    currentReport = {
+      unmapped,
+      passthrough: lossy.map(parameter => ({ parameter, value: String(json[parameter] ?? '') })),
+      specialCases: []
+    };
+
+    const outputSubdir = joinPath(status.dirs.output!, status.iniType);
+    prepareOutputDirectory(outputSubdir);
+    const outputFile = joinPath(outputSubdir, `${file}.ini`);
+
+    let onExisting: OnExistingOption | undefined;
+    let existingIni: SourceIni | undefined;
+    if (fileExists(outputFile)) {
+      onExisting = await resolveOnExisting(outputFile, file);
+      existingIni = readIniFile(outputFile).config;
+
+      if (onExisting === onExistingOpts.skip) {
+        if (status.dryRun) printDryRunPreview(outputFile, ini, existingIni, onExisting);
+        logFileStatus(inputFile, outputFile, 'OrcaSlicer', 'NO', 'Target file exists');
+        continue;
+      } else if (onExisting === onExistingOpts.merge) {
+        Object.assign(ini, existingIni);
+      }
+    }
+
+    if (status.dryRun) {
+      printDryRunPreview(outputFile, ini, existingIni, onExisting);
+    } else {
+      writeIniFile(outputFile, ini, `# generated by ${slicerFlavor} (converted from OrcaSlicer)`);
+    }
+
+    const success = (onExisting === onExistingOpts.merge) ? 'MERGED' : 'YES';
+    logFileStatus(inputFile, outputFile, 'OrcaSlicer', success);
+  }
+}
+
+/**
+ * Converts a PrusaSlicer or SuperSlicer vendor bundle into an OrcaSlicer vendor profile set.
+ *
+ * @param filePath - The vendor bundle INI from --convert-vendor
+ *
+ * @remarks
+ * Files are written below `[outdir]`, laid out like OrcaSlicer's `resources/profiles` folder.
+ * Existing files are overwritten, since a vendor profile set is only consistent as a whole.
+ * In dry-run mode the files are listed instead.
+ */
+async function runVendorConversion(filePath: string): Promise<void> {
+  let conversion;
+  try {
+    conversion = await convertVendorBundle(filePath, { targetVersion });
+  } catch (e) {
+    console.error(`Cannot convert vendor bundle ${filePath}: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
+  }
+
+  for (const file of conversion.files) {
+    const outputFile = joinPath(status.dirs.output!, file.path);
+    if (status.dryRun) {
+      console.log(`\x1b[36m${outputFile}\x1b[0m`);
+    } else {
+      writeJsonFile(outputFile, file.json);
+    }
+  }
+  for (const warning of conversion.warnings) {
+    console.log(`\x1b[33mWarning: ${warning}\x1b[0m`);
+  }
+
+  const presetCount = conversion.files.filter(file => file.json['type'] !== 'machine_model').length - 1;
+  console.log(
+    `\n${status.dryRun ? 'Would convert' : 'Converted'} ${presetCount} presets of ${conversion.vendor} ` +
+      `to ${joinPath(status.dirs.output!, conversion.files[0].path)}`
+  );
+}
+
+/**
+ * Writes the per-file conversion reports to a machine-readable JSON file.
+ *
+ * @param filePath - The path of the report file to write
+ *
+ * @remarks
+ * Every file attempted in this session is listed, including files that failed or were
+ * skipped. Only converted files carry `unmapped`, `passthrough` and `specialCases` lists.
+ */
+function writeConversionReport(filePath: string): void {
+  const files = Object.entries(convertedFiles).flatMap(([fileType, fileList]) =>
+    fileList.map(file => ({
+      inputFile: file.inputFile,
+      inputDir: file.inputDir,
+      outputFile: file.outputFile,
+      outputDir: file.outputDir,
+      type: fileType.toLowerCase(),
+      slicerFlavor: file.slicerFlavor,
+      slicerVersion: file.slicerVersion,
+      flavorConfidence: file.flavorConfidence,
+      typeConfidence: file.typeConfidence,
+      success: file.success,
+      error: file.error,
+      ...file.report
+    }))
+  );
+  writeJsonFile(filePath, { generated: new Date().toISOString(), files });
+}
+
+/**
+ * Marks the profiles collected for a preset bundle as not converted, when the bundle cannot be written.
+ *
+ * @param outputFile - The preset bundle the profiles were collected for
+ * @param error - The reason the bundle was not written
+ *
+ * @remarks
+ * Also sets a non-zero exit code, since the requested bundle was not produced.
+ */
+function markBundleFailed(outputFile: string, error: string): void {
+  for (const files of Object.values(convertedFiles)) {
+    for (const file of files) {
+      if (file.success === 'YES' && file.outputFile === getBasename(outputFile) && file.outputDir === getDirname(outputFile)) {
+        file.success = 'NO';
+        file.error = error;
+      }
+    }
+  }
+  process.exitCode = 1;
+}
+
 /**
  * Displays a comprehensive conversion summary with statistics and file details.
  *
@@ -439,13 +1079,52 @@ async function linkSystemPrinter(file: string): Promise<Record<string, string>>
  * - Source slicer breakdown
  * - Directory information (where files are located)
  * - Profile type breakdown
+ * - Per-file report of dropped keys, passthrough values and special cases
  *
- * Exits the process after displaying the summary.
+ * Also writes the conversion report sidecar file and any recorded answers, unless this is a dry run.
+ * Callers exit the process after displaying the summary.
  */
 export async function exitWithConversionSummary(): Promise<void> {
+  if (status.dryRun) {
+    console.log('\n\x1b[1;33mDry run: no files were written.\x1b[0m');
+  } else if (recordedAnswers && recordAnswersPath) {
+    writeAnswersFile(recordAnswersPath, recordedAnswers);
+    console.log(`\n\x1b[36mRecorded answers saved to ${recordAnswersPath}\x1b[0m`);
+  }
+
+  if (bundlePath && bundledProfiles.length > 0) {
+    for (const profile of bundledProfiles) {
+      applyRenames(profile.json, renames);
+    }
+    try {
+      if (status.dryRun) {
+        const files = buildPresetBundle(bundleTypes[path.extname(bundlePath).toLowerCase()], bundledProfiles, '');
+        console.log(`\n\x1b[36mWould write preset bundle ${bundlePath}:\x1b[0m`);
+        for (const file of files) {
+          console.log(`  ${file.name}`);
+        }
+      } else {
+        writePresetBundle(bundlePath, bundledProfiles);
+        console.log(`\n\x1b[36mPreset bundle saved to ${bundlePath}\x1b[0m`);
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`\n\x1b[31mCannot write preset bundle ${bundlePath}: ${message}\x1b[0m`);
+      markBundleFailed(bundlePath, `Preset bundle not written: ${message}`);
+    }
+  } else if (bundlePath) {
+    // Nothing was converted, so the requested bundle was not produced either
+    process.exitCode = 1;
+  }
+
+  if (reportPath && !status.dryRun && Object.keys(convertedFiles).length > 0) {
+    writeConversionReport(reportPath);
+    console.log(`\n\x1b[36mConversion report saved to ${reportPath}\x1b[0m`);
+  }
+
   if (Object.keys(convertedFiles).length === 0) {
     console.log('\n\x1b[33mNo files were converted.\x1b[0m');
-    process.exit(0);
+    return;
   }
 
   // Calculate statistics
@@ -486,8 +1165,8 @@ export async function exitWithConversionSummary(): Promise<void> {
     const files = convertedFiles[fileType];
     if (files.length === 0) continue;
 
-    const tableHead: string[] = ['Source File\nGenerated By', `${fileType} Profile Name`, 'Converted?', 'Error'];
-    const tableColWidths: number[] = [12, 40, 10, 0];
+    const tableHead: string[] = ['Source File\nGenerated By', `${fileType} Profile Name`, 'Converted?', 'Error', 'Dropped\nKeys', 'Passthrough\nValues'];
+    const tableColWidths: number[] = [12, 40, 10, 0, 9, 13];
 
     if (fileType === 'Printer') {
       tableHead.push('Imported Physical\nPrinter Data');
@@ -500,12 +1179,16 @@ export async function exitWithConversionSummary(): Promise<void> {
     });
 
     for (const file of files) {
-      const itemName = getBasename(file.inputFile, '.ini');
+      const itemName = getBasename(file.inputFile, path.extname(file.inputFile));
       const row: string[] = [
-        file.slicerFlavor,
+        file.flavorConfidence !== undefined
+          ? `${file.slicerFlavor}\n${Math.round(file.flavorConfidence * 100)}% guess`
+          : file.slicerVersion ? `${file.slicerFlavor}\n${file.slicerVersion}` : file.slicerFlavor,
         itemName,
         file.success,
-        file.error
+        file.error,
+        file.report ? String(file.report.unmapped.length) : '',
+        file.report ? String(file.report.passthrough.length) : ''
       ];
       if (fileType === 'Printer') {
         row.push(file.physicalPrinterFile || 'None');
@@ -517,9 +1200,46 @@ export async function exitWithConversionSummary(): Promise<void> {
     console.log(table.toString());
   }
 
+  // Display per-file conversion reports
+  const reportedFiles = Object.values(convertedFiles)
+    .flat()
+    .filter(file => file.report && (
+      file.report.unmapped.length > 0
+      || file.report.passthrough.length > 0
+      || Object.keys(file.report.inherited || {}).length > 0
+      || (file.report.filled || []).length > 0
+    ));
+  if (reportedFiles.length > 0) {
+    console.log('\n\x1b[1mConversion Report:\x1b[0m');
+    for (const file of reportedFiles) {
+      const report = file.report!;
+      console.log(`\n\x1b[36m${getBasename(file.inputFile, path.extname(file.inputFile))}\x1b[0m`);
+      if (report.unmapped.length > 0) {
+        console.log(`  \x1b[33mDropped keys (${report.unmapped.length}):\x1b[0m ${report.unmapped.join(', ')}`);
+      }
+      if (report.passthrough.length > 0) {
+        const values = report.passthrough.map(({ parameter, value }) => `${parameter} = ${value}`);
+        console.log(`  \x1b[33mPassthrough values (${report.passthrough.length}):\x1b[0m ${values.join(', ')}`);
+      }
+      if (report.specialCases.length > 0) {
+        console.log(`  Special cases (${report.specialCases.length}): ${report.specialCases.join(', ')}`);
+      }
+      const parents: { [parent: string]: string[] } = {};
+      for (const [parameter, parent] of Object.entries(report.inherited || {})) {
+        (parents[parent] = parents[parent] || []).push(parameter);
+      }
+      for (const [parent, parameters] of Object.entries(parents)) {
+        console.log(`  Inherited from ${parent} (${parameters.length}): ${parameters.join(', ')}`);
+      }
+      if (report.filled && report.filled.length > 0) {
+        console.log(`  Filled from the baseline template (${report.filled.length}): ${report.filled.join(', ')}`);
+      }
+    }
+  }
+
   // Display statistics summary
   console.log('\n\x1b[1;32m═══════════════════════════════════════════════════════════\x1b[0m');
-  console.log('\x1b[1;32m                    CONVERSION STATISTICS\x1b[0m');
+  console.log(`\x1b[1;32m                    CONVERSION STATISTICS${status.dryRun ? ' (DRY RUN)' : ''}\x1b[0m`);
   console.log('\x1b[1;32m═══════════════════════════════════════════════════════════\x1b[0m\n');
 
   const statsTable = new Table({
@@ -601,18 +1321,31 @@ export async function exitWithConversionSummary(): Promise<void> {
  */
 async function main(): Promise<void> {
   status = initializeStatus();
+  process.on('exit', removeTempDir);
 
   const program = new Command();
   program
     .name('superslicer-to-orca')
     .description('Convert PrusaSlicer and SuperSlicer INI profiles to OrcaSlicer JSON format')
-    .option('-i, --input <files...>', 'Input INI file(s)')
+    .option('-i, --input <files...>', 'Input INI, 3MF project, G-code or Cura profile file(s)')
     .option('-o, --outdir <directory>', 'Output directory')
     .option('--overwrite', 'Deprecated: use --on-existing overwrite')
     .option('--on-existing <choice>', 'Behavior when output exists: skip, merge, or overwrite')
     .option('--nozzle-size <size>', 'Nozzle size in mm')
     .option('--physical-printer <file>', 'Physical printer INI file')
+    .option('--inherits <printer>', 'OrcaSlicer system printer to inherit from: auto, none or a printer name')
     .option('--force-output', 'Force output to specified directory')
+    .option('--reverse <flavor>', 'Convert OrcaSlicer JSON back to INI: prusaslicer or superslicer')
+    .option('--answers <file>', 'JSON or YAML file supplying answers to interactive prompts')
+    .option('--record-answers <file>', 'Save the choices made in this session to a JSON or YAML file')
+    .option('--bundle <file>', 'Package the converted profiles as an OrcaSlicer preset bundle')
+    .option('--report <file>', 'Write the conversion report to this file')
+    .option('--dry-run', 'Run the conversion without writing any files')
+    .option('--explain-detection', 'Show why each file was detected as a print, filament or printer profile')
+    .option('--convert-vendor <file>', 'Convert a vendor bundle INI into an OrcaSlicer vendor profile set')
+    .option('--target-version <version>', 'OrcaSlicer version to convert for (default: newest supported)')
+    .option('--name-template <template>', 'Name converted profiles after a template, e.g. "PS - {name}"')
+    .option('--vendor-dir <directories...>', 'Directories holding vendor bundles for resolving inherited presets')
     .option('-h, --help', 'Display help')
     .parse(process.argv);
 
@@ -649,9 +1382,59 @@ async function main(): Promise<void> {
   if (options.physicalPrinter) {
     status.value.physicalPrinter = options.physicalPrinter;
   }
+  if (options.inherits !== undefined) {
+    const choice = String(options.inherits).trim();
+    inheritsOption = ['auto', 'none'].includes(choice.toLowerCase()) ? choice.toLowerCase() : choice;
+  }
   if (options.forceOutput) {
     status.forceOut = true;
   }
+  if (options.dryRun) {
+    status.dryRun = true;
+  }
+  if (options.explainDetection) {
+    explainDetection = true;
+  }
+  if (options.vendorDir) {
+    vendorDirs = options.vendorDir;
+  }
+  if (options.targetVersion) {
+    targetVersion = normalizeOrcaVersion(String(options.targetVersion));
+    if (!targetVersion) {
+      console.error(`Invalid value for --target-version: ${options.targetVersion}. Supported versions are ${supportedOrcaVersions.oldest} to ${supportedOrcaVersions.newest}.`);
+      process.exit(1);
+    }
+  }
+  if (options.nameTemplate !== undefined) {
+    nameTemplate = String(options.nameTemplate);
+    try {
+      if (!formatProfileName(nameTemplate, 'Profile', undefined, 'print')) {
+        throw new Error('The name template is empty');
+      }
+    } catch (e) {
+      console.error(`Invalid value for --name-template: ${e instanceof Error ? e.message : String(e)}.`);
+      process.exit(1);
+    }
+  }
+  if (options.bundle) {
+    bundlePath = String(options.bundle);
+    if (!bundleTypes[path.extname(bundlePath).toLowerCase()]) {
+      console.error(`Invalid value for --bundle: ${options.bundle}. The file must end in ${Object.keys(bundleTypes).join(' or ')}.`);
+      process.exit(1);
+    }
+  }
+  if (options.answers) {
+    try {
+      answersFile = readAnswersFile(options.answers);
+    } catch (e) {
+      console.error(`Cannot read answers file ${options.answers}: ${e instanceof Error ? e.message : e}`);
+      process.exit(1);
+    }
+  }
+  if (options.recordAnswers) {
+    recordAnswersPath = options.recordAnswers;
+    recordedAnswers = { defaults: {}, profiles: {} };
+  }
 
   // Set default output directory to current working directory
   if (!status.dirs.output) {
@@ -660,18 +1443,44 @@ async function main(): Promise<void> {
     status.dirs.output = joinPath(cwd, outputFolderName);
 
     // Create the output directory if it doesn't exist
-    if (!fs.existsSync(status.dirs.output)) {
+    if (!status.dryRun && !fs.existsSync(status.dirs.output)) {
       fs.mkdirSync(status.dirs.output, { recursive: true });
       console.log(`\x1b[36mCreated output directory: ${status.dirs.output}\x1b[0m\n`);
     }
   } else {
     // --outdir was specified
     // Create it if it doesn't exist
-    if (!fs.existsSync(status.dirs.output)) {
+    if (!status.dryRun && !fs.existsSync(status.dirs.output)) {
       fs.mkdirSync(status.dirs.output, { recursive: true });
     }
   }
 
+  reportPath = options.report;
+
+  if (options.convertVendor) {
+    await runVendorConversion(String(options.convertVendor));
+    return;
+  }
+
+  if (options.reverse) {
+    const reverseFlavors: { [key: string]: IniSlicerFlavor } = {
+      prusaslicer: 'PrusaSlicer',
+      superslicer: 'SuperSlicer'
+    };
+    const slicerFlavor = reverseFlavors[String(options.reverse).toLowerCase()];
+    if (!slicerFlavor) {
+      console.error(`Invalid value for --reverse: ${options.reverse}. Valid values are 'prusaslicer' and 'superslicer'.`);
+      process.exit(1);
+    }
+    if (inputFiles.length === 0) {
+      console.error('The --reverse option requires OrcaSlicer JSON files to be specified with --input.');
+      process.exit(1);
+    }
+    await runReverseConversion(inputFiles, slicerFlavor);
+    await exitWithConversionSummary();
+    return;
+  }
+
   // Determine what to convert if not specified
   let expandedInputFiles: string[] = [];
 
@@ -679,17 +1488,20 @@ async function main(): Promise<void> {
     status.interactiveMode = true;
     const dataDir = status.dirs.data;
     const children = fs.readdirSync(dataDir, { withFileTypes: true });
-    const sourceSlicers = children
+    // Every supported slicer except Cura, whose profiles are not INI files
+    const iniSlicers = sourceSlicers.filter(slicer => slicer.base !== 'Cura');
+    const slicerDirs = children
       .filter(dirent => dirent.isDirectory())
       .map(dirent => dirent.name)
-      .filter(name => /PrusaSlicer|SuperSlicer/.test(name));
+      .filter(name => iniSlicers.some(slicer => slicer.header.test(name)));
 
-    if (sourceSlicers.length === 0) {
-      console.error(`No PrusaSlicer or SuperSlicer directories detected in ${dataDir}.\n\nPlease verify the location of the files you wish to convert and specify them with the --input option if necessary.`);
+    if (slicerDirs.length === 0) {
+      const slicerNames = iniSlicers.map(slicer => slicer.flavor);
+      console.error(`No ${slicerNames.slice(0, -1).join(', ')} or ${slicerNames[slicerNames.length - 1]} directories detected in ${dataDir}.\n\nPlease verify the location of the files you wish to convert and specify them with the --input option if necessary.`);
       process.exit(1);
     }
 
-    const slicerChoice = await displayMenu('Which slicer do you want to import from?\n', true, sourceSlicers) as string;
+    const slicerChoice = await displayMenu('Which slicer do you want to import from?\n', true, slicerDirs) as string;
     status.dirs.slicer = joinPath(dataDir, slicerChoice);
 
     const configTypes = ['filament', 'print', 'printer'].filter(type => {
@@ -723,18 +1535,43 @@ async function main(): Promise<void> {
             console.log(`Cannot find ${match}`);
             continue;
           }
+          if (/\.(?:3mf|b?gcode)$/i.test(match)) {
+            // Split the config embedded in the project or G-code into print, filament and printer profiles
+            try {
+              expandedInputFiles.push(...extractEmbeddedProfiles(match, joinPath(getTempDir(), 'projects')));
+            } catch (e) {
+              console.log(`${match}: ${e instanceof Error ? e.message : String(e)}`);
+            }
+            continue;
+          }
+          if (/\.(?:inst\.cfg|curaprofile)$/i.test(match)) {
+            // Split the Cura profile into print, filament and printer profiles
+            try {
+              expandedInputFiles.push(...extractCuraProfiles(match, joinPath(getTempDir(), 'cura')));
+            } catch (e) {
+              console.log(`${match}: ${e instanceof Error ? e.message : String(e)}`);
+            }
+            continue;
+          }
           if (!match.endsWith('.ini')) {
-            console.log(`${match} is not a .ini file!`);
+            console.log(`${match} is not a .ini, .3mf, .gcode, .bgcode, .inst.cfg or .curaprofile file!`);
             continue;
           }
           // Check if it's a config bundle
           if (isConfigBundle(match)) {
-            // Create temp directory
-            const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orca-convert-'));
-            status.dirs.temp = tempDir;
+            // Split the bundle into its own subdirectory of the session's temp directory
+            const tempDir = fs.mkdtempSync(joinPath(getTempDir(), 'bundle-'));
             status.dirs.slicer = tempDir;
-            const { files } = processConfigBundle(match, tempDir);
+            const { files, diagnostics } = processConfigBundle(match, tempDir);
+            printIniDiagnostics(getBasename(match), diagnostics);
             expandedInputFiles.push(...files);
+            continue;
+          }
+          const { config, diagnostics } = readIniFile(match);
+          if (isFullConfig(config)) {
+            // Split an "Export Config" file into print, filament and printer profiles
+            printIniDiagnostics(getBasename(match), diagnostics);
+            expandedInputFiles.push(...extractFullConfigProfiles(match, joinPath(getTempDir(), 'configs')));
           } else {
             expandedInputFiles.push(match);
           }
@@ -754,12 +1591,26 @@ async function main(): Promise<void> {
     const file = getBasename(inputFile, '.ini');
 
     // Read INI file
-    const { config: sourceIni, slicerFlavor } = readIniFile(inputFile);
+    const { config: sourceIni, slicerFlavor, slicerVersion, diagnostics } = readIniFile(inputFile);
+    printIniDiagnostics(file, diagnostics);
+    currentAnswers = resolveAnswers(answersFile, [file, sourceIni['profile_name']]);
     if (slicerFlavor) {
       status.slicerFlavor = slicerFlavor;
+      status.slicerVersion = slicerVersion;
       if (!status.dirs.slicer) {
         status.dirs.slicer = joinPath(status.dirs.data, slicerFlavor);
       }
+    } else {
+      // Without a header, guess the slicer from its distinctive keys. A guess without any
+      // distinctive keys only applies when no earlier file told us the slicer.
+      const guess = guessSlicerFlavor(sourceIni);
+      if (guess && (guess.evidence.length > 0 || !status.slicerFlavor)) {
+        status.slicerFlavor = guess.flavor;
+        status.slicerVersion = undefined;
+        flavorConfidence = guess.confidence;
+        const reason = guess.evidence.length > 0 ? `keys ${guess.evidence.join(', ')}` : 'no distinctive keys';
+        console.log(`\x1b[33m${file}: no slicer header found; guessed ${guess.flavor} from ${reason} (${Math.round(guess.confidence * 100)}% confidence)\x1b[0m`);
+      }
     }
 
     if (!status.slicerFlavor) {
@@ -767,7 +1618,22 @@ async function main(): Promise<void> {
       continue;
     }
 
-    status.iniType = status.iniType || detectIniType(sourceIni);
+    if (!status.iniType) {
+      const detection = scoreIniType(sourceIni);
+      if (explainDetection) {
+        explainTypeDetection(file, detection);
+      }
+      typeConfidence = detection.iniType ? detection.confidence : undefined;
+      status.iniType = detection.iniType
+        || (sourceIni['inherits'] ? detectInheritedType(sourceIni, getVendorBundles()) : undefined);
+      if (!status.iniType && detection.ambiguous) {
+        status.iniType = await resolveAmbiguousType(file, detection);
+        if (!status.iniType) {
+          logFileStatus(inputFile, undefined, status.slicerFlavor, 'NO', `Ambiguous profile type (${detection.candidates.join(' or ')})`);
+          continue;
+        }
+      }
+    }
     if (!status.iniType) {
       status.iniType = 'unsupported';
       logFileStatus(inputFile, undefined, status.slicerFlavor, 'NO', 'Unsupported file');
@@ -802,13 +1668,11 @@ async function main(): Promise<void> {
     }
 
     // Create the output subdirectory if it doesn't exist
-    if (!fs.existsSync(outputSubdir)) {
-      fs.mkdirSync(outputSubdir, { recursive: true });
+    if (!bundlePath) {
+      prepareOutputDirectory(outputSubdir);
     }
 
-    checkOutputDirectory(outputSubdir);
-
-    const outputFile = joinPath(outputSubdir, `${file}.json`);
+    let outputFile = joinPath(outputSubdir, `${file}.json`);
 
     // Handle nozzle size
     if (sourceIni['nozzle_diameter']) {
@@ -818,7 +1682,7 @@ async function main(): Promise<void> {
       }
     }
 
-    if (!status.value.nozzleSize && status.iniType === 'print') {
+    if (!status.value.nozzleSize && !currentAnswers.nozzleSize && status.iniType === 'print' && status.slicerFlavor !== 'Cura') {
       const nozzleInput = await askInput(
         'Nozzle size: ',
         `Enter the nozzle size (in mm) of the nozzle intended to be used with the \x1b[1m${file}\x1b[0m profile (e.g. 0.4). Press <ENTER> when done.\n`,
@@ -827,146 +1691,121 @@ async function main(): Promise<void> {
       const cleaned = nozzleInput.replace(/[^\d.]/g, '');
       if (cleaned) {
         status.value.nozzleSize = parseFloat(cleaned);
+        recordChoice(file, 'nozzleSize', status.value.nozzleSize);
       }
       await askYesToAll('nozzleSize', file);
-
-      if (!status.value.nozzleSize) {
-        const layerHeight = sourceIni['layer_height'];
-        if (!layerHeight) {
-          logFileStatus(inputFile, outputFile, status.slicerFlavor, 'NO', 'Invalid layer height');
-          continue;
-        }
-        status.value.nozzleSize = 2 * parseFloat(layerHeight);
-      }
-    }
-
-    // Process parameters
-    newHash = {};
-    if (!isValidIniType(status.iniType)) {
-      logFileStatus(inputFile, undefined, status.slicerFlavor, 'NO', 'Invalid ini type');
-      continue;
     }
 
-    const typeMap = parameterMap[status.iniType];
-    if (!typeMap) {
-      logFileStatus(inputFile, undefined, status.slicerFlavor, 'NO', 'No parameter map for ini type');
-      continue;
-    }
-
-    for (const parameter of Object.keys(sourceIni)) {
-      if (parameter === 'profile_name') {
-        status.profileName = sourceIni[parameter];
-        continue;
-      }
+    await resolveCompatibleConditions(sourceIni, file);
 
-      if (!(parameter in typeMap)) {
-        continue;
+    let inherits: string | undefined;
+    let physicalPrinterIni: SourceIni | undefined;
+    if (status.iniType === 'printer') {
+      inherits = (await linkSystemPrinter(file, sourceIni)).inherits;
+      if (inherits) linkedPrinters.push(inherits);
+      if (status.slicerFlavor !== 'Cura') {
+        physicalPrinterIni = await handlePhysicalPrinter(inputFile);
       }
+    }
 
-      const newValue = await convertParams(parameter, file, sourceIni, status, newHash);
-      if (!newValue) continue;
-
-      const mappedKey = typeMap[parameter];
-      if (Array.isArray(mappedKey)) {
-        // Already handled in convertParams
-        continue;
+    // Convert the profile
+    try {
+      const result = await convertProfile(sourceIni, {
+        iniType: status.iniType,
+        slicerFlavor: status.slicerFlavor,
+        slicerVersion: status.slicerVersion,
+        profileName: file,
+        nameTemplate,
+        nozzleSize: currentAnswers.nozzleSize || status.value.nozzleSize,
+        compatiblePrintersCondition: currentAnswers.compatiblePrintersCondition || status.value.compatiblePrintersCondition,
+        compatiblePrintsCondition: currentAnswers.compatiblePrintsCondition || status.value.compatiblePrintsCondition,
+        inherits,
+        physicalPrinterIni,
+        vendorBundles: sourceIni['inherits'] ? getVendorBundles() : undefined,
+        targetVersion,
+        // Processes and filaments are filled in below if no system preset matches them
+        fillMissing: status.iniType === 'printer' ? undefined : false
+      });
+      newHash = result.json;
+      currentReport = result.report;
+      if (nameTemplate) {
+        outputFile = joinPath(outputSubdir, `${sanitizeFilename(result.profileName)}.json`);
       }
-      if (typeof mappedKey === 'string') {
-        // Handle compatible_printers and compatible_prints - convert semicolon-separated strings to arrays
-        if ((mappedKey === 'compatible_printers' || mappedKey === 'compatible_prints') && typeof newValue === 'string') {
-          const printers = multivalueToArray(newValue);
-          newHash[mappedKey] = printers.length > 0 ? printers : [];
-        } else {
-          newHash[mappedKey] = newValue;
-        }
+      recordRename(
+        renames,
+        result.iniType,
+        [sourceIni['profile_name'], sourceIni[`${result.iniType}_settings_id`], file],
+        result.profileName
+      );
+      for (const warning of result.warnings) {
+        console.log(`\x1b[33m${file}: ${warning}\x1b[0m`);
       }
+    } catch (e) {
+      logFileStatus(inputFile, undefined, status.slicerFlavor, 'NO', e instanceof Error ? e.message : String(e));
+      continue;
+    }
 
-      // Track max temperature
-      if ((parameter === 'first_layer_temperature' || parameter === 'temperature') && typeof newValue === 'string') {
-        const temp = parseFloat(newValue);
-        if (temp > status.maxTemp) {
-          status.maxTemp = temp;
-        }
+    if (status.iniType === 'print' || status.iniType === 'filament') {
+      const inherited = inheritFromSystemPreset(file, newHash, status.iniType);
+      if (inherited) {
+        newHash = inherited;
+      } else if (currentReport) {
+        // Standalone profiles get the settings OrcaSlicer requires from the baseline template
+        currentReport.filled = fillFromBaseline(newHash, status.iniType, targetVersion || ORCA_SLICER_VERSION);
       }
     }
 
-    const profileName = status.profileName || file;
-
-    // Add metadata
-    newHash[`${status.iniType}_settings_id`] = profileName;
-    newHash['name'] = profileName;
-    newHash['from'] = 'User';
-    newHash['is_custom_defined'] = '1';
-    newHash['version'] = ORCA_SLICER_VERSION;
-
-    // Add profile-specific metadata
-    if (status.iniType === 'filament') {
-      newHash['nozzle_temperature_range_low'] = '0';
-      newHash['nozzle_temperature_range_high'] = String(status.maxTemp);
-      if (sourceIni['slowdown_below_layer_time']) {
-        newHash['slow_down_for_layer_cooling'] = parseFloat(sourceIni['slowdown_below_layer_time']) > 0 ? '1' : '0';
-      }
-      // Ensure compatible_printers is always present for filament profiles
-      // OrcaSlicer requires this field to be present (as an array), even if empty
-      // An empty array makes the filament compatible with all printers
-      if (!('compatible_printers' in newHash)) {
-        newHash['compatible_printers'] = [];
-      } else if (!Array.isArray(newHash['compatible_printers'])) {
-        // Should not happen due to conversion above, but ensure it's an array
-        newHash['compatible_printers'] = [];
-      }
-    } else if (status.iniType === 'print') {
-      await calculatePrintParams(sourceIni, status, newHash);
-    } else if (status.iniType === 'printer') {
-      const inherits = await linkSystemPrinter(file);
-      const physPrinterData = await handlePhysicalPrinter(inputFile);
-      Object.assign(newHash, physPrinterData, inherits);
+    // Collect the profile for the preset bundle, which is written once all files are converted
+    if (bundlePath) {
+      bundledProfiles.push({ iniType: status.iniType as OutputIniType, json: newHash });
+      logFileStatus(inputFile, bundlePath, status.slicerFlavor, 'YES');
+      continue;
     }
 
+    // References to profiles converted so far use their new names; pre-existing values of a merged file are kept
+    applyRenames(newHash, renames);
+
     // Handle existing file
+    let onExisting: OnExistingOption | undefined;
+    let existingJson: Record<string, unknown> | undefined;
     if (fileExists(outputFile)) {
-      if (!status.value.onExisting) {
-        const menuItems = [
-          onExistingOpts.skip,
-          onExistingOpts.overwrite,
-          onExistingOpts.merge
-        ];
-        const choice = await displayMenu(
-          `Output file '${outputFile}' already exists!\n\nIf you \x1b[1m${onExistingOpts.skip}\x1b[0m, the existing file will not be modified and this profile will not be converted.\n\nIf you \x1b[1m${onExistingOpts.overwrite}\x1b[0m it, the file will be replaced with the contents of this converted profile.\n\nIf you \x1b[1m${onExistingOpts.merge}\x1b[0m, the file will be amended to add any new key/value pairs from the source .ini that are not already present. Pre-existing key/value pairs will not be altered.\n\nWhat would you like to do?\n`,
-          true,
-          menuItems
-        ) as string;
-        status.value.onExisting = choice as OnExistingOption;
-        await askYesToAll('onExisting', file);
-      }
+      onExisting = await resolveOnExisting(outputFile, file);
+      existingJson = readJsonFile(outputFile);
 
-      if (status.value.onExisting === onExistingOpts.skip) {
+      if (onExisting === onExistingOpts.skip) {
+        if (status.dryRun) printDryRunPreview(outputFile, newHash, existingJson, onExisting);
         logFileStatus(inputFile, outputFile, status.slicerFlavor, 'NO', 'Target file exists');
         continue;
-      } else if (status.value.onExisting === onExistingOpts.merge) {
-        const existingJson = readJsonFile(outputFile);
+      } else if (onExisting === onExistingOpts.merge) {
         Object.assign(newHash, existingJson);
       }
     }
 
-    // Write output
-    writeJsonFile(outputFile, newHash);
+    // Write output; merged files are not revisited, so their pre-existing values stay unaltered
+    if (status.dryRun) {
+      printDryRunPreview(outputFile, newHash, existingJson, onExisting);
+    } else {
+      writeJsonFile(outputFile, newHash);
+      if (onExisting !== onExistingOpts.merge) writtenProfiles.push(outputFile);
+    }
 
-    const success = (status.value.onExisting === onExistingOpts.merge) ? 'MERGED' : 'YES';
+    const success = (onExisting === onExistingOpts.merge) ? 'MERGED' : 'YES';
     logFileStatus(inputFile, outputFile, status.slicerFlavor, success);
   }
 
+  updateRenamedReferences();
   await exitWithConversionSummary();
-
-  // Cleanup temp directory if it exists
-  if (status.dirs.temp && fs.existsSync(status.dirs.temp)) {
-    fs.rmSync(status.dirs.temp, { recursive: true, force: true });
-  }
 }
 
-// Run main
-main().catch(err => {
-  console.error('Error:', err);
-  process.exit(1);
-});
+// Library API
+export { convertProfile, initializeStatus } from './converter';
+export type { ConvertProfileOptions, ConvertProfileResult, SourceIni, NewHash } from './types';
+
+// Run main when executed as a command-line tool
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Error:', err);
+    process.exit(1);
+  });
+}
 
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { loadVendorBundles, resolveInherits, detectInheritedType } from './inheritance';
+import type { VendorBundle } from './types';
+
+describe('inheritance', () => {
+  let tempDir: string;
+  let bundles: VendorBundle[];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    fs.writeFileSync(path.join(tempDir, 'PrusaResearch.ini'), `[vendor]
+name = Prusa Research
+
+[print:*common*]
+layer_height = 0.2
+perimeters = 2
+fill_density = 15%
+
+[print:*MK4*]
+fill_density = 20%
+infill_speed = 200
+
+[print:0.20mm QUALITY @MK4]
+inherits = *common*; *MK4*
+perimeters = 3
+
+[printer:Original Prusa MK4]
+nozzle_diameter = 0.4
+`);
+    fs.writeFileSync(path.join(tempDir, 'Other.ini'), `[print:*common*]
+layer_height = 0.3
+`);
+    bundles = loadVendorBundles([tempDir]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadVendorBundles', () => {
+    it('should load one bundle per file with its vendor name', () => {
+      const prusa = bundles.find(bundle => bundle.vendor === 'Prusa Research');
+      expect(bundles).toHaveLength(2);
+      expect(prusa?.presets.print?.['*MK4*']).toEqual({ fill_density: '20%', infill_speed: '200' });
+      expect(prusa?.presets.printer?.['Original Prusa MK4']).toEqual({ nozzle_diameter: '0.4' });
+    });
+  });
+
+  describe('resolveInherits', () => {
+    it('should flatten the chain with later parents and own values winning', () => {
+      const { config, origins, unresolved } = resolveInherits(
+        { inherits: '0.20mm QUALITY @MK4', infill_speed: '150' },
+        'print',
+        bundles
+      );
+
+      expect(config).toEqual({
+        layer_height: '0.2',
+        perimeters: '3',
+        fill_density: '20%',
+        infill_speed: '150'
+      });
+      expect(origins).toEqual({
+        layer_height: '*common*',
+        perimeters: '0.20mm QUALITY @MK4',
+        fill_density: '*MK4*'
+      });
+      expect(unresolved).toEqual([]);
+    });
+
+    it('should resolve abstract presets within the parent\'s own bundle', () => {
+      const { config } = resolveInherits({ inherits: '"0.20mm QUALITY @MK4"' }, 'print', bundles);
+      expect(config['layer_height']).toBe('0.2');
+    });
+
+    it('should keep inherits and report parents that are not found', () => {
+      const { config, unresolved } = resolveInherits({ inherits: 'Missing Preset', perimeters: '4' }, 'print', bundles);
+      expect(config).toEqual({ inherits: 'Missing Preset', perimeters: '4' });
+      expect(unresolved).toEqual(['Missing Preset']);
+    });
+
+    it('should stop at inheritance cycles', () => {
+      const cyclic: VendorBundle[] = [{
+        vendor: 'Cyclic',
+        presets: { print: { a: { inherits: 'b', perimeters: '1' }, b: { inherits: 'a', layer_height: '0.1' } } }
+      }];
+      const { config } = resolveInherits({ inherits: 'a' }, 'print', cyclic);
+      expect(config).toEqual({ perimeters: '1', layer_height: '0.1' });
+    });
+  });
+
+  describe('detectInheritedType', () => {
+    it('should detect the type of the parent preset', () => {
+      expect(detectInheritedType({ inherits: 'Original Prusa MK4' }, bundles)).toBe('printer');
+      expect(detectInheritedType({ inherits: 'Unknown' }, bundles)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Resolution of PrusaSlicer/SuperSlicer `inherits` chains against vendor bundles.
+ *
+ * This module handles:
+ * - Loading system presets from vendor bundle INI files
+ * - Flattening a preset's inheritance chain, including abstract `*common*` presets
+ * - Recording which parent preset each inherited value came from
+ */
+
+import {
+  SourceIni,
+  OutputIniType,
+  VendorBundle
+} from './types';
+import { parseConfigBundle, getChildren, getBasename } from './fileIO';
+
+/**
+ * Result of resolving the inheritance chain of a single profile.
+ */
+export interface InheritanceResult {
+  /** The profile with all inherited values filled in */
+  config: SourceIni;
+  /** Parent preset that each inherited parameter came from */
+  origins: { [parameter: string]: string };
+  /** Parent presets that were not found in any vendor bundle */
+  unresolved: string[];
+}
+
+/** Vendor bundle section types that hold presets, in the order they are searched. */
+const presetTypes: OutputIniType[] = ['print', 'filament', 'printer'];
+
+/**
+ * Loads the system presets of a single vendor bundle.
+ *
+ * @param filePath - The path to the vendor bundle INI file
+ * @returns The bundle, named after its `[vendor]` section or, failing that, its file name
+ *
+ * @example
+ * ```ts
+ * const bundle = loadVendorBundle("vendor/PrusaResearch.ini");
+ * bundle.vendor // "Prusa Research"
+ * ```
+ */
+export function loadVendorBundle(filePath: string): VendorBundle {
+  const bundle: VendorBundle = { vendor: getBasename(filePath, '.ini'), presets: {} };
+  for (const section of parseConfigBundle(filePath)) {
+    if (section.type === 'vendor' && section.config['name']) {
+      bundle.vendor = section.config['name'];
+    } else if (presetTypes.includes(section.type as OutputIniType) && section.name) {
+      const iniType = section.type as OutputIniType;
+      const presets = bundle.presets[iniType] || (bundle.presets[iniType] = {});
+      presets[section.name] = section.config;
+    }
+  }
+  return bundle;
+}
+
+/**
+ * Loads the system presets of every vendor bundle in the given directories.
+ *
+ * @param directories - Directories containing vendor bundle INI files (e.g. PrusaSlicer's `vendor/`)
+ * @returns One bundle per INI file, in directory order
+ *
+ * @example
+ * ```ts
+ * const bundles = loadVendorBundles([path.join(dataDir, 'PrusaSlicer', 'vendor')]);
+ * bundles[0].presets.print?.['0.20mm QUALITY @MK4']
+ * ```
+ */
+export function loadVendorBundles(directories: string[]): VendorBundle[] {
+  const bundles: VendorBundle[] = [];
+  for (const directory of directories) {
+    for (const file of getChildren(directory, /\.ini$/)) {
+      bundles.push(loadVendorBundle(file));
+    }
+  }
+  return bundles;
+}
+
+/**
+ * Splits an `inherits` value into parent preset names.
+ *
+ * @param inherits - The `inherits` value, e.g. `*0.15mm*; *MK4*`
+ * @returns The parent names in order, without quotes
+ */
+export function parseInherits(inherits: string | undefined): string[] {
+  if (!inherits) return [];
+  return inherits
+    .split(';')
+    .map(name => name.trim().replace(/^"(.*)"$/, '$1'))
+    .filter(name => name !== '');
+}
+
+/**
+ * Flattens a system preset and its parents within a single vendor bundle.
+ *
+ * @param bundle - The vendor bundle containing the preset
+ * @param iniType - The profile type of the preset
+ * @param name - The preset name
+ * @param chain - Presets already being flattened (guards against inheritance cycles)
+ * @returns The flattened values and the preset each value came from
+ *
+ * @remarks
+ * Parents are applied in order, so later parents override earlier ones, and the preset's own
+ * values override all of its parents.
+ */
+function flattenPreset(
+  bundle: VendorBundle,
+  iniType: OutputIniType,
+  name: string,
+  chain: string[]
+): { config: SourceIni; origins: { [parameter: string]: string } } {
+  const preset = bundle.presets[iniType]?.[name];
+  const config: SourceIni = {};
+  const origins: { [parameter: string]: string } = {};
+  if (!preset || chain.includes(name)) {
+    return { config, origins };
+  }
+
+  for (const parent of parseInherits(preset['inherits'])) {
+    const flattened = flattenPreset(bundle, iniType, parent, [...chain, name]);
+    Object.assign(config, flattened.config);
+    Object.assign(origins, flattened.origins);
+  }
+  for (const [key, value] of Object.entries(preset)) {
+    if (key === 'inherits') continue;
+    config[key] = value;
+    origins[key] = name;
+  }
+  return { config, origins };
+}
+
+/**
+ * Finds the vendor bundle that defines a system preset.
+ *
+ * @param bundles - The vendor bundles to search
+ * @param iniType - The profile type of the preset
+ * @param name - The preset name
+ * @returns The first bundle defining the preset, or undefined if none does
+ */
+function findBundle(bundles: VendorBundle[], iniType: OutputIniType, name: string): VendorBundle | undefined {
+  return bundles.find(bundle => bundle.presets[iniType]?.[name] !== undefined);
+}
+
+/**
+ * Resolves the inheritance chain of a profile and fills in every inherited value.
+ *
+ * @param sourceIni - The parsed source INI configuration
+ * @param iniType - The profile type
+ * @param bundles - The vendor bundles containing the system presets
+ * @returns The flattened profile, the parent each inherited value came from, and any parents
+ *   that could not be found
+ *
+ * @remarks
+ * Values set in the profile itself always win over inherited values. If every parent was
+ * found, the `inherits` key is removed, since the PrusaSlicer/SuperSlicer parent names mean
+ * nothing to OrcaSlicer. Otherwise it is kept so the missing parents remain visible.
+ *
+ * @example
+ * ```ts
+ * const { config, origins } = resolveInherits(sourceIni, 'print', bundles);
+ * origins['perimeters'] // '*common*'
+ * ```
+ */
+export function resolveInherits(
+  sourceIni: SourceIni,
+  iniType: OutputIniType,
+  bundles: VendorBundle[]
+): InheritanceResult {
+  const config: SourceIni = {};
+  const origins: { [parameter: string]: string } = {};
+  const unresolved: string[] = [];
+
+  for (const parent of parseInherits(sourceIni['inherits'])) {
+    const bundle = findBundle(bundles, iniType, parent);
+    if (!bundle) {
+      unresolved.push(parent);
+      continue;
+    }
+    const flattened = flattenPreset(bundle, iniType, parent, []);
+    Object.assign(config, flattened.config);
+    Object.assign(origins, flattened.origins);
+  }
+
+  for (const key of Object.keys(sourceIni)) {
+    delete origins[key];
+  }
+  Object.assign(config, sourceIni);
+  if (unresolved.length === 0) {
+    delete config['inherits'];
+  }
+
+  return { config, origins, unresolved };
+}
+
+/**
+ * Determines a profile's type from the system preset it inherits from.
+ *
+ * @param sourceIni - The parsed source INI configuration
+ * @param bundles - The vendor bundles containing the system presets
+ * @returns The type of the first parent preset found, or undefined if none is found
+ *
+ * @remarks
+ * User presets that only contain a few overrides have too few keys for `detectIniType`.
+ */
+export function detectInheritedType(sourceIni: SourceIni, bundles: VendorBundle[]): OutputIniType | undefined {
+  for (const parent of parseInherits(sourceIni['inherits'])) {
+    for (const iniType of presetTypes) {
+      if (findBundle(bundles, iniType, parent)) {
+        return iniType;
+      }
+    }
+  }
+  return undefined;
+}
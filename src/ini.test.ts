@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { decodeIni, parseIni } from './ini';
+
+describe('ini', () => {
+  describe('decodeIni', () => {
+    it('should strip a UTF-8 byte order mark', () => {
+      const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('layer_height = 0.2', 'utf-8')]);
+      expect(decodeIni(buffer)).toEqual({ text: 'layer_height = 0.2', encoding: 'utf-8' });
+    });
+
+    it('should decode UTF-16 files with a byte order mark', () => {
+      const little = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('name = Ä', 'utf16le')]);
+      expect(decodeIni(little)).toEqual({ text: 'name = Ä', encoding: 'utf-16le' });
+
+      const big = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('name = Ä', 'utf16le').swap16()]);
+      expect(decodeIni(big)).toEqual({ text: 'name = Ä', encoding: 'utf-16be' });
+    });
+
+    it('should fall back to Latin-1 for files that are not valid UTF-8', () => {
+      const buffer = Buffer.from('layer_height = 0.2\r\nnotes = 0.4mm Düse\r\n', 'latin1');
+      expect(decodeIni(buffer)).toEqual({
+        text: 'layer_height = 0.2\r\nnotes = 0.4mm Düse\r\n',
+        encoding: 'latin1',
+        invalidLine: 2
+      });
+    });
+  });
+
+  describe('parseIni', () => {
+    it('should handle CRLF and CR line endings and keep everything after the first "="', () => {
+      const { config, diagnostics } = parseIni('layer_height = 0.2\r\ncompatible_printers_condition = nozzle_diameter[0]==0.4\rnotes = \r\n');
+      expect(config).toEqual({
+        layer_height: '0.2',
+        compatible_printers_condition: 'nozzle_diameter[0]==0.4',
+        notes: ''
+      });
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should keep quoted values verbatim', () => {
+      const { config, diagnostics } = parseIni('compatible_printers = "Original Prusa MK4" "Prusa \\"XL\\""\n');
+      expect(config['compatible_printers']).toBe('"Original Prusa MK4" "Prusa \\"XL\\""');
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should collect comments and sections', () => {
+      const parsed = parseIni(Buffer.from('\uFEFF# generated by PrusaSlicer 2.7.1\n\n[vendor]\nname = Acme\n\n[print:0.20mm]\nlayer_height = 0.2\n'));
+      expect(parsed.comments).toEqual(['# generated by PrusaSlicer 2.7.1']);
+      expect(parsed.config).toEqual({});
+      expect(parsed.sections).toEqual([
+        { type: 'vendor', name: '', config: { name: 'Acme' } },
+        { type: 'print', name: '0.20mm', config: { layer_height: '0.2' } }
+      ]);
+    });
+
+    it('should report malformed lines, duplicates and unbalanced quotes by line number', () => {
+      const { config, sections, diagnostics } = parseIni([
+        'layer_height = 0.2',
+        'garbage line',
+        '= 5',
+        'layer_height = 0.3',
+        'filament_settings_id = "PLA',
+        '[print:A]',
+        '[print:A]'
+      ].join('\n'));
+
+      expect(config['layer_height']).toBe('0.3');
+      expect(sections).toHaveLength(2);
+      expect(diagnostics).toEqual([
+        { line: 2, message: 'Expected "key = value", found: garbage line' },
+        { line: 3, message: 'Missing key before "=": = 5' },
+        { line: 4, message: 'Duplicate key "layer_height" (first set on line 1); the last value is used' },
+        { line: 5, message: 'Unbalanced quotes in the value of "filament_settings_id"' },
+        { line: 7, message: 'Duplicate section [print:A] (first on line 6)' }
+      ]);
+    });
+
+    it('should report the first line that made it fall back to Latin-1', () => {
+      const { config, encoding, diagnostics } = parseIni(Buffer.from('a = 1\nnotes = caf\xe9\n', 'latin1'));
+      expect(encoding).toBe('latin1');
+      expect(config['notes']).toBe('café');
+      expect(diagnostics).toEqual([{ line: 2, message: 'Not valid UTF-8; the file was read as Latin-1' }]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Parser for PrusaSlicer/SuperSlicer INI files and config bundles.
+ *
+ * This module handles:
+ * - Detecting the file encoding (UTF-8 with or without a BOM, UTF-16, or Latin-1)
+ * - Windows (CRLF), Unix (LF) and old Mac (CR) line endings
+ * - `[type:name]` section headers of config and vendor bundles
+ * - Line-numbered diagnostics for malformed lines, duplicate keys and duplicate sections
+ *
+ * Values are kept verbatim apart from surrounding whitespace: PrusaSlicer writes lists of
+ * strings as quoted strings separated by spaces (`compatible_printers = "A" "B"`), so quotes
+ * are part of the value, and only the first `=` separates the key from the value.
+ */
+
+import * as fs from 'fs';
+import { SourceIni, ConfigBundleSection, IniEncoding, IniDiagnostic, ParsedIni } from './types';
+
+/** Byte order mark of UTF-8 files. */
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+/**
+ * Decodes the contents of an INI file.
+ *
+ * @param buffer - The raw file contents
+ * @returns The decoded text, its encoding and, for Latin-1 files, the first line that is not valid UTF-8
+ *
+ * @remarks
+ * A byte order mark selects UTF-8 or UTF-16 and is removed. Files without one are read as
+ * UTF-8, unless they contain byte sequences that are not valid UTF-8; those were saved by an
+ * editor using the Windows Latin-1 code page and are read as Latin-1.
+ */
+export function decodeIni(buffer: Buffer): { text: string; encoding: IniEncoding; invalidLine?: number } {
+  if (UTF8_BOM.every((byte, idx) => buffer[idx] === byte)) {
+    return { text: buffer.toString('utf-8', UTF8_BOM.length), encoding: 'utf-8' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: buffer.toString('utf16le', 2), encoding: 'utf-16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: Buffer.from(buffer.subarray(2)).swap16().toString('utf16le'), encoding: 'utf-16be' };
+  }
+
+  const text = buffer.toString('utf-8');
+  const invalid = text.indexOf('\uFFFD');
+  if (invalid < 0) {
+    return { text, encoding: 'utf-8' };
+  }
+  return {
+    text: buffer.toString('latin1'),
+    encoding: 'latin1',
+    invalidLine: text.slice(0, invalid).split(/\r\n|\r|\n/).length
+  };
+}
+
+/**
+ * Parses the contents of an INI file or config bundle.
+ *
+ * @param content - The raw file contents, or already decoded text
+ * @returns The keys before the first section header, the sections, the comment lines, the
+ *   encoding and any diagnostics
+ *
+ * @remarks
+ * Blank lines and lines starting with `#` or `;` are skipped; comment lines are returned in
+ * order so callers can read header comments such as `# generated by PrusaSlicer 2.7.1`.
+ * Lines that are neither comments, section headers nor `key = value` pairs are skipped with a
+ * diagnostic. When a key appears twice in the same section, the last value is used and a
+ * diagnostic names both lines. A section that appears twice is kept twice, with a diagnostic.
+ * Quoted values with an odd number of unescaped quotes get a diagnostic but are kept.
+ *
+ * @example
+ * ```ts
+ * const { config, diagnostics } = parseIni("layer_height = 0.2\r\nlayer_height = 0.3\r\n");
+ * config['layer_height'] // "0.3"
+ * diagnostics[0]         // { line: 2, message: 'Duplicate key "layer_height" (first set on line 1); the last value is used' }
+ * ```
+ */
+export function parseIni(content: string | Buffer): ParsedIni {
+  const decoded = typeof content === 'string'
+    ? { text: content.replace(/^\uFEFF/, ''), encoding: 'utf-8' as IniEncoding, invalidLine: undefined }
+    : decodeIni(content);
+  const config: SourceIni = {};
+  const sections: ConfigBundleSection[] = [];
+  const comments: string[] = [];
+  const diagnostics: IniDiagnostic[] = [];
+  if (decoded.invalidLine) {
+    diagnostics.push({ line: decoded.invalidLine, message: 'Not valid UTF-8; the file was read as Latin-1' });
+  }
+
+  let current: SourceIni = config;
+  let keyLines: { [key: string]: number } = {};
+  const sectionLines: { [section: string]: number } = {};
+
+  decoded.text.split(/\r\n|\r|\n/).forEach((rawLine, idx) => {
+    const lineNumber = idx + 1;
+    const line = rawLine.trim();
+    if (line === '') return;
+    if (line.startsWith('#') || line.startsWith(';')) {
+      comments.push(line);
+      return;
+    }
+
+    const header = line.match(/^\[([^\]]*)\]$/);
+    if (header) {
+      const separator = header[1].indexOf(':');
+      const type = (separator < 0 ? header[1] : header[1].slice(0, separator)).trim();
+      const name = separator < 0 ? '' : header[1].slice(separator + 1).trim();
+      if (!type) {
+        diagnostics.push({ line: lineNumber, message: `Section header without a type: ${line}` });
+      }
+      const id = `${type}:${name}`;
+      if (sectionLines[id] !== undefined) {
+        diagnostics.push({ line: lineNumber, message: `Duplicate section ${line} (first on line ${sectionLines[id]})` });
+      } else {
+        sectionLines[id] = lineNumber;
+      }
+      current = {};
+      keyLines = {};
+      sections.push({ type, name, config: current });
+      return;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator < 0) {
+      diagnostics.push({ line: lineNumber, message: `Expected "key = value", found: ${line}` });
+      return;
+    }
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (!key) {
+      diagnostics.push({ line: lineNumber, message: `Missing key before "=": ${line}` });
+      return;
+    }
+    if (keyLines[key] !== undefined) {
+      diagnostics.push({ line: lineNumber, message: `Duplicate key "${key}" (first set on line ${keyLines[key]}); the last value is used` });
+    }
+    if (value.startsWith('"') && (value.match(/(?<!\\)"/g) || []).length % 2 !== 0) {
+      diagnostics.push({ line: lineNumber, message: `Unbalanced quotes in the value of "${key}"` });
+    }
+    keyLines[key] = lineNumber;
+    current[key] = value;
+  });
+
+  diagnostics.sort((a, b) => a.line - b.line);
+  return { config, sections, comments, encoding: decoded.encoding, diagnostics };
+}
+
+/**
+ * Reads and parses an INI file or config bundle.
+ *
+ * @param filePath - The path to the file
+ * @returns The parsed file, as returned by `parseIni`
+ * @throws {Error} If the file cannot be read
+ */
+export function readIni(filePath: string): ParsedIni {
+  return parseIni(fs.readFileSync(filePath));
+}
@@ -55,8 +55,9 @@ export async function displayMenu(
     ]);
 
     if (answer.choice === QUIT) {
+      // Exits with the code the summary set, e.g. when a requested preset bundle could not be written
       await exitWithConversionSummary();
-      process.exit(0);
+      process.exit();
     }
     return answer.choice;
   } else {
@@ -73,7 +74,7 @@ export async function displayMenu(
 
     if (answer.choices.includes(QUIT)) {
       await exitWithConversionSummary();
-      process.exit(0);
+      process.exit();
     }
     if (answer.choices.includes('<ALL>')) {
       return options;
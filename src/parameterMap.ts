@@ -260,6 +260,8 @@ export const parameterMap: ParameterMap = {
     layer_gcode: 'layer_change_gcode',
     feature_gcode: 'change_extrusion_role_gcode',
     end_gcode: 'machine_end_gcode',
+    extruder_colour: 'extruder_colour',
+    extruder_offset: 'extruder_offset',
     machine_max_acceleration_e: 'machine_max_acceleration_e',
     machine_max_acceleration_extruding: 'machine_max_acceleration_extruding',
     machine_max_acceleration_retracting: 'machine_max_acceleration_retracting',
@@ -295,6 +297,8 @@ export const parameterMap: ParameterMap = {
     retract_layer_change: 'retract_when_changing_layer',
     retract_length: 'retraction_length',
     retract_lift: 'z_hop',
+    retract_lift_above: 'retract_lift_above',
+    retract_lift_below: 'retract_lift_below',
     retract_lift_top: 'retract_lift_enforce',
     retract_before_travel: 'retraction_minimum_travel',
     retract_speed: 'retraction_speed',
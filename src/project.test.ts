@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  parseEmbeddedConfig,
+  splitFullConfig,
+  extractProjectProfiles,
+  parseGcodeConfig,
+  extractGcodeProfiles,
+  isFullConfig,
+  extractFullConfigProfiles
+} from './project';
+import { readIniFile } from './fileIO';
+import { readZipEntry } from './zip';
+
+vi.mock('./zip', () => ({
+  readZipEntry: vi.fn()
+}));
+
+const projectConfig = `; generated by PrusaSlicer 2.7.1+win64 on 2024-01-01 at 12:00:00 UTC
+
+; bed_shape = 0x0,250x0,250x210,0x210
+; compatible_printers_condition = nozzle_diameter[0]==0.4
+; inherits = 0.20mm QUALITY @MK3S
+; inherits_cummulative = "0.20mm QUALITY @MK3S";"Prusament PLA";"Original Prusa i3 MK3S"
+; layer_height = 0.2
+; nozzle_diameter = 0.4
+; perimeter_speed = 45
+; print_settings_id = 0.20mm QUALITY @MK3S
+; temperature = 215
+`;
+
+describe('project', () => {
+  describe('parseEmbeddedConfig', () => {
+    it('should parse commented key/value lines and the header', () => {
+      const { config, headerLine } = parseEmbeddedConfig(projectConfig);
+      expect(headerLine).toBe('# generated by PrusaSlicer 2.7.1+win64 on 2024-01-01 at 12:00:00 UTC');
+      expect(config['layer_height']).toBe('0.2');
+      expect(config['compatible_printers_condition']).toBe('nozzle_diameter[0]==0.4');
+    });
+  });
+
+  describe('splitFullConfig', () => {
+    it('should split the config by profile type', () => {
+      const profiles = splitFullConfig(parseEmbeddedConfig(projectConfig).config);
+      expect(profiles.print).toEqual({
+        compatible_printers_condition: 'nozzle_diameter[0]==0.4',
+        layer_height: '0.2',
+        nozzle_diameter: '0.4',
+        perimeter_speed: '45'
+      });
+      expect(profiles.filament).toEqual({ temperature: '215' });
+      expect(profiles.printer).toEqual({ bed_shape: '0x0,250x0,250x210,0x210', nozzle_diameter: '0.4' });
+    });
+  });
+
+  describe('extractProjectProfiles', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write one INI file per profile type, named after the project', () => {
+      vi.mocked(readZipEntry).mockReturnValue(Buffer.from(projectConfig, 'utf-8'));
+
+      const files = extractProjectProfiles('/projects/Benchy.3mf', tempDir);
+      expect(files.map(file => path.relative(tempDir, file)).sort()).toEqual([
+        path.join('filament', 'Benchy.ini'),
+        path.join('print', 'Benchy.ini'),
+        path.join('printer', 'Benchy.ini')
+      ]);
+
+      const { config, slicerFlavor, slicerVersion } = readIniFile(path.join(tempDir, 'print', 'Benchy.ini'));
+      expect(config['ini_type']).toBe('print');
+      expect(config['profile_name']).toBe('Benchy');
+      expect(slicerFlavor).toBe('PrusaSlicer');
+      expect(slicerVersion).toBe('2.7.1');
+    });
+
+    it('should throw if the project has no embedded config', () => {
+      vi.mocked(readZipEntry).mockReturnValue(undefined);
+      expect(() => extractProjectProfiles('/projects/Benchy.3mf', tempDir))
+        .toThrow('No PrusaSlicer/SuperSlicer config found in project');
+    });
+  });
+
+  describe('parseGcodeConfig', () => {
+    it('should read the config block at the end of the G-code', () => {
+      const gcode = `; generated by SuperSlicer 2.5.59.2 on 2024-01-01 at 12:00:00 UTC
+G28
+; layer_height = 0.3
+G1 X10 Y10
+; SuperSlicer_config = begin
+; layer_height = 0.2
+; temperature = 215
+; SuperSlicer_config = end
+`;
+      expect(parseGcodeConfig(gcode)).toEqual({
+        config: { layer_height: '0.2', temperature: '215' },
+        headerLine: '# generated by SuperSlicer 2.5.59.2 on 2024-01-01 at 12:00:00 UTC'
+      });
+    });
+
+    it('should return undefined without a config block', () => {
+      expect(parseGcodeConfig('G28\nG1 X10\n')).toBeUndefined();
+    });
+  });
+
+  describe('extractGcodeProfiles', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write the profiles of a G-code file, named after the file', () => {
+      const gcodePath = path.join(tempDir, 'Benchy_0.2mm_PLA.gcode');
+      const block = projectConfig.split('\n').filter(line => line.startsWith('; ') && !line.includes('generated by'));
+      fs.writeFileSync(gcodePath, [
+        '; generated by PrusaSlicer 2.7.1+win64 on 2024-01-01 at 12:00:00 UTC',
+        'G28',
+        '; prusaslicer_config = begin',
+        ...block,
+        '; prusaslicer_config = end',
+        ''
+      ].join('\n'));
+
+      const files = extractGcodeProfiles(gcodePath, path.join(tempDir, 'out'));
+      expect(files).toHaveLength(3);
+
+      const { config, slicerVersion } = readIniFile(path.join(tempDir, 'out', 'filament', 'Benchy_0.2mm_PLA.ini'));
+      expect(config).toEqual({ ini_type: 'filament', profile_name: 'Benchy_0.2mm_PLA', temperature: '215' });
+      expect(slicerVersion).toBe('2.7.1');
+    });
+
+    it('should throw if the G-code has no config block', () => {
+      const gcodePath = path.join(tempDir, 'plain.gcode');
+      fs.writeFileSync(gcodePath, 'G28\n');
+      expect(() => extractGcodeProfiles(gcodePath, tempDir)).toThrow('No PrusaSlicer/SuperSlicer config found in G-code');
+    });
+  });
+
+  describe('isFullConfig', () => {
+    it('should detect configs with several settings ids', () => {
+      expect(isFullConfig({ print_settings_id: 'A', printer_settings_id: 'B', layer_height: '0.2' })).toBe(true);
+    });
+
+    it('should not treat single profiles as full configs', () => {
+      expect(isFullConfig({ print_settings_id: 'A', layer_height: '0.2' })).toBe(false);
+      expect(isFullConfig({ ini_type: 'print', print_settings_id: 'A', printer_settings_id: 'B' })).toBe(false);
+    });
+  });
+
+  describe('extractFullConfigProfiles', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should name each profile after the preset it was exported from', () => {
+      const iniPath = path.join(tempDir, 'config.ini');
+      fs.writeFileSync(iniPath, `# generated by PrusaSlicer 2.7.1+linux-x64 on 2024-01-01 at 12:00:00 UTC
+bed_shape = 0x0,250x0,250x210,0x210
+filament_settings_id = "Prusament PLA";"Generic PETG"
+layer_height = 0.2
+print_settings_id = 0.20mm QUALITY @MK4
+printer_settings_id =
+temperature = 215
+`);
+
+      const files = extractFullConfigProfiles(iniPath, path.join(tempDir, 'out'));
+      expect(files.map(file => path.relative(path.join(tempDir, 'out'), file)).sort()).toEqual([
+        path.join('filament', 'Prusament PLA.ini'),
+        path.join('print', '0.20mm QUALITY @MK4.ini'),
+        path.join('printer', 'config.ini')
+      ]);
+
+      const { config, slicerVersion } = readIniFile(path.join(tempDir, 'out', 'print', '0.20mm QUALITY @MK4.ini'));
+      expect(config).toEqual({ ini_type: 'print', profile_name: '0.20mm QUALITY @MK4', layer_height: '0.2' });
+      expect(slicerVersion).toBe('2.7.1');
+    });
+  });
+});
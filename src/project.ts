@@ -0,0 +1,295 @@
+/**
+ * Import of full configs: PrusaSlicer/SuperSlicer 3MF projects, G-code files and "Export Config" INIs.
+ *
+ * This module handles:
+ * - Reading the full config that PrusaSlicer stores in `Metadata/Slic3r_PE.config`
+ * - Reading the config block at the end of G-code files and the metadata of binary G-code
+ * - Detecting INI files that hold print, filament and printer settings together
+ * - Splitting the full config into print, filament and printer profiles
+ * - Writing those profiles as INI files, so they are converted like any other input file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceIni, OutputIniType } from './types';
+import { indirectParams, speedSequence } from './constants';
+import { parameterMap } from './parameterMap';
+import { writeIniFile, joinPath, getBasename, sanitizeFilename } from './fileIO';
+import { readIni } from './ini';
+import { readZipEntry } from './zip';
+import { readBinaryGcodeMetadata } from './bgcode';
+
+/** Path of the full config within a 3MF project. */
+const PROJECT_CONFIG_ENTRY = 'Metadata/Slic3r_PE.config';
+
+/** Profile types of a full config, in the order an ambiguous key is assigned to them. */
+const profileTypes: OutputIniType[] = ['print', 'printer', 'filament'];
+
+/** Parameters that only apply to the print profile, although `parameterMap` does not list them. */
+const printOnlyParams = [...indirectParams.filter(param => param !== 'nozzle_diameter'), ...speedSequence];
+
+/**
+ * Parses a config written as `; key = value` comment lines, as found in 3MF projects and G-code.
+ *
+ * @param content - The config text
+ * @returns The key/value pairs and the `generated by` header as an INI comment, if found
+ *
+ * @example
+ * ```ts
+ * parseEmbeddedConfig("; generated by PrusaSlicer 2.7.1\n; layer_height = 0.2\n")
+ * // { config: { layer_height: "0.2" }, headerLine: "# generated by PrusaSlicer 2.7.1" }
+ * ```
+ */
+export function parseEmbeddedConfig(content: string): { config: SourceIni; headerLine?: string } {
+  const config: SourceIni = {};
+  let headerLine: string | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    const header = line.match(/^;\s*(generated\s+by\s+.*)$/i);
+    if (header) {
+      headerLine = `# ${header[1].trim()}`;
+      continue;
+    }
+    const match = line.match(/^;\s*([A-Za-z0-9_]+)\s*=\s?(.*)$/);
+    if (match) {
+      config[match[1]] = match[2].trim();
+    }
+  }
+
+  return { config, headerLine };
+}
+
+/**
+ * Splits a full config (print, filament and printer settings together) into separate profiles.
+ *
+ * @param config - The full config
+ * @returns The settings of each profile type that has any
+ *
+ * @remarks
+ * Each key goes to the first profile type whose `parameterMap` lists it, in the order print,
+ * printer, filament; so `compatible_printers_condition` stays with the print profile, as it
+ * does in a PrusaSlicer full config. `inherits` and the `*_cummulative` lists refer to system
+ * presets of several types at once and are dropped. Keys that no profile type maps are dropped
+ * as well. Multi-material projects keep every filament's values as lists, of which the
+ * converter uses the first.
+ *
+ * @example
+ * ```ts
+ * splitFullConfig({ layer_height: '0.2', temperature: '215', bed_shape: '0x0,250x0,250x210,0x210' })
+ * // { print: { layer_height: '0.2' }, filament: { temperature: '215' }, printer: { bed_shape: ... } }
+ * ```
+ */
+export function splitFullConfig(config: SourceIni): Partial<Record<OutputIniType, SourceIni>> {
+  const profiles: Partial<Record<OutputIniType, SourceIni>> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    if (key === 'inherits' || key.endsWith('_cummulative')) continue;
+
+    const iniType = printOnlyParams.includes(key)
+      ? 'print'
+      : profileTypes.find(type => key in (parameterMap[type] || {}));
+    if (!iniType) continue;
+
+    const profile = profiles[iniType] || (profiles[iniType] = {});
+    profile[key] = value;
+  }
+
+  // Print profiles need the nozzle diameter to convert extrusion widths
+  if (profiles.print && config['nozzle_diameter']) {
+    profiles.print['nozzle_diameter'] = config['nozzle_diameter'];
+  }
+
+  return profiles;
+}
+
+/**
+ * Writes the profiles of a full config as INI files.
+ *
+ * @param config - The full config
+ * @param headerLine - The `# generated by` header of the source, if known
+ * @param profileName - The name of each profile, by profile type
+ * @param tempDir - The temporary directory where the profiles should be written
+ * @returns The paths of the written INI files, one per profile type found
+ *
+ * @remarks
+ * Each profile is written to a subdirectory named after its type, so profiles with the same
+ * name do not overwrite each other.
+ */
+function writeProfiles(
+  config: SourceIni,
+  headerLine: string | undefined,
+  profileName: (iniType: OutputIniType) => string,
+  tempDir: string
+): string[] {
+  const files: string[] = [];
+  for (const [iniType, profile] of Object.entries(splitFullConfig(config)) as [OutputIniType, SourceIni][]) {
+    const name = profileName(iniType);
+    const iniFile = joinPath(tempDir, iniType, `${sanitizeFilename(name)}.ini`);
+    writeIniFile(iniFile, { ini_type: iniType, profile_name: name, ...profile }, headerLine);
+    files.push(iniFile);
+  }
+  return files;
+}
+
+/**
+ * Extracts the print, filament and printer profiles embedded in a 3MF project.
+ *
+ * @param filePath - The path to the `.3mf` project
+ * @param tempDir - The temporary directory where the profiles should be written
+ * @returns The paths of the written INI files, one per profile type found
+ * @throws {Error} If the project cannot be read or has no embedded PrusaSlicer/SuperSlicer config
+ *
+ * @remarks
+ * Every profile is named after the project file.
+ *
+ * @example
+ * ```ts
+ * const files = extractProjectProfiles("benchy.3mf", tempDir);
+ * // [".../print/benchy.ini", ".../printer/benchy.ini", ".../filament/benchy.ini"]
+ * ```
+ */
+export function extractProjectProfiles(filePath: string, tempDir: string): string[] {
+  const content = readZipEntry(filePath, PROJECT_CONFIG_ENTRY);
+  if (!content) {
+    throw new Error('No PrusaSlicer/SuperSlicer config found in project');
+  }
+
+  const { config, headerLine } = parseEmbeddedConfig(content.toString('utf-8'));
+  const projectName = getBasename(filePath, path.extname(filePath));
+  return writeProfiles(config, headerLine, () => projectName, tempDir);
+}
+
+/**
+ * Extracts the config block that PrusaSlicer/SuperSlicer append to G-code files.
+ *
+ * @param content - The G-code text
+ * @returns The config and the `generated by` header as an INI comment, or undefined if the
+ *   G-code has no config block
+ *
+ * @remarks
+ * The block starts with `; prusaslicer_config = begin` (`; SuperSlicer_config = begin` in
+ * SuperSlicer) and ends with the matching `= end` line. The header is taken from the top of the
+ * file.
+ *
+ * @example
+ * ```ts
+ * parseGcodeConfig("; generated by PrusaSlicer 2.7.1\nG28\n; prusaslicer_config = begin\n; layer_height = 0.2\n; prusaslicer_config = end\n")
+ * // { config: { layer_height: "0.2" }, headerLine: "# generated by PrusaSlicer 2.7.1" }
+ * ```
+ */
+export function parseGcodeConfig(content: string): { config: SourceIni; headerLine?: string } | undefined {
+  const block = content.match(/^;\s*(\w+_config)\s*=\s*begin\s*$([\s\S]*?)^;\s*\1\s*=\s*end\s*$/m);
+  if (!block) return undefined;
+
+  const header = content.match(/^;\s*(generated\s+by\s+.*)$/im);
+  return {
+    config: parseEmbeddedConfig(block[2]).config,
+    headerLine: header ? `# ${header[1].trim()}` : undefined
+  };
+}
+
+/**
+ * Extracts the print, filament and printer profiles stored in a G-code file.
+ *
+ * @param filePath - The path to the `.gcode` or binary `.bgcode` file
+ * @param tempDir - The temporary directory where the profiles should be written
+ * @returns The paths of the written INI files, one per profile type found
+ * @throws {Error} If the file cannot be read or has no PrusaSlicer/SuperSlicer config
+ *
+ * @remarks
+ * Every profile is named after the G-code file. Binary G-code stores the config in its slicer
+ * metadata block and the slicer version in its file metadata block.
+ *
+ * @example
+ * ```ts
+ * const files = extractGcodeProfiles("benchy_0.2mm_PLA.gcode", tempDir);
+ * ```
+ */
+export function extractGcodeProfiles(filePath: string, tempDir: string): string[] {
+  let embedded: { config: SourceIni; headerLine?: string } | undefined;
+  if (path.extname(filePath).toLowerCase() === '.bgcode') {
+    const { config, producer } = readBinaryGcodeMetadata(filePath);
+    if (Object.keys(config).length > 0) {
+      embedded = { config, headerLine: producer ? `# generated by ${producer}` : undefined };
+    }
+  } else {
+    embedded = parseGcodeConfig(fs.readFileSync(filePath, 'utf-8'));
+  }
+  if (!embedded) {
+    throw new Error('No PrusaSlicer/SuperSlicer config found in G-code');
+  }
+
+  const gcodeName = getBasename(filePath, path.extname(filePath));
+  return writeProfiles(embedded.config, embedded.headerLine, () => gcodeName, tempDir);
+}
+
+/**
+ * Extracts the profiles embedded in a 3MF project or G-code file.
+ *
+ * @param filePath - The path to a `.3mf`, `.gcode` or `.bgcode` file
+ * @param tempDir - The temporary directory where the profiles should be written
+ * @returns The paths of the written INI files, one per profile type found
+ * @throws {Error} If the file has no PrusaSlicer/SuperSlicer config
+ */
+export function extractEmbeddedProfiles(filePath: string, tempDir: string): string[] {
+  return path.extname(filePath).toLowerCase() === '.3mf'
+    ? extractProjectProfiles(filePath, tempDir)
+    : extractGcodeProfiles(filePath, tempDir);
+}
+
+/**
+ * Checks whether an INI file holds a full config, as written by PrusaSlicer's File > Export Config.
+ *
+ * @param config - The parsed INI configuration
+ * @returns `true` if the INI has print, filament and printer settings together
+ *
+ * @remarks
+ * A full config names the presets it was exported from in `print_settings_id`,
+ * `filament_settings_id` and `printer_settings_id`. Configs without those keys count as full
+ * if at least two profile types have 10 or more mapped keys each.
+ */
+export function isFullConfig(config: SourceIni): boolean {
+  if (config['ini_type']) return false;
+
+  const settingsIds = profileTypes.filter(iniType => `${iniType}_settings_id` in config);
+  if (settingsIds.length >= 2) return true;
+
+  const keys = Object.keys(config);
+  const matchingTypes = profileTypes.filter(iniType => {
+    const typeMap = parameterMap[iniType] || {};
+    return keys.filter(key => key in typeMap).length >= 10;
+  });
+  return matchingTypes.length >= 2;
+}
+
+/**
+ * Splits a full config INI into print, filament and printer profiles.
+ *
+ * @param filePath - The path to the INI file exported with File > Export Config
+ * @param tempDir - The temporary directory where the profiles should be written
+ * @returns The paths of the written INI files, one per profile type found
+ * @throws {Error} If the file cannot be read
+ *
+ * @remarks
+ * Each profile is named after the preset it was exported from (`print_settings_id`,
+ * `filament_settings_id` or `printer_settings_id`), or after the INI file if that is empty.
+ * Of several filament presets (multi-material printers), the first one names the profile.
+ *
+ * @example
+ * ```ts
+ * if (isFullConfig(readIniFile("config.ini").config)) {
+ *   const files = extractFullConfigProfiles("config.ini", tempDir);
+ *   // [".../print/0.20mm QUALITY @MK4.ini", ".../filament/Prusament PLA.ini", ".../printer/Original Prusa MK4.ini"]
+ * }
+ * ```
+ */
+export function extractFullConfigProfiles(filePath: string, tempDir: string): string[] {
+  const { config, comments } = readIni(filePath);
+  const headerLine = comments.find(comment => /^#\s*generated/.test(comment));
+  const fileName = getBasename(filePath, path.extname(filePath));
+
+  return writeProfiles(config, headerLine, iniType => {
+    const settingsId = (config[`${iniType}_settings_id`] || '').split(';')[0].trim().replace(/^"(.*)"$/, '$1');
+    return settingsId || fileName;
+  }, tempDir);
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createRenameTable, recordRename, applyRenames, formatProfileName } from './renames';
+
+describe('renames', () => {
+  describe('formatProfileName', () => {
+    it('should fill in the name, flavor and type', () => {
+      expect(formatProfileName('PS - {name}', 'My MK4', 'PrusaSlicer', 'printer')).toBe('PS - My MK4');
+      expect(formatProfileName('{name} ({type} from {flavor})', 'PLA', undefined, 'filament')).toBe('PLA (filament from PrusaSlicer)');
+      expect(formatProfileName(' {name} ', 'PLA', 'Cura', 'filament')).toBe('PLA');
+    });
+
+    it('should throw for unknown placeholders', () => {
+      expect(() => formatProfileName('{vendor} {name}', 'PLA', 'PrusaSlicer', 'filament')).toThrow('Unknown placeholder {vendor}');
+    });
+  });
+
+  describe('recordRename', () => {
+    it('should record every source name that differs from the OrcaSlicer name', () => {
+      const table = createRenameTable();
+      recordRename(table, 'printer', ['Voron: 350', undefined, 'Voron 350'], 'Voron 350');
+      recordRename(table, 'print', ['Fine'], 'Fine');
+
+      expect(table).toEqual({ printer: { 'Voron: 350': 'Voron 350' }, print: {}, filament: {} });
+    });
+  });
+
+  describe('applyRenames', () => {
+    it('should rewrite printer, print and filament references by profile type', () => {
+      const table = createRenameTable();
+      recordRename(table, 'printer', ['My MK4'], 'My MK4 - converted');
+      recordRename(table, 'print', ['0.20mm'], '0.20mm - converted');
+      recordRename(table, 'filament', ['PLA'], 'PLA - converted');
+
+      const filament = { compatible_printers: ['My MK4', 'Bambu Lab X1 Carbon 0.4 nozzle'], compatible_prints: ['0.20mm', 'PLA'] };
+      expect(applyRenames(filament, table)).toBe(true);
+      expect(filament).toEqual({
+        compatible_printers: ['My MK4 - converted', 'Bambu Lab X1 Carbon 0.4 nozzle'],
+        compatible_prints: ['0.20mm - converted', 'PLA']
+      });
+
+      const printer = { default_print_profile: '0.20mm', default_filament_profile: 'PLA', printer_model: 'My MK4' };
+      expect(applyRenames(printer, table)).toBe(true);
+      expect(printer).toEqual({
+        default_print_profile: '0.20mm - converted',
+        default_filament_profile: 'PLA - converted',
+        printer_model: 'My MK4'
+      });
+    });
+
+    it('should leave profiles without renamed references unchanged', () => {
+      const table = createRenameTable();
+      recordRename(table, 'printer', ['My MK4'], 'My MK4 - converted');
+
+      const print = { compatible_printers: [], default_print_profile: 'My MK4' };
+      expect(applyRenames(print, table)).toBe(false);
+      expect(print).toEqual({ compatible_printers: [], default_print_profile: 'My MK4' });
+    });
+  });
+});
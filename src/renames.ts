@@ -0,0 +1,116 @@
+/**
+ * Session-wide renames of converted profiles.
+ *
+ * Print and filament profiles name the printers (and prints) they are compatible with, and
+ * printer profiles name their default print and filament profiles. These references use the
+ * source slicer's preset names, so when a converted profile gets a different name in
+ * OrcaSlicer, the references to it in the other profiles of the session are rewritten.
+ * Converted profiles are renamed with a name template (`--name-template`), which keeps them
+ * apart from OrcaSlicer presets of the same name.
+ */
+
+import { NewHash, OutputIniType, RenameTable, SlicerFlavor } from './types';
+import { profileReferenceKeys } from './constants';
+
+/**
+ * Builds the OrcaSlicer name of a converted profile from a name template.
+ *
+ * @param template - The template, with `{name}`, `{flavor}` and `{type}` placeholders
+ * @param name - The name of the profile in the source slicer
+ * @param slicerFlavor - The source slicer; PrusaSlicer is assumed if omitted
+ * @param iniType - The type of the converted profile
+ * @returns The profile name, with surrounding whitespace removed
+ * @throws {Error} If the template has an unknown placeholder
+ *
+ * @example
+ * ```ts
+ * formatProfileName('{name} (from {flavor})', 'My MK4', 'PrusaSlicer', 'printer') // 'My MK4 (from PrusaSlicer)'
+ * formatProfileName('PS - {name}', '0.20mm QUALITY', undefined, 'print')          // 'PS - 0.20mm QUALITY'
+ * ```
+ */
+export function formatProfileName(
+  template: string,
+  name: string,
+  slicerFlavor: SlicerFlavor | undefined,
+  iniType: OutputIniType
+): string {
+  const fields: { [field: string]: string } = { name, flavor: slicerFlavor || 'PrusaSlicer', type: iniType };
+  return template.replace(/\{(\w*)\}/g, (placeholder, field: string) => {
+    if (!(field in fields)) {
+      throw new Error(`Unknown placeholder ${placeholder} in name template; use {name}, {flavor} or {type}`);
+    }
+    return fields[field];
+  }).trim();
+}
+
+/**
+ * Creates an empty rename table.
+ *
+ * @returns A table without renames for any profile type
+ */
+export function createRenameTable(): RenameTable {
+  return { printer: {}, print: {}, filament: {} };
+}
+
+/**
+ * Records the OrcaSlicer name of a converted profile.
+ *
+ * @param table - The session's rename table (modified in place)
+ * @param iniType - The type of the converted profile
+ * @param sourceNames - The names the profile may be referred to by in the source slicer, such as
+ *   its `profile_name`, its `*_settings_id` and its file name; empty names are ignored
+ * @param orcaName - The name of the converted OrcaSlicer profile
+ *
+ * @example
+ * ```ts
+ * recordRename(renames, 'printer', ['My MK4', 'My_MK4'], 'My MK4 (converted)');
+ * renames.printer['My MK4'] // 'My MK4 (converted)'
+ * ```
+ */
+export function recordRename(
+  table: RenameTable,
+  iniType: OutputIniType,
+  sourceNames: (string | undefined)[],
+  orcaName: string
+): void {
+  for (const sourceName of sourceNames) {
+    if (sourceName && sourceName !== orcaName) {
+      table[iniType][sourceName] = orcaName;
+    }
+  }
+}
+
+/**
+ * Rewrites the profile references of a converted profile to the OrcaSlicer names of the
+ * profiles converted in this session.
+ *
+ * @param json - The converted profile (modified in place)
+ * @param table - The session's rename table
+ * @returns Whether any reference was rewritten
+ *
+ * @remarks
+ * The keys in `profileReferenceKeys` are rewritten, whether they hold a single name or a list.
+ * Names that are not in the table, such as OrcaSlicer system printers, are left alone.
+ *
+ * @example
+ * ```ts
+ * const json = { compatible_printers: ['My MK4', 'Bambu Lab X1 Carbon 0.4 nozzle'] };
+ * applyRenames(json, { printer: { 'My MK4': 'My MK4 (converted)' }, print: {}, filament: {} });
+ * json.compatible_printers // ['My MK4 (converted)', 'Bambu Lab X1 Carbon 0.4 nozzle']
+ * ```
+ */
+export function applyRenames(json: NewHash, table: RenameTable): boolean {
+  let changed = false;
+  for (const [key, iniType] of Object.entries(profileReferenceKeys)) {
+    const renames = table[iniType];
+    const value = json[key];
+    if (typeof value === 'string' && renames[value]) {
+      json[key] = renames[value];
+      changed = true;
+    } else if (Array.isArray(value) && value.some(name => renames[name])) {
+      json[key] = value.map(name => renames[name] || name);
+      changed = true;
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  invertParameterMap,
+  detectJsonType,
+  convertJsonToIni
+} from './reverse';
+
+describe('reverse', () => {
+  describe('invertParameterMap', () => {
+    it('should map OrcaSlicer keys back to INI keys', () => {
+      const map = invertParameterMap('print');
+      expect(map['sparse_infill_density']).toBe('fill_density');
+      expect(map['wall_loops']).toBe('perimeters');
+    });
+
+    it('should include speed parameters for print profiles', () => {
+      const map = invertParameterMap('print');
+      expect(map['inner_wall_speed']).toBe('perimeter_speed');
+      expect(map['initial_layer_speed']).toBe('first_layer_speed');
+    });
+
+    it('should invert array mappings for each target key', () => {
+      const map = invertParameterMap('filament');
+      expect(map['hot_plate_temp']).toBe('bed_temperature');
+      expect(map['textured_plate_temp']).toBe('bed_temperature');
+    });
+
+    it('should prefer the identically named source key', () => {
+      const map = invertParameterMap('print');
+      expect(map['elefant_foot_compensation']).toBe('elefant_foot_compensation');
+    });
+
+    it('should include physical printer keys for printer profiles', () => {
+      const map = invertParameterMap('printer');
+      expect(map['printhost_apikey']).toBe('printhost_apikey');
+      expect(map['machine_start_gcode']).toBe('start_gcode');
+    });
+  });
+
+  describe('detectJsonType', () => {
+    it('should detect type from OrcaSlicer type field', () => {
+      expect(detectJsonType({ type: 'process' })).toBe('print');
+      expect(detectJsonType({ type: 'machine' })).toBe('printer');
+    });
+
+    it('should detect type from settings id key', () => {
+      expect(detectJsonType({ filament_settings_id: 'PLA' })).toBe('filament');
+    });
+
+    it('should return undefined for unknown files', () => {
+      expect(detectJsonType({ foo: 'bar' })).toBeUndefined();
+    });
+  });
+
+  describe('convertJsonToIni', () => {
+    it('should rename keys and invert lookup tables', () => {
+      const { ini, unmapped } = convertJsonToIni({
+        layer_height: '0.2',
+        sparse_infill_pattern: 'zig-zag',
+        top_surface_pattern: 'monotonicline',
+        seam_position: 'back',
+        name: 'My Profile',
+        version: '1.6.0.0'
+      }, 'print', 'PrusaSlicer');
+
+      expect(ini['layer_height']).toBe('0.2');
+      expect(ini['fill_pattern']).toBe('rectilinear');
+      expect(ini['top_fill_pattern']).toBe('monotoniclines');
+      expect(ini['seam_position']).toBe('rear');
+      expect(unmapped).toEqual([]);
+    });
+
+    it('should convert per-extruder arrays back element by element', () => {
+      const { ini } = convertJsonToIni({
+        nozzle_diameter: ['0.4', '0.6'],
+        retract_lift_enforce: ['Top Only', 'All Surfaces'],
+        extruder_colour: ['#FF0000', '#00FF00']
+      }, 'printer', 'PrusaSlicer');
+
+      expect(ini['nozzle_diameter']).toBe('0.4,0.6');
+      expect(ini['retract_lift_top']).toBe('Only on top,All surfaces');
+      expect(ini['extruder_colour']).toBe('"#FF0000";"#00FF00"');
+    });
+
+    it('should convert speeds back to INI keys', () => {
+      const { ini } = convertJsonToIni({
+        inner_wall_speed: '60',
+        sparse_infill_speed: '80'
+      }, 'print', 'PrusaSlicer');
+
+      expect(ini['perimeter_speed']).toBe('60');
+      expect(ini['infill_speed']).toBe('80');
+    });
+
+    it('should convert wall_sequence and is_infill_first from OrcaSlicer 2.0', () => {
+      const { ini, lossy } = convertJsonToIni({ wall_sequence: 'outer wall/inner wall', is_infill_first: '1' }, 'print', 'PrusaSlicer');
+      expect(ini['external_perimeters_first']).toBe('1');
+      expect(ini['infill_first']).toBe('1');
+      expect(lossy).toEqual([]);
+      expect(convertJsonToIni({ wall_sequence: 'inner-outer-inner wall' }, 'print', 'PrusaSlicer').lossy).toEqual(['wall_sequence']);
+    });
+
+    it('should split wall_infill_order into perimeter and infill order', () => {
+      const { ini } = convertJsonToIni({ wall_infill_order: 'infill/outer wall/inner wall' }, 'print', 'PrusaSlicer');
+      expect(ini['external_perimeters_first']).toBe('1');
+      expect(ini['infill_first']).toBe('1');
+    });
+
+    it('should split ironing_type into ironing flag and type', () => {
+      expect(convertJsonToIni({ ironing_type: 'no ironing' }, 'print', 'PrusaSlicer').ini['ironing']).toBe('0');
+      const { ini } = convertJsonToIni({ ironing_type: 'top' }, 'print', 'PrusaSlicer');
+      expect(ini['ironing']).toBe('1');
+      expect(ini['ironing_type']).toBe('top');
+    });
+
+    it('should convert support type and style back to support_material_style', () => {
+      const { ini } = convertJsonToIni({
+        support_type: 'tree(auto)',
+        support_style: 'organic'
+      }, 'print', 'PrusaSlicer');
+
+      expect(ini['support_material_style']).toBe('organic');
+      expect(ini['support_material_auto']).toBe('1');
+    });
+
+    it('should convert overhang speeds per flavor', () => {
+      const json = {
+        enable_overhang_speed: '1',
+        overhang_1_4_speed: '40',
+        overhang_2_4_speed: '60',
+        overhang_3_4_speed: '80',
+        overhang_4_4_speed: '100'
+      };
+
+      const prusa = convertJsonToIni(json, 'print', 'PrusaSlicer').ini;
+      expect(prusa['overhang_speed_0']).toBe('100');
+      expect(prusa['overhang_speed_3']).toBe('40');
+
+      const superSlicer = convertJsonToIni(json, 'print', 'SuperSlicer').ini;
+      expect(superSlicer['dynamic_overhang_speeds']).toBe('100,80,60,40');
+    });
+
+    it('should convert flow ratios back to percentages', () => {
+      const { ini } = convertJsonToIni({ bridge_flow: '1.5' }, 'print', 'PrusaSlicer');
+      expect(ini['bridge_flow_ratio']).toBe('150%');
+    });
+
+    it('should escape G-code values', () => {
+      const { ini } = convertJsonToIni({ machine_start_gcode: 'G28\nG1 X0' }, 'printer', 'PrusaSlicer');
+      expect(ini['start_gcode']).toBe('G28\\nG1 X0');
+    });
+
+    it('should invert filament types and join arrays', () => {
+      const { ini } = convertJsonToIni({
+        filament_type: ['PETG'],
+        nozzle_temperature: ['230', '240'],
+        compatible_printers: ['Printer A', 'Printer B']
+      }, 'filament', 'PrusaSlicer');
+
+      expect(ini['filament_type']).toBe('PET');
+      expect(ini['temperature']).toBe('230,240');
+      expect(ini['compatible_printers']).toBe('"Printer A";"Printer B"');
+    });
+
+    it('should report keys that cannot be inverted', () => {
+      const { unmapped } = convertJsonToIni({
+        layer_height: '0.2',
+        some_orca_only_key: '1'
+      }, 'print', 'PrusaSlicer');
+
+      expect(unmapped).toEqual(['some_orca_only_key']);
+    });
+
+    it('should report values that can only be approximated', () => {
+      const { ini, lossy } = convertJsonToIni({
+        hot_plate_temp: '60',
+        cool_plate_temp: '35'
+      }, 'filament', 'PrusaSlicer');
+
+      expect(ini['bed_temperature']).toBe('60');
+      expect(lossy).toContain('cool_plate_temp');
+    });
+
+    it('should report G-code and conditions that use OrcaSlicer placeholder names', () => {
+      const { ini, lossy } = convertJsonToIni({
+        machine_start_gcode: 'M190 S[bed_temperature_initial_layer_single]\nG28',
+        machine_end_gcode: 'M84'
+      }, 'printer', 'PrusaSlicer');
+
+      expect(ini['start_gcode']).toBe('M190 S[bed_temperature_initial_layer_single]\\nG28');
+      expect(lossy).toEqual(['machine_start_gcode']);
+
+      const print = convertJsonToIni({ compatible_printers_condition: 'printable_height > 200' }, 'print', 'PrusaSlicer');
+      expect(print.ini['compatible_printers_condition']).toBe('printable_height > 200');
+      expect(print.lossy).toEqual(['compatible_printers_condition']);
+    });
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Reverse conversion from OrcaSlicer JSON profiles back to PrusaSlicer/SuperSlicer INI format.
+ *
+ * This module handles:
+ * - Inverting `parameterMap` (OrcaSlicer key to source INI key)
+ * - Inverting the value transforms applied by `convertParams` and `calculatePrintParams`
+ * - Detecting the profile type of an OrcaSlicer JSON file
+ * - Reporting keys that cannot be inverted, including G-code and conditions that use OrcaSlicer
+ *   placeholder names
+ */
+
+import {
+  IniType,
+  OutputIniType,
+  IniSlicerFlavor,
+  SourceIni
+} from './types';
+import { backslash, floatToPercent } from './utils';
+import {
+  filamentTypes,
+  speedParams,
+  seamPositions,
+  infillTypes,
+  supportStyles,
+  gcodeFlavors,
+  hostTypes,
+  zhopEnforcement,
+  thumbnailFormat
+} from './constants';
+import { parameterMap } from './parameterMap';
+import { findRenamedPlaceholders } from './gcode';
+
+/**
+ * Result of converting a single OrcaSlicer JSON profile back to INI format.
+ */
+export interface ReverseResult {
+  /** The converted INI key/value pairs */
+  ini: SourceIni;
+  /** OrcaSlicer keys that have no PrusaSlicer/SuperSlicer equivalent */
+  unmapped: string[];
+  /** OrcaSlicer keys whose values could only be approximated */
+  lossy: string[];
+}
+
+/** OrcaSlicer `type` field values and the INI type they correspond to. */
+const jsonTypes: { [key: string]: OutputIniType } = {
+  process: 'print',
+  filament: 'filament',
+  machine: 'printer'
+};
+
+/**
+ * OrcaSlicer keys that are generated by the forward conversion (metadata and derived values)
+ * and are consumed without producing an INI key.
+ */
+const derivedKeys = [
+  'type',
+  'name',
+  'from',
+  'is_custom_defined',
+  'version',
+  'print_settings_id',
+  'filament_settings_id',
+  'printer_settings_id',
+  'nozzle_temperature_range_low',
+  'nozzle_temperature_range_high',
+  'slow_down_for_layer_cooling'
+];
+
+/** OrcaSlicer keys holding G-code or free text that must be re-escaped for INI storage. */
+const gcodeKeys = [
+  'filament_start_gcode',
+  'filament_end_gcode',
+  'post_process',
+  'before_layer_change_gcode',
+  'change_filament_gcode',
+  'layer_change_gcode',
+  'change_extrusion_role_gcode',
+  'machine_end_gcode',
+  'machine_pause_gcode',
+  'machine_start_gcode',
+  'template_custom_gcode',
+  'notes',
+  'filament_notes',
+  'printer_notes'
+];
+
+/** OrcaSlicer keys holding compatible condition expressions. */
+const conditionKeys = ['compatible_printers_condition', 'compatible_prints_condition'];
+
+/** OrcaSlicer keys storing profile name lists (semicolon-separated and quoted in INI files). */
+const profileListKeys = ['compatible_printers', 'compatible_prints'];
+
+/**
+ * Inverts a many-to-one lookup table. When several source values map to the same target,
+ * the identical name wins, otherwise the first entry does.
+ *
+ * @param table - The forward lookup table
+ * @returns The inverted lookup table
+ */
+function invertTable(table: { [key: string]: string }): { [key: string]: string } {
+  const inverted: { [key: string]: string } = {};
+  for (const [source, target] of Object.entries(table)) {
+    if (!(target in inverted) || source === target) {
+      inverted[target] = source;
+    }
+  }
+  return inverted;
+}
+
+/**
+ * Builds the OrcaSlicer-to-INI key map for an INI type by inverting `parameterMap`.
+ *
+ * @param iniType - The profile type to invert
+ * @returns A map of OrcaSlicer keys to source INI keys
+ *
+ * @remarks
+ * Parameters that map to several OrcaSlicer keys (e.g. `bed_temperature`) are inverted for each
+ * of those keys. Printer profiles also include the physical printer map, since PrusaSlicer
+ * accepts network settings in printer profiles. Speed keys from `speedParams` are included for
+ * print profiles.
+ *
+ * @example
+ * ```ts
+ * invertParameterMap('print')['sparse_infill_density'] // 'fill_density'
+ * ```
+ */
+export function invertParameterMap(iniType: OutputIniType): { [key: string]: string } {
+  const inverted: { [key: string]: string } = {};
+  const typeMaps: IniType[] = iniType === 'printer' ? ['printer', 'physical_printer'] : [iniType];
+
+  for (const type of typeMaps) {
+    const typeMap = parameterMap[type] || {};
+    for (const [source, target] of Object.entries(typeMap)) {
+      const targets = Array.isArray(target) ? target : [target];
+      for (const key of targets) {
+        if (!(key in inverted) || source === key) {
+          inverted[key] = source;
+        }
+      }
+    }
+  }
+
+  if (iniType === 'print') {
+    Object.assign(inverted, invertTable(speedParams));
+  }
+
+  return inverted;
+}
+
+/**
+ * Detects the profile type of an OrcaSlicer JSON profile.
+ *
+ * @param json - The parsed OrcaSlicer JSON profile
+ * @returns The corresponding INI type, or undefined if it cannot be determined
+ *
+ * @remarks
+ * Uses the `type` field written by OrcaSlicer, falling back to the `*_settings_id` key
+ * written by this converter.
+ */
+export function detectJsonType(json: Record<string, unknown>): OutputIniType | undefined {
+  if (typeof json['type'] === 'string' && jsonTypes[json['type']]) {
+    return jsonTypes[json['type']];
+  }
+  for (const iniType of ['print', 'filament', 'printer'] as OutputIniType[]) {
+    if (`${iniType}_settings_id` in json) {
+      return iniType;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Flattens an OrcaSlicer JSON value into an INI string.
+ *
+ * @param value - The JSON value (string, number, boolean, or array)
+ * @returns The INI representation, or undefined for null/object values
+ */
+function jsonValueToString(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item)).join(',');
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0';
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Converts an OrcaSlicer JSON profile back into PrusaSlicer/SuperSlicer INI key/value pairs.
+ *
+ * @param json - The parsed OrcaSlicer JSON profile
+ * @param iniType - The profile type of the JSON file
+ * @param slicerFlavor - The slicer the INI file is intended for
+ * @returns The converted INI values together with the keys that could not be inverted
+ *
+ * @remarks
+ * This function inverts:
+ * - Key names from `parameterMap` and `speedParams`
+ * - Lookup tables (filament types, infill patterns, seam positions, G-code flavors, etc.)
+ * - Combination settings (`wall_infill_order` or `wall_sequence`/`is_infill_first`, `ironing_type`,
+ *   `support_type`/`support_style`)
+ * - Dynamic overhang speeds (per flavor)
+ * - Flow ratios (floats back to percentages) and escaped G-code
+ *
+ * G-code and compatible conditions are copied with their OrcaSlicer placeholder names; those
+ * that use a placeholder PrusaSlicer/SuperSlicer names differently are reported as lossy.
+ *
+ * @example
+ * ```ts
+ * const { ini, unmapped } = convertJsonToIni(json, 'print', 'PrusaSlicer');
+ * // ini['fill_pattern'] === 'rectilinear' when json['sparse_infill_pattern'] === 'zig-zag'
+ * ```
+ */
+export function convertJsonToIni(
+  json: Record<string, unknown>,
+  iniType: OutputIniType,
+  slicerFlavor: IniSlicerFlavor
+): ReverseResult {
+  const ini: SourceIni = {};
+  const unmapped: string[] = [];
+  const lossy: string[] = [];
+  const keyMap = invertParameterMap(iniType);
+
+  const values: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(json)) {
+    const stringValue = jsonValueToString(value);
+    if (stringValue === undefined) {
+      unmapped.push(key);
+      continue;
+    }
+    values[key] = stringValue;
+  }
+
+  // Combination settings that do not map one-to-one
+  const combinations: { [key: string]: (value: string) => void } = {
+    wall_infill_order: value => {
+      const order = value.split('/');
+      ini['external_perimeters_first'] = order.indexOf('outer wall') < order.indexOf('inner wall') ? '1' : '0';
+      ini['infill_first'] = order[0] === 'infill' ? '1' : '0';
+    },
+
+    // OrcaSlicer 2.0 and newer
+    wall_sequence: value => {
+      ini['external_perimeters_first'] = value.startsWith('outer wall') ? '1' : '0';
+      if (value === 'inner-outer-inner wall') {
+        lossy.push('wall_sequence');
+      }
+    },
+
+    is_infill_first: value => {
+      ini['infill_first'] = value === '1' ? '1' : '0';
+    },
+
+    ironing_type: value => {
+      ini['ironing'] = value === 'no ironing' ? '0' : '1';
+      if (value !== 'no ironing') {
+        ini['ironing_type'] = value;
+      }
+    },
+
+    support_type: value => {
+      const match = value.match(/^(\w+)\((auto|manual)\)$/);
+      if (!match) {
+        lossy.push('support_type');
+        return;
+      }
+      const [, supportType, genstyle] = match;
+      const supportStyle = values['support_style'] || 'default';
+      const style = Object.entries(supportStyles)
+        .find(([, [type, styleName]]) => type === supportType && styleName === supportStyle)
+        || Object.entries(supportStyles).find(([, [type]]) => type === supportType);
+      if (style) {
+        ini['support_material_style'] = style[0];
+      } else {
+        lossy.push('support_type');
+      }
+      ini['support_material_auto'] = genstyle === 'auto' ? '1' : '0';
+    },
+
+    support_style: () => {
+      // Handled together with support_type
+    },
+
+    enable_overhang_speed: value => {
+      ini['enable_dynamic_overhang_speeds'] = value;
+      const speeds = [1, 2, 3, 4].map(idx => values[`overhang_${idx}_4_speed`] || '');
+      if (slicerFlavor === 'SuperSlicer') {
+        ini['dynamic_overhang_speeds'] = [...speeds].reverse().join(',');
+      } else {
+        speeds.forEach((speed, idx) => {
+          ini[`overhang_speed_${3 - idx}`] = speed;
+        });
+      }
+    }
+  };
+  for (const idx of [1, 2, 3, 4]) {
+    combinations[`overhang_${idx}_4_speed`] = () => {
+      // Handled together with enable_overhang_speed
+    };
+  }
+
+  const invertedFilamentTypes = invertTable(filamentTypes);
+  const invertedSeamPositions = invertTable(seamPositions);
+  const invertedInfillTypes = invertTable(infillTypes);
+  const invertedGcodeFlavors = invertTable(gcodeFlavors);
+  const invertedHostTypes = invertTable(hostTypes);
+  const invertedZhopEnforcement = invertTable(zhopEnforcement);
+  const invertedThumbnailFormat = invertTable(thumbnailFormat);
+
+  // Value transforms, keyed by OrcaSlicer key
+  const transforms: { [key: string]: (value: string) => string | undefined } = {
+    filament_type: value => invertedFilamentTypes[value] || value,
+
+    draft_shield: value => {
+      if (value === '0') return 'disabled';
+      if (value === '1') return 'enabled';
+      return value;
+    },
+
+    overhang_fan_threshold: value => value === '0%' ? '-1' : value.replace(/%$/, ''),
+
+    bridge_flow: value => floatToPercent(value),
+    top_solid_infill_flow_ratio: value => floatToPercent(value),
+    bottom_solid_infill_flow_ratio: value => floatToPercent(value),
+
+    emit_machine_limits_to_gcode: value => value === '1' ? 'emit_to_gcode' : 'time_estimate_only',
+
+    disable_m73: value => value === '1' ? '0' : '1',
+
+    sparse_infill_pattern: value => invertedInfillTypes[value] || value,
+    internal_solid_infill_pattern: value => invertedInfillTypes[value] || value,
+    top_surface_pattern: value => invertedInfillTypes[value] || value,
+    bottom_surface_pattern: value => invertedInfillTypes[value] || value,
+
+    seam_position: value => invertedSeamPositions[value] || value,
+
+    gcode_flavor: value => invertedGcodeFlavors[value] || value,
+
+    host_type: value => invertedHostTypes[value] || value,
+
+    thumbnails_format: value => invertedThumbnailFormat[value] || value,
+
+    retract_lift_enforce: value => invertedZhopEnforcement[value] || value,
+
+    extruder_colour: value => `"${value}"`,
+
+    print_sequence: value => value === 'by object' ? '1' : '0',
+
+    independent_support_layer_height: value => {
+      if (value === '0') return '0';
+      lossy.push('independent_support_layer_height');
+      return undefined;
+    },
+
+    infill_combination: value => {
+      if (value === '0') return '1';
+      lossy.push('infill_combination');
+      return undefined;
+    }
+  };
+  for (const key of gcodeKeys) {
+    transforms[key] = value => backslash(value);
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    if (derivedKeys.includes(key)) continue;
+
+    if (combinations[key]) {
+      combinations[key](value);
+      continue;
+    }
+
+    const iniKey = keyMap[key];
+    if (!iniKey) {
+      unmapped.push(key);
+      continue;
+    }
+
+    let iniValue: string | undefined;
+    if (profileListKeys.includes(key)) {
+      const names = Array.isArray(json[key]) ? (json[key] as unknown[]).map(String) : value.split(';');
+      iniValue = names
+        .filter(name => name !== '')
+        .map(name => /^".*"$/.test(name) ? name : `"${name}"`)
+        .join(';');
+    } else if (transforms[key] && Array.isArray(json[key])) {
+      // Per-extruder values are transformed one by one
+      const items = (json[key] as unknown[]).map(item => transforms[key](String(item)));
+      iniValue = items.some(item => item === undefined)
+        ? undefined
+        : items.join(key === 'extruder_colour' ? ';' : ',');
+    } else if (transforms[key]) {
+      iniValue = transforms[key](value);
+    } else {
+      iniValue = value;
+    }
+    if (iniValue === undefined) continue;
+    if ((gcodeKeys.includes(key) || conditionKeys.includes(key)) && findRenamedPlaceholders(value).length > 0) {
+      lossy.push(key);
+    }
+
+    // Parameters mapped to several OrcaSlicer keys: keep the first, flag disagreeing duplicates
+    if (iniKey in ini) {
+      if (ini[iniKey] !== iniValue && !lossy.includes(key)) {
+        lossy.push(key);
+      }
+      continue;
+    }
+    ini[iniKey] = iniValue;
+  }
+
+  return { ini, unmapped, lossy };
+}
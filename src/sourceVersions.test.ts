@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { upgradeSourceIni } from './sourceVersions';
+
+describe('sourceVersions', () => {
+  describe('upgradeSourceIni', () => {
+    it('should leave profiles from current releases unchanged', () => {
+      const sourceIni = { thumbnails: '16x16/QOI, 313x173/QOI', support_material_contact_distance: '0.2' };
+      const { config, warnings } = upgradeSourceIni(sourceIni, 'PrusaSlicer', '2.7.1');
+      expect(config).toEqual(sourceIni);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should not apply version-specific upgrades without a version', () => {
+      const sourceIni = { thumbnails: '16x16,220x124', thumbnails_format: 'JPG' };
+      expect(upgradeSourceIni(sourceIni, 'PrusaSlicer', undefined).config).toEqual(sourceIni);
+    });
+
+    it('should add the thumbnail format for releases before PrusaSlicer 2.6', () => {
+      const sourceIni = { thumbnails: '16x16,220x124', thumbnails_format: 'JPG' };
+      const { config, warnings } = upgradeSourceIni(sourceIni, 'PrusaSlicer', '2.5.2');
+      expect(config['thumbnails']).toBe('16x16/JPG, 220x124/JPG');
+      expect(sourceIni['thumbnails']).toBe('16x16,220x124');
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('PrusaSlicer 2.5.2');
+    });
+
+    it('should fill in the support settings added in PrusaSlicer 2.4', () => {
+      const { config } = upgradeSourceIni({ support_material_contact_distance: '0.15' }, 'PrusaSlicer', '2.3.3');
+      expect(config).toEqual({
+        support_material_contact_distance: '0.15',
+        support_material_style: 'grid',
+        support_material_bottom_contact_distance: '0',
+        support_material_bottom_interface_layers: '-1',
+        raft_contact_distance: '0.15'
+      });
+    });
+
+    it('should use the PrusaSlicer base release of SuperSlicer versions', () => {
+      const sourceIni = { thumbnails: '16x16', support_material_contact_distance: '0.2', support_material_style: 'snug' };
+      const { config } = upgradeSourceIni(sourceIni, 'SuperSlicer', '2.5.59.2');
+      expect(config['thumbnails']).toBe('16x16/PNG');
+      expect(config['support_material_style']).toBe('snug');
+      expect(config['raft_contact_distance']).toBeUndefined();
+    });
+
+    it('should split SuperSlicer dynamic overhang speeds', () => {
+      const { config, warnings } = upgradeSourceIni({ dynamic_overhang_speeds: '100,80,60,40' }, 'SuperSlicer', undefined);
+      expect(config).toEqual({
+        overhang_speed_0: '100',
+        overhang_speed_1: '80',
+        overhang_speed_2: '60',
+        overhang_speed_3: '40'
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should use the PrusaSlicer base release of QIDISlicer versions', () => {
+      const sourceIni = { thumbnails: '16x16/PNG', support_material_contact_distance: '0.2' };
+      expect(upgradeSourceIni(sourceIni, 'QIDISlicer', '1.0.2')).toEqual({ config: sourceIni, warnings: [] });
+      expect(upgradeSourceIni(sourceIni, 'QIDISlicer', '9.0.0')).toEqual({ config: sourceIni, warnings: [] });
+    });
+
+    it('should apply SuperSlicer upgrades to Slic3r++ profiles', () => {
+      const { config } = upgradeSourceIni({ dynamic_overhang_speeds: '100,80' }, 'Slic3r++', '2.3.56');
+      expect(config).toEqual({ overhang_speed_0: '100', overhang_speed_1: '80' });
+    });
+
+    it('should rename the Slic3r top and bottom fill patterns', () => {
+      expect(upgradeSourceIni({ top_infill_pattern: 'concentric', bottom_infill_pattern: 'rectilinear' }, 'Slic3r', '1.3.0').config)
+        .toEqual({ top_fill_pattern: 'concentric', bottom_fill_pattern: 'rectilinear' });
+      expect(upgradeSourceIni({ external_fill_pattern: 'concentric' }, 'Slic3r', '1.41.3').config)
+        .toEqual({ top_fill_pattern: 'concentric', bottom_fill_pattern: 'concentric' });
+    });
+
+    it('should warn about releases older than the oldest supported one', () => {
+      const { warnings } = upgradeSourceIni({ layer_height: '0.2' }, 'PrusaSlicer', '2.2.0');
+      expect(warnings[0]).toContain('older than the oldest supported release');
+    });
+  });
+});
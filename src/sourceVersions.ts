@@ -0,0 +1,195 @@
+/**
+ * Support for profiles exported by older PrusaSlicer and SuperSlicer releases and their forks.
+ *
+ * `parameterMap` and the special cases in `conversion.ts` expect the key names and value formats
+ * of current PrusaSlicer releases. This module upgrades a profile exported by an older release
+ * (or using SuperSlicer's or Slic3r's own key names) to that schema before it is converted.
+ */
+
+import { SourceIni, SlicerFlavor } from './types';
+import { sourceSlicers } from './constants';
+import { baseFlavor } from './flavors';
+import { compareVersions, multivalueToArray } from './utils';
+
+/**
+ * Key changes between source slicer releases.
+ */
+interface SourceOverlay {
+  /**
+   * The first PrusaSlicer release with the current keys. Profiles from older releases are
+   * upgraded; if omitted, every profile of the flavor is upgraded.
+   */
+  version?: string;
+  /**
+   * Slicer whose profiles need the upgrade, including forks based on it; every slicer if omitted
+   */
+  flavor?: SlicerFlavor;
+  /** What the upgrade did, for the warning shown to the user */
+  description: string;
+  /**
+   * Upgrades the profile in place.
+   * @returns Whether the profile was changed
+   */
+  upgrade: (sourceIni: SourceIni) => boolean;
+}
+
+/**
+ * Result of upgrading a profile to the current source schema.
+ */
+export interface SourceUpgrade {
+  /** The upgraded profile */
+  config: SourceIni;
+  /** Notes about every version-specific upgrade that changed the profile */
+  warnings: string[];
+}
+
+/** The oldest PrusaSlicer release whose key changes are known. */
+const OLDEST_SOURCE_VERSION = '2.3.0';
+
+/** Source schema overlays, oldest first. */
+const sourceOverlays: SourceOverlay[] = [
+  {
+    // Support style, separate bottom contact distance and interface layers, and the raft contact
+    // distance were added; older releases behaved like these defaults
+    version: '2.4.0',
+    description: 'support settings added in PrusaSlicer 2.4 were set to match the older behavior',
+    upgrade: sourceIni => {
+      const contactDistance = sourceIni['support_material_contact_distance'];
+      if (contactDistance === undefined) return false;
+
+      const defaults: SourceIni = {
+        support_material_style: 'grid',
+        support_material_bottom_contact_distance: '0',
+        support_material_bottom_interface_layers: '-1',
+        raft_contact_distance: contactDistance
+      };
+      let changed = false;
+      for (const [key, value] of Object.entries(defaults)) {
+        if (!(key in sourceIni)) {
+          sourceIni[key] = value;
+          changed = true;
+        }
+      }
+      return changed;
+    }
+  },
+  {
+    // thumbnails_format was folded into thumbnails, which now lists SIZE/FORMAT entries
+    version: '2.6.0',
+    description: 'thumbnails were converted to the SIZE/FORMAT list introduced in PrusaSlicer 2.6',
+    upgrade: sourceIni => {
+      const thumbnails = multivalueToArray(sourceIni['thumbnails']).filter(size => size !== '');
+      if (thumbnails.length === 0 || thumbnails.every(size => size.includes('/'))) return false;
+
+      const format = sourceIni['thumbnails_format'] || 'PNG';
+      sourceIni['thumbnails'] = thumbnails
+        .map(size => size.includes('/') ? size : `${size}/${format}`)
+        .join(', ');
+      return true;
+    }
+  },
+  {
+    // SuperSlicer keeps the four dynamic overhang speeds in a single list
+    flavor: 'SuperSlicer',
+    description: 'dynamic_overhang_speeds was split into overhang_speed_0..3',
+    upgrade: sourceIni => {
+      if (!sourceIni['dynamic_overhang_speeds'] || 'overhang_speed_0' in sourceIni) return false;
+
+      sourceIni['dynamic_overhang_speeds'].split(',').forEach((speed, idx) => {
+        if (idx < 4) sourceIni[`overhang_speed_${idx}`] = speed.trim();
+      });
+      delete sourceIni['dynamic_overhang_speeds'];
+      return true;
+    }
+  },
+  {
+    // Slic3r names the top and bottom fill patterns differently (external_fill_pattern sets both)
+    flavor: 'Slic3r',
+    description: 'top and bottom fill patterns were renamed to top_fill_pattern and bottom_fill_pattern',
+    upgrade: sourceIni => {
+      const renames: { [key: string]: string[] } = {
+        external_fill_pattern: ['top_fill_pattern', 'bottom_fill_pattern'],
+        top_infill_pattern: ['top_fill_pattern'],
+        bottom_infill_pattern: ['bottom_fill_pattern']
+      };
+      let changed = false;
+      for (const [oldKey, newKeys] of Object.entries(renames)) {
+        if (sourceIni[oldKey] === undefined) continue;
+        for (const newKey of newKeys) {
+          sourceIni[newKey] = sourceIni[newKey] ?? sourceIni[oldKey];
+        }
+        delete sourceIni[oldKey];
+        changed = true;
+      }
+      return changed;
+    }
+  }
+];
+
+/**
+ * Maps a source slicer version to the PrusaSlicer release it is based on.
+ *
+ * @param slicerFlavor - The source slicer
+ * @param slicerVersion - The version from the INI header
+ * @returns The PrusaSlicer version whose keys the profile uses, or undefined if it is not known
+ *
+ * @remarks
+ * SuperSlicer and Slic3r++ versions keep the major and minor version of the PrusaSlicer release
+ * they are based on (SuperSlicer 2.5.59 is based on PrusaSlicer 2.5). Forks with their own
+ * version numbers list the PrusaSlicer release of each of their releases in `sourceSlicers`.
+ */
+function baseVersion(slicerFlavor: SlicerFlavor, slicerVersion: string): string | undefined {
+  const [major = '0', minor = '0'] = slicerVersion.split('.');
+  const baseVersions = sourceSlicers.find(candidate => candidate.flavor === slicerFlavor)?.baseVersions;
+  if (baseVersions) {
+    return baseVersions[`${major}.${minor}`];
+  }
+  if (baseFlavor(slicerFlavor) === 'SuperSlicer') {
+    return `${major}.${minor}.0`;
+  }
+  return slicerVersion;
+}
+
+/**
+ * Upgrades a profile from an older or forked source slicer to the current PrusaSlicer keys.
+ *
+ * @param sourceIni - The parsed source INI configuration (not modified)
+ * @param slicerFlavor - The source slicer
+ * @param slicerVersion - The source slicer version from the INI header, if known
+ * @returns The upgraded profile and a note for every version-specific upgrade that was applied
+ *
+ * @remarks
+ * Version-specific overlays are only applied when the version is known (for forks with their
+ * own version numbers, when the release is listed in `sourceSlicers`); without one the
+ * profile is assumed to use the current keys. Profiles from releases older than the oldest
+ * known one are still upgraded, with a warning that some settings may not convert correctly.
+ *
+ * @example
+ * ```ts
+ * const { config } = upgradeSourceIni({ thumbnails: '16x16,220x124', thumbnails_format: 'JPG' }, 'PrusaSlicer', '2.5.2');
+ * config['thumbnails'] // '16x16/JPG, 220x124/JPG'
+ * ```
+ */
+export function upgradeSourceIni(
+  sourceIni: SourceIni,
+  slicerFlavor: SlicerFlavor,
+  slicerVersion: string | undefined
+): SourceUpgrade {
+  const config: SourceIni = { ...sourceIni };
+  const warnings: string[] = [];
+  const version = slicerVersion ? baseVersion(slicerFlavor, slicerVersion) : undefined;
+
+  if (version && compareVersions(version, OLDEST_SOURCE_VERSION) < 0) {
+    warnings.push(`${slicerFlavor} ${slicerVersion} is older than the oldest supported release; some settings may not convert correctly`);
+  }
+
+  for (const overlay of sourceOverlays) {
+    if (overlay.flavor && overlay.flavor !== slicerFlavor && overlay.flavor !== baseFlavor(slicerFlavor)) continue;
+    if (overlay.version && (!version || compareVersions(version, overlay.version) >= 0)) continue;
+
+    if (overlay.upgrade(config) && overlay.version) {
+      warnings.push(`Exported by ${slicerFlavor} ${slicerVersion}: ${overlay.description}`);
+    }
+  }
+  return { config, warnings };
+}
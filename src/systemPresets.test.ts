@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { readVendorPresets, matchSystemPreset, inheritSystemPreset } from './systemPresets';
+import type { SystemPreset } from './types';
+
+const filaments: SystemPreset[] = [
+  { name: 'fdm_filament_pla', vendor: 'OrcaFilamentLibrary', config: { instantiation: 'false', filament_type: ['PLA'] } },
+  { name: 'Generic PLA', vendor: 'OrcaFilamentLibrary', config: { filament_type: ['PLA'], filament_vendor: ['Generic'], nozzle_temperature: ['220'] } },
+  { name: 'Polymaker PLA', vendor: 'OrcaFilamentLibrary', config: { filament_type: ['PLA'], filament_vendor: ['Polymaker'] } },
+  { name: 'Generic PETG', vendor: 'OrcaFilamentLibrary', config: { filament_type: ['PETG'], filament_vendor: ['Generic'] } }
+];
+
+const processes: SystemPreset[] = [
+  { name: '0.20mm Standard @MK4', vendor: 'Prusa', config: { layer_height: '0.2', compatible_printers: ['Prusa MK4 0.4 nozzle'] } },
+  { name: '0.20mm Standard @MK4 0.6', vendor: 'Prusa', config: { layer_height: '0.2', compatible_printers: ['Prusa MK4 0.6 nozzle'] } },
+  { name: '0.20mm Standard @X1C', vendor: 'BBL', config: { layer_height: '0.2', compatible_printers: ['Bambu Lab X1 Carbon 0.4 nozzle'] } },
+  { name: '0.15mm Detail @MK4', vendor: 'Prusa', config: { layer_height: '0.15', compatible_printers: ['Prusa MK4 0.4 nozzle'] } }
+];
+
+describe('systemPresets', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readVendorPresets', () => {
+    it('should read the presets of one type with inherited settings', () => {
+      fs.mkdirSync(path.join(tempDir, 'Acme', 'filament'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'Acme.json'), JSON.stringify({
+        filament_list: [
+          { name: 'fdm_filament_pla', sub_path: 'filament/fdm_filament_pla.json' },
+          { name: 'Acme PLA', sub_path: 'filament/Acme PLA.json' }
+        ],
+        process_list: [{ name: '0.20mm Standard', sub_path: 'process/0.20mm Standard.json' }]
+      }));
+      fs.writeFileSync(path.join(tempDir, 'Acme', 'filament', 'fdm_filament_pla.json'), JSON.stringify({
+        instantiation: 'false',
+        filament_type: ['PLA'],
+        nozzle_temperature: ['210']
+      }));
+      fs.writeFileSync(path.join(tempDir, 'Acme', 'filament', 'Acme PLA.json'), JSON.stringify({
+        inherits: 'fdm_filament_pla',
+        nozzle_temperature: ['215']
+      }));
+
+      const presets = readVendorPresets(tempDir, 'filament');
+      expect(presets.map(preset => preset.name)).toEqual(['fdm_filament_pla', 'Acme PLA']);
+      expect(presets[1]).toEqual({
+        name: 'Acme PLA',
+        vendor: 'Acme',
+        config: { filament_type: ['PLA'], nozzle_temperature: ['215'], inherits: 'fdm_filament_pla' }
+      });
+      expect(readVendorPresets(tempDir, 'print')).toEqual([{ name: '0.20mm Standard', vendor: 'Acme', config: {} }]);
+    });
+  });
+
+  describe('matchSystemPreset', () => {
+    it('should match filaments by type and vendor, falling back to generic presets', () => {
+      expect(matchSystemPreset({ filament_type: 'PLA', filament_vendor: 'Polymaker' }, 'filament', filaments, {}))
+        .toEqual({ name: 'Polymaker PLA', score: 20, evidence: ['filament_type PLA', 'vendor Polymaker'] });
+      expect(matchSystemPreset({ filament_type: 'pla', filament_vendor: 'Prusament' }, 'filament', filaments, {})?.name)
+        .toBe('Generic PLA');
+      expect(matchSystemPreset({ filament_type: 'ASA' }, 'filament', filaments, {})).toBeUndefined();
+    });
+
+    it('should match processes by layer height and nozzle size', () => {
+      expect(matchSystemPreset({ layer_height: '0.2' }, 'print', processes, { nozzleSize: 0.6 })?.name)
+        .toBe('0.20mm Standard @MK4 0.6');
+      expect(matchSystemPreset({ layer_height: '0.25' }, 'print', processes, { nozzleSize: 0.4 })).toBeUndefined();
+    });
+
+    it('should prefer presets for the printers linked in the session', () => {
+      const match = matchSystemPreset({ layer_height: '0.2' }, 'print', processes, {
+        nozzleSize: 0.4,
+        linkedPrinters: ['Bambu Lab X1 Carbon 0.4 nozzle']
+      });
+      expect(match).toEqual({
+        name: '0.20mm Standard @X1C',
+        score: 50,
+        evidence: ['layer_height 0.2', 'nozzle 0.4', 'printer Bambu Lab X1 Carbon 0.4 nozzle']
+      });
+    });
+  });
+
+  describe('inheritSystemPreset', () => {
+    it('should keep only the settings that differ from the system preset', () => {
+      const json = {
+        name: 'My PLA',
+        filament_settings_id: 'My PLA',
+        from: 'User',
+        filament_type: 'PLA',
+        filament_vendor: 'Generic',
+        nozzle_temperature: '215'
+      };
+      const base = { ...filaments[1], config: { ...filaments[1].config, compatible_printers: ['Prusa MK4 0.4 nozzle'] } };
+
+      expect(inheritSystemPreset(json, base)).toEqual({
+        inherits: 'Generic PLA',
+        name: 'My PLA',
+        filament_settings_id: 'My PLA',
+        from: 'User',
+        nozzle_temperature: '215',
+        compatible_printers: []
+      });
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Inheritance of converted filament and process profiles from OrcaSlicer system presets.
+ *
+ * This module handles:
+ * - Reading the presets listed in the vendor index files of OrcaSlicer's `system` folder,
+ *   with their `inherits` chains flattened
+ * - Choosing the system preset a converted profile is based on: filaments by `filament_type`
+ *   and vendor, processes by layer height and nozzle size
+ * - Reducing the converted profile to the keys that differ from that preset, as OrcaSlicer
+ *   stores its own user presets
+ */
+
+import { NewHash, SystemPreset, SystemPresetMatch, SystemPrinter } from './types';
+import { presetMatchWeights } from './constants';
+import { readJsonFile, getChildren, getBasename, joinPath, fileExists } from './fileIO';
+
+/** Vendor index lists of each preset type. */
+const presetLists = {
+  printer: 'machine_list',
+  print: 'process_list',
+  filament: 'filament_list'
+};
+
+/** Keys of a user preset that are always written, even if the system preset has the same value. */
+const userPresetKeys = [
+  'name',
+  'inherits',
+  'from',
+  'is_custom_defined',
+  'version',
+  'print_settings_id',
+  'filament_settings_id',
+  // Compatibility follows the source profile rather than the system preset it is based on
+  'compatible_printers',
+  'compatible_printers_condition',
+  'compatible_prints',
+  'compatible_prints_condition'
+];
+
+/**
+ * Reads the presets of one type from the system presets of an OrcaSlicer installation.
+ *
+ * @param systemDir - OrcaSlicer's `system` folder, holding one index file per vendor
+ * @param iniType - The type of presets to read
+ * @returns The presets listed in the vendors' index files, each with its `inherits` chain
+ *   within the vendor folder flattened into its config
+ *
+ * @remarks
+ * Index files and presets that cannot be read are skipped; a preset whose file cannot be read
+ * is still listed, with an empty config. Abstract presets (`instantiation` is `false`) are
+ * included, so callers decide whether to use them; `instantiation` is not inherited.
+ *
+ * @example
+ * ```ts
+ * readVendorPresets("~/.config/OrcaSlicer/system", 'filament')
+ * // [{ name: "Generic PLA", vendor: "OrcaFilamentLibrary", config: { filament_type: ["PLA"], ... } }, ...]
+ * ```
+ */
+export function readVendorPresets(systemDir: string, iniType: keyof typeof presetLists): SystemPreset[] {
+  const presets: SystemPreset[] = [];
+
+  for (const indexFile of getChildren(systemDir, /\.json$/)) {
+    const vendor = getBasename(indexFile, '.json');
+    let presetList: unknown[];
+    try {
+      const index = readJsonFile(indexFile);
+      const list = index[presetLists[iniType]];
+      presetList = Array.isArray(list) ? list : [];
+    } catch (e) {
+      // Skip invalid JSON files
+      continue;
+    }
+
+    const subPaths: { [name: string]: string } = {};
+    for (const preset of presetList as { name?: string; sub_path?: string }[]) {
+      if (preset.name && preset.sub_path) subPaths[preset.name] = preset.sub_path;
+    }
+
+    const readPreset = (name: string, seen: string[] = []): Record<string, unknown> => {
+      const presetFile = subPaths[name] && joinPath(systemDir, vendor, subPaths[name]);
+      if (!presetFile || seen.includes(name) || !fileExists(presetFile)) return {};
+      try {
+        const preset = readJsonFile(presetFile);
+        const { instantiation, ...parent } = typeof preset.inherits === 'string' ? readPreset(preset.inherits, [...seen, name]) : {};
+        return { ...parent, ...preset };
+      } catch (e) {
+        return {};
+      }
+    };
+
+    for (const preset of presetList as { name?: string }[]) {
+      if (preset.name) {
+        presets.push({ name: preset.name, vendor, config: readPreset(preset.name) });
+      }
+    }
+  }
+
+  return presets;
+}
+
+/**
+ * Normalizes a setting value for comparison, so that OrcaSlicer's single-value lists
+ * (`["220"]`) equal the plain strings written by `convertProfile` (`"220"`).
+ *
+ * @param value - A setting value from a JSON profile
+ * @returns The value as a list of strings
+ */
+function settingValues(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+/**
+ * Reads the first value of a setting as a number.
+ *
+ * @param value - A setting value from a JSON profile
+ * @returns The number, or NaN if the setting is missing or not a number
+ */
+function firstNumber(value: unknown): number {
+  return parseFloat(settingValues(value)[0]);
+}
+
+/**
+ * Chooses the system preset that a converted filament or process profile is based on.
+ *
+ * @param json - The converted profile
+ * @param iniType - The type of the converted profile
+ * @param presets - The system presets of that type, as returned by `readVendorPresets`
+ * @param context - The nozzle size of a process profile, the system printers (to look up the
+ *   nozzle size of the printers a process preset is for) and the system printers that the
+ *   printer profiles of this session inherit from
+ * @returns The best matching preset, or undefined if no preset has the same filament type
+ *   (filaments) or the same layer height and nozzle size (processes)
+ *
+ * @remarks
+ * Abstract presets are never chosen. Among the presets that qualify, each property in
+ * `presetMatchWeights` adds its weight when it matches:
+ * - vendor: the filament vendor is the same, or, failing that, the preset is a `Generic` one
+ * - nozzle: a process preset is for printers with the same nozzle size
+ * - printer: the preset is compatible with a system printer linked in this session
+ * Ties are broken by name, so the same preset is chosen every time.
+ *
+ * @example
+ * ```ts
+ * matchSystemPreset({ filament_type: 'PLA', filament_vendor: 'Polymaker' }, 'filament', presets, {})
+ * // { name: 'Polymaker PLA', score: 20, evidence: ['filament_type PLA', 'vendor Polymaker'] }
+ * ```
+ */
+export function matchSystemPreset(
+  json: NewHash,
+  iniType: 'print' | 'filament',
+  presets: SystemPreset[],
+  context: { nozzleSize?: number; printers?: SystemPrinter[]; linkedPrinters?: string[] }
+): SystemPresetMatch | undefined {
+  const nozzles: { [printer: string]: number | undefined } = {};
+  for (const printer of context.printers || []) {
+    nozzles[printer.name] = printer.nozzleDiameter;
+  }
+  const presetNozzles = (config: Record<string, unknown>): number[] => settingValues(config['compatible_printers'])
+    .map(printer => nozzles[printer] ?? parseFloat(/([\d.]+) nozzle/.exec(printer)?.[1] || ''))
+    .filter(nozzle => !isNaN(nozzle));
+
+  const filamentType = settingValues(json['filament_type'])[0]?.toUpperCase();
+  const vendor = settingValues(json['filament_vendor'])[0]?.toLowerCase();
+  const layerHeight = firstNumber(json['layer_height']);
+  const matches: SystemPresetMatch[] = [];
+
+  for (const preset of presets) {
+    const { config } = preset;
+    if (String(config['instantiation']) === 'false') continue;
+    let score = 0;
+    const evidence: string[] = [];
+
+    if (iniType === 'filament') {
+      if (!filamentType || settingValues(config['filament_type'])[0]?.toUpperCase() !== filamentType) continue;
+      evidence.push(`filament_type ${filamentType}`);
+      const presetVendor = settingValues(config['filament_vendor'])[0] || '';
+      if (vendor && presetVendor.toLowerCase() === vendor) {
+        score += presetMatchWeights.vendor;
+        evidence.push(`vendor ${presetVendor}`);
+      } else if (presetVendor.toLowerCase() === 'generic') {
+        score += presetMatchWeights.generic;
+      }
+    } else {
+      if (isNaN(layerHeight) || Math.abs(firstNumber(config['layer_height']) - layerHeight) > 0.0001) continue;
+      evidence.push(`layer_height ${layerHeight}`);
+      const presetNozzleSizes = presetNozzles(config);
+      if (context.nozzleSize && presetNozzleSizes.length > 0) {
+        if (!presetNozzleSizes.some(nozzle => Math.abs(nozzle - context.nozzleSize!) < 0.001)) continue;
+        score += presetMatchWeights.nozzle;
+        evidence.push(`nozzle ${context.nozzleSize}`);
+      }
+    }
+
+    const linked = settingValues(config['compatible_printers']).find(printer => (context.linkedPrinters || []).includes(printer));
+    if (linked) {
+      score += presetMatchWeights.printer;
+      evidence.push(`printer ${linked}`);
+    }
+
+    matches.push({ name: preset.name, score, evidence });
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))[0];
+}
+
+/**
+ * Reduces a converted profile to a user preset that inherits from a system preset.
+ *
+ * @param json - The converted profile
+ * @param base - The system preset to inherit from
+ * @returns The profile with `inherits` set to the system preset and only the settings that
+ *   differ from it, plus the keys every user preset has
+ *
+ * @remarks
+ * Settings are compared by value, so `"220"` equals `["220"]`. The name, settings id, version
+ * and compatibility settings are always kept; compatibility missing from the converted profile
+ * is written as empty, so it is not inherited from the system preset either.
+ *
+ * @example
+ * ```ts
+ * inheritSystemPreset({ name: 'My PLA', nozzle_temperature: '215', filament_type: 'PLA' }, genericPla)
+ * // { name: 'My PLA', inherits: 'Generic PLA', nozzle_temperature: '215', compatible_printers: [], ... }
+ * ```
+ */
+export function inheritSystemPreset(json: NewHash, base: SystemPreset): NewHash {
+  const inherited: NewHash = { inherits: base.name };
+  for (const [key, value] of Object.entries(json)) {
+    if (key === 'inherits') continue;
+    if (userPresetKeys.includes(key) || settingValues(value).join('\n') !== settingValues(base.config[key]).join('\n')) {
+      inherited[key] = value;
+    }
+  }
+  for (const key of ['compatible_printers', 'compatible_prints']) {
+    if (key in base.config && !(key in inherited)) inherited[key] = [];
+  }
+  for (const key of ['compatible_printers_condition', 'compatible_prints_condition']) {
+    if (key in base.config && !(key in inherited)) inherited[key] = '';
+  }
+  return inherited;
+}
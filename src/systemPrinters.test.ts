@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { readSystemPrinters, matchSystemPrinters, pickSystemPrinter } from './systemPrinters';
+import type { SystemPrinter } from './types';
+
+const printers: SystemPrinter[] = [
+  { name: 'Prusa MK4 0.4 nozzle', vendor: 'Prusa', printerModel: 'Prusa MK4', nozzleDiameter: 0.4, printableArea: ['0x0', '250x0', '250x210', '0x210'] },
+  { name: 'Prusa MK4 0.6 nozzle', vendor: 'Prusa', printerModel: 'Prusa MK4', nozzleDiameter: 0.6, printableArea: ['0x0', '250x0', '250x210', '0x210'] },
+  { name: 'Prusa MK3S 0.4 nozzle', vendor: 'Prusa', printerModel: 'Prusa MK3S', nozzleDiameter: 0.4, printableArea: ['0x0', '250x0', '250x210', '0x210'] },
+  { name: 'Creality Ender-3 V2 0.4 nozzle', vendor: 'Creality', printerModel: 'Creality Ender-3 V2', nozzleDiameter: 0.4, printableArea: ['0x0', '220x0', '220x220', '0x220'] }
+];
+
+describe('systemPrinters', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readSystemPrinters', () => {
+    it('should read the printers of each vendor with inherited details', () => {
+      const writeJson = (file: string, json: object) => {
+        fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(tempDir, file), JSON.stringify(json));
+      };
+      writeJson('Prusa.json', {
+        name: 'Prusa',
+        machine_list: [
+          { name: 'fdm_machine_common', sub_path: 'machine/fdm_machine_common.json' },
+          { name: 'Prusa MK4 0.4 nozzle', sub_path: 'machine/Prusa MK4 0.4 nozzle.json' }
+        ]
+      });
+      writeJson('Prusa/machine/fdm_machine_common.json', { printable_area: ['0x0', '250x0', '250x210', '0x210'] });
+      writeJson('Prusa/machine/Prusa MK4 0.4 nozzle.json', {
+        inherits: 'fdm_machine_common',
+        printer_model: 'Prusa MK4',
+        nozzle_diameter: ['0.4']
+      });
+      fs.writeFileSync(path.join(tempDir, 'broken.json'), '{');
+
+      expect(readSystemPrinters(tempDir)).toEqual([{
+        name: 'Prusa MK4 0.4 nozzle',
+        vendor: 'Prusa',
+        printerModel: 'Prusa MK4',
+        nozzleDiameter: 0.4,
+        printableArea: ['0x0', '250x0', '250x210', '0x210']
+      }]);
+    });
+
+    it('should return no printers without a system directory', () => {
+      expect(readSystemPrinters(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('matchSystemPrinters', () => {
+    it('should score the model, vendor, bed and nozzle', () => {
+      const matches = matchSystemPrinters({
+        printer_model: 'MK4',
+        printer_notes: 'Do not remove the keywords below.\\nPRINTER_VENDOR_PRUSA3D\\nPRINTER_MODEL_MK4',
+        bed_shape: '0x0,250x0,250x210,0x210',
+        nozzle_diameter: '0.4'
+      }, printers);
+
+      expect(matches[0]).toEqual({
+        name: 'Prusa MK4 0.4 nozzle',
+        score: 100,
+        confidence: 1,
+        evidence: ['printer_model MK4', 'vendor prusa3d', 'bed 250x210', 'nozzle 0.4']
+      });
+      expect(matches.map(match => match.name)).toEqual(['Prusa MK4 0.4 nozzle', 'Prusa MK4 0.6 nozzle', 'Prusa MK3S 0.4 nozzle']);
+    });
+
+    it('should match model names written without separators', () => {
+      const [best] = matchSystemPrinters({ printer_model: 'ENDER3V2', nozzle_diameter: '0.4' }, printers);
+      expect(best.name).toBe('Creality Ender-3 V2 0.4 nozzle');
+      expect(best.evidence).toEqual(['printer_model ENDER3V2', 'nozzle 0.4']);
+    });
+
+    it('should not match a model that is a prefix of another model', () => {
+      const matches = matchSystemPrinters({ printer_model: 'MK3' }, printers);
+      expect(matches).toEqual([]);
+    });
+  });
+
+  describe('pickSystemPrinter', () => {
+    it('should pick a clear best match', () => {
+      const matches = matchSystemPrinters({ printer_model: 'MK4', bed_shape: '0x0,250x0,250x210,0x210', nozzle_diameter: '0.4' }, printers);
+      expect(pickSystemPrinter(matches)?.name).toBe('Prusa MK4 0.4 nozzle');
+    });
+
+    it('should not pick a match below the confidence threshold or tied with another', () => {
+      expect(pickSystemPrinter(matchSystemPrinters({ bed_shape: '0x0,250x0,250x210,0x210', nozzle_diameter: '0.4' }, printers))).toBeUndefined();
+      expect(pickSystemPrinter(matchSystemPrinters({ printer_model: 'MK4', bed_shape: '0x0,250x0,250x210,0x210' }, printers))).toBeUndefined();
+      expect(pickSystemPrinter([])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Matching of converted printer profiles to the system printers of an OrcaSlicer installation.
+ *
+ * This module handles:
+ * - Reading the printers listed in the vendor index files of OrcaSlicer's `system` folder,
+ *   with the model, nozzle and bed size of each preset
+ * - Scoring how well each system printer matches a PrusaSlicer/SuperSlicer printer profile,
+ *   using its `printer_model`, `printer_vendor`, `printer_notes`, `bed_shape` and `nozzle_diameter`
+ * - Picking the best match when it is clear enough to link without asking
+ */
+
+import { SourceIni, SystemPrinter, PrinterMatch } from './types';
+import { printerMatchWeights } from './constants';
+import { readVendorPresets } from './systemPresets';
+import { multivalueToArray } from './utils';
+
+/** Lowest confidence at which the best match is linked without asking. */
+const AUTO_MATCH_CONFIDENCE = 0.75;
+
+/** Largest difference in mm between bed dimensions that still counts as the same bed. */
+const BED_TOLERANCE = 2;
+
+/**
+ * Splits a name into lowercase alphanumeric words.
+ *
+ * @param name - A printer, model or vendor name
+ * @returns The words of the name (e.g. `Creality Ender-3 V2` gives `creality`, `ender`, `3`, `v2`)
+ */
+function tokenize(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9.]+/).filter(token => token !== '');
+}
+
+/**
+ * Checks whether a model name matches a run of consecutive words of a printer name, so that
+ * `ENDER3V2` matches `Creality Ender-3 V2` but `MK3` does not match `Prusa MK3S`.
+ *
+ * @param model - The model name from the source profile
+ * @param tokens - The words of the system printer's name and model
+ * @returns Whether the model names the system printer
+ */
+function matchesModel(model: string, tokens: string[]): boolean {
+  const target = tokenize(model).join('');
+  if (!target) return false;
+  for (let start = 0; start < tokens.length; start++) {
+    let run = '';
+    for (let end = start; end < tokens.length && run.length < target.length; end++) {
+      run += tokens[end];
+    }
+    if (run === target) return true;
+  }
+  return false;
+}
+
+/**
+ * Calculates the width and depth of a bed from its corner points.
+ *
+ * @param points - Corner points such as `0x0`, `250x0`, `250x210`, `0x210`
+ * @returns The bed size, or undefined if the points cannot be read
+ */
+function bedSize(points: string[]): { width: number; depth: number } | undefined {
+  const coords = points.map(point => point.split('x').map(parseFloat));
+  if (coords.length < 3 || coords.some(coord => coord.length !== 2 || coord.some(isNaN))) return undefined;
+  const xs = coords.map(coord => coord[0]);
+  const ys = coords.map(coord => coord[1]);
+  return { width: Math.max(...xs) - Math.min(...xs), depth: Math.max(...ys) - Math.min(...ys) };
+}
+
+/**
+ * Reads the printers from the system presets of an OrcaSlicer installation.
+ *
+ * @param systemDir - OrcaSlicer's `system` folder, holding one index file per vendor
+ * @returns The printers listed in the vendors' `machine_list`, sorted by name, without the
+ *   abstract `*common*` presets
+ *
+ * @remarks
+ * The model, nozzle diameter and printable area are taken from each printer's machine preset,
+ * following its `inherits` chain within the vendor folder (see `readVendorPresets`). A printer
+ * whose preset cannot be read is still listed, without these details.
+ *
+ * @example
+ * ```ts
+ * readSystemPrinters("~/.config/OrcaSlicer/system")
+ * // [{ name: "Prusa MK4 0.4 nozzle", vendor: "Prusa", printerModel: "Prusa MK4", nozzleDiameter: 0.4, ... }, ...]
+ * ```
+ */
+export function readSystemPrinters(systemDir: string): SystemPrinter[] {
+  const printers: { [name: string]: SystemPrinter } = {};
+
+  for (const { name, vendor, config } of readVendorPresets(systemDir, 'printer')) {
+    if (/common/i.test(name) || printers[name]) continue;
+    const nozzle = Array.isArray(config.nozzle_diameter) ? config.nozzle_diameter[0] : config.nozzle_diameter;
+    printers[name] = {
+      name,
+      vendor,
+      printerModel: typeof config.printer_model === 'string' ? config.printer_model : undefined,
+      nozzleDiameter: nozzle !== undefined && !isNaN(parseFloat(String(nozzle))) ? parseFloat(String(nozzle)) : undefined,
+      printableArea: Array.isArray(config.printable_area) ? config.printable_area.map(String) : undefined
+    };
+  }
+
+  return Object.values(printers).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Scores how well each system printer matches a source printer profile.
+ *
+ * @param sourceIni - The parsed source printer profile
+ * @param printers - The system printers, as returned by `readSystemPrinters`
+ * @returns The printers with a positive score and at least one matching property besides the
+ *   nozzle, best first
+ *
+ * @remarks
+ * Each property in `printerMatchWeights` adds its weight when it matches:
+ * - model: `printer_model` or a `PRINTER_MODEL_*` tag in `printer_notes` names the printer
+ * - vendor: `printer_vendor` or a `PRINTER_VENDOR_*` tag in `printer_notes` names its vendor
+ * - bed: the width and depth of `bed_shape` match the printable area within 2 mm
+ * - nozzle: the first `nozzle_diameter` is the printer's nozzle size; a different size
+ *   subtracts the weight instead
+ *
+ * @example
+ * ```ts
+ * matchSystemPrinters({ printer_model: 'MK4', nozzle_diameter: '0.4' }, printers)[0]
+ * // { name: 'Prusa MK4 0.4 nozzle', score: 65, confidence: 0.65, evidence: ['printer_model MK4', 'nozzle 0.4'] }
+ * ```
+ */
+export function matchSystemPrinters(sourceIni: SourceIni, printers: SystemPrinter[]): PrinterMatch[] {
+  const notes = sourceIni['printer_notes'] || '';
+  const models = [sourceIni['printer_model'], ...Array.from(notes.matchAll(/PRINTER_MODEL_(\w+)/g), match => match[1])]
+    .filter((model): model is string => !!model);
+  const vendors = [sourceIni['printer_vendor'], ...Array.from(notes.matchAll(/PRINTER_VENDOR_(\w+)/g), match => match[1])]
+    .filter((vendor): vendor is string => !!vendor)
+    .map(vendor => tokenize(vendor).join(''))
+    .filter(vendor => vendor.length >= 3);
+  const bed = bedSize(multivalueToArray(sourceIni['bed_shape']));
+  const nozzle = parseFloat(multivalueToArray(sourceIni['nozzle_diameter'])[0]);
+  const maxScore = Object.values(printerMatchWeights).reduce((sum, weight) => sum + weight, 0);
+
+  const matches: PrinterMatch[] = [];
+  for (const printer of printers) {
+    const tokens = tokenize(`${printer.name} ${printer.printerModel || ''}`);
+    const printerVendors = [printer.vendor, tokens[0] || ''].map(vendor => tokenize(vendor).join(''));
+    let score = 0;
+    const evidence: string[] = [];
+
+    const model = models.find(candidate => matchesModel(candidate, tokens));
+    if (model) {
+      score += printerMatchWeights.model;
+      evidence.push(`printer_model ${model}`);
+    }
+    const vendor = vendors.find(candidate =>
+      printerVendors.some(printerVendor => printerVendor.length >= 3 && (candidate.startsWith(printerVendor) || printerVendor.startsWith(candidate))));
+    if (vendor) {
+      score += printerMatchWeights.vendor;
+      evidence.push(`vendor ${vendor}`);
+    }
+    const printerBed = printer.printableArea && bedSize(printer.printableArea);
+    if (bed && printerBed
+      && Math.abs(bed.width - printerBed.width) <= BED_TOLERANCE
+      && Math.abs(bed.depth - printerBed.depth) <= BED_TOLERANCE) {
+      score += printerMatchWeights.bed;
+      evidence.push(`bed ${bed.width}x${bed.depth}`);
+    }
+    // The nozzle size alone says nothing about which printer it is
+    const identified = evidence.length > 0;
+    if (!isNaN(nozzle) && printer.nozzleDiameter !== undefined) {
+      if (Math.abs(nozzle - printer.nozzleDiameter) < 0.001) {
+        score += printerMatchWeights.nozzle;
+        evidence.push(`nozzle ${nozzle}`);
+      } else {
+        score -= printerMatchWeights.nozzle;
+      }
+    }
+
+    if (identified && score > 0) {
+      matches.push({ name: printer.name, score, confidence: Math.round(score / maxScore * 100) / 100, evidence });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+/**
+ * Picks the system printer to link without asking.
+ *
+ * @param matches - The matches, best first, as returned by `matchSystemPrinters`
+ * @returns The best match if its confidence is at least 0.75 and no other printer scores as
+ *   high, otherwise undefined
+ */
+export function pickSystemPrinter(matches: PrinterMatch[]): PrinterMatch | undefined {
+  const [best, runnerUp] = matches;
+  if (!best || best.confidence < AUTO_MATCH_CONFIDENCE) return undefined;
+  if (runnerUp && runnerUp.score === best.score) return undefined;
+  return best;
+}
@@ -5,8 +5,8 @@
  * the converter application.
  */
 
-/** The OrcaSlicer version string to include in converted JSON files. */
-export const ORCA_SLICER_VERSION = '1.6.0.0';
+/** The newest supported OrcaSlicer version, targeted by default in converted JSON files. */
+export const ORCA_SLICER_VERSION = '2.3.0.0';
 
 /** 
  * Profile type identifiers for INI files.
@@ -30,9 +30,135 @@ export type OutputIniType = 'print' | 'filament' | 'printer';
  * 
  * - `PrusaSlicer`: Original PrusaSlicer
  * - `SuperSlicer`: SuperSlicer fork
+ * - `Slic3r`: Original Slic3r (and Slic3r Prusa Edition), converted like PrusaSlicer
+ * - `Slic3r++`: The predecessor of SuperSlicer, converted like SuperSlicer
+ * - `QIDISlicer`: QIDI Tech's PrusaSlicer fork, converted like PrusaSlicer
+ * - `Cura`: Ultimaker Cura (`.inst.cfg` and `.curaprofile` files)
+ * - `OrcaSlicer`: OrcaSlicer JSON (source of reverse conversions)
  * - `Unknown`: Slicer could not be detected
  */
-export type SlicerFlavor = 'PrusaSlicer' | 'SuperSlicer' | 'Unknown';
+export type SlicerFlavor =
+  | 'PrusaSlicer'
+  | 'SuperSlicer'
+  | 'Slic3r'
+  | 'Slic3r++'
+  | 'QIDISlicer'
+  | 'Cura'
+  | 'OrcaSlicer'
+  | 'Unknown';
+
+/**
+ * Slicer flavors that reverse conversions can target.
+ */
+export type IniSlicerFlavor = 'PrusaSlicer' | 'SuperSlicer';
+
+/**
+ * A source slicer that can be recognised by the `# generated by` header of its INI files.
+ */
+export interface SourceSlicer {
+  /** The flavor of its profiles */
+  flavor: SlicerFlavor;
+  /** Matches the slicer name in the header */
+  header: RegExp;
+  /** The slicer whose keys and value formats its profiles use */
+  base: SlicerFlavor;
+  /** The PrusaSlicer release each of its releases (major.minor) is based on, if not its own version */
+  baseVersions?: { [release: string]: string };
+}
+
+/**
+ * How strongly a source profile matches one profile type.
+ */
+export interface IniTypeScore {
+  /** The profile type */
+  iniType: IniType;
+  /** The sum of the weights of the matching keys */
+  score: number;
+  /** The matching keys and their weights, heaviest first */
+  evidence: { key: string; weight: number }[];
+}
+
+/**
+ * Result of detecting the profile type of a source INI.
+ */
+export interface IniTypeDetection {
+  /** The detected type, or undefined if no type scored high enough or the result is ambiguous */
+  iniType?: IniType;
+  /** How clearly the detected type stands out from the others, from 0 to 1 */
+  confidence: number;
+  /** Whether several types scored too close to each other to pick one */
+  ambiguous: boolean;
+  /** The types that scored close enough to the best one to be considered, best first */
+  candidates: IniType[];
+  /** The score of every type with at least one matching key, best first */
+  scores: IniTypeScore[];
+}
+
+/**
+ * A printer from the system presets of an OrcaSlicer installation.
+ */
+export interface SystemPrinter {
+  /** The preset name, as listed in the vendor's `machine_list` */
+  name: string;
+  /** The vendor, named after its index file in the `system` folder (e.g. `Prusa`) */
+  vendor: string;
+  /** The printer model the preset belongs to */
+  printerModel?: string;
+  /** Nozzle diameter of the first extruder, in mm */
+  nozzleDiameter?: number;
+  /** Corners of the printable area, in OrcaSlicer's `printable_area` format */
+  printableArea?: string[];
+}
+
+/**
+ * How well a system printer matches a source printer profile.
+ */
+export interface PrinterMatch {
+  /** The system printer's preset name */
+  name: string;
+  /** The sum of the weights of the matching properties, less those that contradict the source */
+  score: number;
+  /** The score as a share of the highest possible score, from 0 to 1 */
+  confidence: number;
+  /** The properties that matched (e.g. `printer_model MK4`) */
+  evidence: string[];
+}
+
+/**
+ * A preset from the system presets of an OrcaSlicer installation.
+ */
+export interface SystemPreset {
+  /** The preset name, as listed in the vendor's index file */
+  name: string;
+  /** The vendor, named after its index file in the `system` folder */
+  vendor: string;
+  /** The preset's settings, including those it inherits within the vendor folder */
+  config: Record<string, unknown>;
+}
+
+/**
+ * A system preset chosen as the base of a converted filament or process profile.
+ */
+export interface SystemPresetMatch {
+  /** The system preset's name */
+  name: string;
+  /** The sum of the weights of the matching properties */
+  score: number;
+  /** The properties that matched (e.g. `filament_type PLA`) */
+  evidence: string[];
+}
+
+/**
+ * A source slicer guessed from the keys of a profile without a `# generated by` header.
+ */
+export interface FlavorGuess {
+  /** The most likely source slicer */
+  flavor: SlicerFlavor;
+  /** How likely the guess is to be right, from 0 to 1 */
+  confidence: number;
+  /** The distinctive keys that led to the guess (empty if none were found) */
+  evidence: string[];
+}
 
 /** 
  * Options for handling existing output files.
@@ -43,6 +169,15 @@ export type SlicerFlavor = 'PrusaSlicer' | 'SuperSlicer' | 'Unknown';
  */
 export type OnExistingOption = 'LEAVE IT ALONE' | 'MERGE NEW PARAMETERS' | 'OVERWRITE';
 
+/**
+ * Options for handling compatible condition strings.
+ *
+ * - `KEEP`: Keep the condition expression as-is
+ * - `DISCARD`: Drop the condition so the profile is always visible
+ * - `TRANSLATE`: Rename the condition's variables to their OrcaSlicer names
+ */
+export type ConditionChoice = 'KEEP' | 'DISCARD' | 'TRANSLATE';
+
 /**
  * System directory structure mapping for different operating systems and profile types.
  * 
@@ -83,6 +218,8 @@ export interface Status {
   forceOut: boolean;
   /** Whether deprecated --overwrite flag was used */
   legacyOverwrite: boolean;
+  /** Whether --dry-run flag was set (nothing is written) */
+  dryRun: boolean;
   /** Maximum nozzle temperature encountered (for filament profiles) */
   maxTemp: number;
   /** Whether running in interactive mode (no --input specified) */
@@ -91,6 +228,8 @@ export interface Status {
   outdirWasProvided: boolean;
   /** Detected source slicer flavor */
   slicerFlavor?: SlicerFlavor;
+  /** Version of the source slicer from the INI header, if known */
+  slicerVersion?: string;
   /** Detected or specified INI file type */
   iniType?: IniType;
   /** Profile name from config bundle or filename */
@@ -99,6 +238,10 @@ export interface Status {
   ironingType?: string;
   /** Number of files remaining to process */
   iterationsLeft?: number;
+  /** Per-parameter report of the profile being converted, if one is being collected */
+  report?: ConversionReport;
+  /** Warnings about the profile being converted, if they are being collected */
+  warnings?: string[];
   dirs: {
     output?: string;
     data: string;
@@ -123,8 +266,8 @@ export interface Status {
     physicalPrinter?: string;
     nozzleSize?: number;
     inherits?: string;
-    compatiblePrintersCondition?: string;
-    compatiblePrintsCondition?: string;
+    compatiblePrintersCondition?: ConditionChoice;
+    compatiblePrintsCondition?: ConditionChoice;
   };
 }
 
@@ -138,6 +281,12 @@ export interface ConvertedFile {
   inputDir: string;
   /** Source slicer that generated the input file */
   slicerFlavor: SlicerFlavor;
+  /** Version of the source slicer that generated the input file, if known */
+  slicerVersion?: string;
+  /** Confidence (0 to 1) of the profile type when it was detected from the keys of the file */
+  typeConfidence?: number;
+  /** Confidence (0 to 1) of `slicerFlavor` when it was guessed from the keys of a file without a header */
+  flavorConfidence?: number;
   /** Basename of the output file (empty if conversion failed) */
   outputFile: string;
   /** Directory containing the output file (empty if conversion failed) */
@@ -150,6 +299,105 @@ export interface ConvertedFile {
   physicalPrinterFile?: string;
   /** Physical printer file directory (printer profiles only) */
   physicalPrinterDir?: string;
+  /** Per-parameter conversion report (converted files only) */
+  report?: ConversionReport;
+}
+
+/**
+ * A source value that was passed through unchanged because no translation is known.
+ */
+export interface PassthroughValue {
+  /** The source parameter name */
+  parameter: string;
+  /** The untranslated value */
+  value: string;
+}
+
+/**
+ * Per-parameter report of a single profile conversion.
+ *
+ * Lists everything that did not carry over cleanly, so it can be reviewed after a run.
+ */
+export interface ConversionReport {
+  /** Source parameters that were dropped because they have no OrcaSlicer equivalent */
+  unmapped: string[];
+  /** Values that fell back to a passthrough (or default) because no translation is known */
+  passthrough: PassthroughValue[];
+  /** Parameters whose values were transformed by a special case */
+  specialCases: string[];
+  /** Parent preset that each inherited parameter came from, if an inheritance chain was resolved */
+  inherited?: { [parameter: string]: string };
+  /** Settings the source did not provide that were filled in from the baseline template */
+  filled?: string[];
+}
+
+/**
+ * A single `[type:name]` section of a config bundle or vendor bundle.
+ */
+export interface ConfigBundleSection {
+  /** Section type, e.g. `print`, `filament`, `printer` or `vendor` */
+  type: string;
+  /** Section name (empty for sections such as `[vendor]` that have no name) */
+  name: string;
+  /** Key/value pairs of the section */
+  config: SourceIni;
+}
+
+/**
+ * The OrcaSlicer names that converted profiles got in this session, by profile type and
+ * source preset name. Only names that changed are listed.
+ */
+export type RenameTable = { [iniType in OutputIniType]: { [sourceName: string]: string } };
+
+/** Text encoding of an INI file. */
+export type IniEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+/**
+ * A problem found while parsing an INI file. The line is still parsed where possible.
+ */
+export interface IniDiagnostic {
+  /** 1-based line number */
+  line: number;
+  /** What is wrong with the line */
+  message: string;
+}
+
+/**
+ * The contents of an INI file or config bundle.
+ */
+export interface ParsedIni {
+  /** Key/value pairs before the first section header (all of them in a single profile) */
+  config: SourceIni;
+  /** The `[type:name]` sections of a bundle, in file order */
+  sections: ConfigBundleSection[];
+  /** Comment lines (starting with `#` or `;`), in file order */
+  comments: string[];
+  /** The detected text encoding */
+  encoding: IniEncoding;
+  /** Problems found while parsing, in line order */
+  diagnostics: IniDiagnostic[];
+}
+
+/**
+ * System presets loaded from a PrusaSlicer/SuperSlicer vendor bundle.
+ */
+export interface VendorBundle {
+  /** Vendor name from the `[vendor]` section, or the bundle's file name */
+  vendor: string;
+  /** Presets by profile type and name, including abstract `*name*` presets */
+  presets: { [key in OutputIniType]?: { [name: string]: SourceIni } };
+}
+
+/**
+ * Key-level difference between an existing profile and the profile that would replace it.
+ */
+export interface ProfileDiff {
+  /** Keys that only exist in the new profile */
+  added: string[];
+  /** Keys that only exist in the existing profile */
+  removed: string[];
+  /** Keys whose values differ between the two profiles */
+  changed: string[];
 }
 
 /**
@@ -182,16 +430,104 @@ export type ParameterMap = {
   };
 };
 
-/** Type indicator for multivalue parameters (single value or array). */
-export type MultivalueParamType = 'single' | 'array';
+/** Type indicator for multivalue parameters (single value, array, or one value per extruder). */
+export type MultivalueParamType = 'single' | 'array' | 'perExtruder';
 
 /**
  * Mapping of parameter names to their multivalue type.
  * 
  * 'single' means the parameter should be converted to a single value from a comma/semicolon-separated list.
  * 'array' means the parameter should remain as an array.
+ * 'perExtruder' means the parameter holds one value per extruder: it is converted element by element
+ * into an array for multi-extruder printers, and to a single value for single-extruder printers.
  */
 export interface MultivalueParams {
   [key: string]: MultivalueParamType;
 }
 
+
+/**
+ * Options for converting a single profile with `convertProfile`.
+ *
+ * These supply the decisions that the command-line interface would otherwise prompt for.
+ */
+export interface ConvertProfileOptions {
+  /** Profile type of the source INI; detected from its parameters if omitted */
+  iniType?: IniType;
+  /** Source slicer that generated the INI; PrusaSlicer is assumed if omitted */
+  slicerFlavor?: SlicerFlavor;
+  /** Version of the source slicer (e.g. `2.7.1`); the newest key names are assumed if omitted */
+  slicerVersion?: string;
+  /** Profile name to use if the source INI has no `profile_name` (e.g. the file basename) */
+  profileName?: string;
+  /** Template for the converted profile's name, with `{name}`, `{flavor}` and `{type}` placeholders (e.g. `PS - {name}`) */
+  nameTemplate?: string;
+  /** Nozzle diameter in mm for print profiles; derived from the layer height if omitted */
+  nozzleSize?: number;
+  /** Whether to keep, discard or translate `compatible_printers_condition` (default: KEEP) */
+  compatiblePrintersCondition?: ConditionChoice;
+  /** Whether to keep, discard or translate `compatible_prints_condition` (default: KEEP) */
+  compatiblePrintsCondition?: ConditionChoice;
+  /** OrcaSlicer system printer that a printer profile inherits from */
+  inherits?: string;
+  /** Parsed physical printer INI whose network settings are merged into a printer profile */
+  physicalPrinterIni?: SourceIni;
+  /** Vendor bundles used to resolve the profile's `inherits` chain before converting */
+  vendorBundles?: VendorBundle[];
+  /** OrcaSlicer version whose schema the profile is converted to (default: the newest supported) */
+  targetVersion?: string;
+  /**
+   * Whether to fill settings the source does not provide from the built-in baseline template,
+   * so the profile loads without a system preset to inherit from (default: unless `inherits` is given)
+   */
+  fillMissing?: boolean;
+}
+
+/**
+ * Result of converting a single profile with `convertProfile`.
+ */
+export interface ConvertProfileResult {
+  /** The converted OrcaSlicer JSON profile */
+  json: NewHash;
+  /** Non-fatal issues encountered during conversion */
+  warnings: string[];
+  /** Per-parameter report of what did not carry over */
+  report: ConversionReport;
+  /** The resolved profile type */
+  iniType: OutputIniType;
+  /** The resolved profile name */
+  profileName: string;
+}
+
+/**
+ * Decisions that would otherwise be prompted for during an interactive session.
+ *
+ * Used by answers files (--answers) for unattended batch runs.
+ */
+export interface Answers {
+  /** KEEP, DISCARD or TRANSLATE `compatible_printers_condition` values */
+  compatiblePrintersCondition?: ConditionChoice;
+  /** KEEP, DISCARD or TRANSLATE `compatible_prints_condition` values */
+  compatiblePrintsCondition?: ConditionChoice;
+  /** Physical printer INI file to merge into printer profiles, or '<NONE>' */
+  physicalPrinter?: string;
+  /** OrcaSlicer system printer that printer profiles inherit from, or '<NONE>' */
+  inherits?: string;
+  /** Nozzle diameter in mm for print profiles */
+  nozzleSize?: number;
+  /** Behavior when an output file already exists: skip, merge, or overwrite */
+  onExisting?: string;
+  /** Profile type to use when it cannot be told from the keys (print, filament or printer) */
+  iniType?: OutputIniType;
+}
+
+/**
+ * Structure of an answers file.
+ *
+ * `defaults` apply to every profile; entries in `profiles` override them for the profile
+ * whose input file basename or profile name matches the key.
+ */
+export interface AnswersFile {
+  defaults?: Answers;
+  profiles?: { [key: string]: Answers };
+}
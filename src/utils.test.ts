@@ -5,11 +5,15 @@ import {
   removePercent,
   multivalueToArray,
   unbackslash,
+  backslash,
   percentToFloat,
+  floatToPercent,
   percentToMm,
   mmToPercent,
   evaluatePrintOrder,
   evaluateIroningType,
+  diffProfiles,
+  compareVersions,
   getOS,
   getHomeDir
 } from './utils';
@@ -135,6 +139,19 @@ describe('utils', () => {
     });
   });
 
+  describe('backslash', () => {
+    it('should escape newlines, tabs and backslashes', () => {
+      expect(backslash('G28\nG1 X0')).toBe('G28\\nG1 X0');
+      expect(backslash('a\tb')).toBe('a\\tb');
+      expect(backslash('C:\\path')).toBe('C:\\\\path');
+    });
+
+    it('should round-trip with unbackslash', () => {
+      const gcode = 'G28 ; home\nM104 S[first_layer_temperature]\n';
+      expect(unbackslash(backslash(gcode))).toBe(gcode);
+    });
+  });
+
   describe('percentToFloat', () => {
     it('should convert percentage to float', () => {
       expect(percentToFloat('150%')).toBe('1.5');
@@ -156,6 +173,18 @@ describe('utils', () => {
     });
   });
 
+  describe('floatToPercent', () => {
+    it('should convert float to percentage', () => {
+      expect(floatToPercent('1.5')).toBe('150%');
+      expect(floatToPercent('0.95')).toBe('95%');
+    });
+
+    it('should return original value if not a decimal', () => {
+      expect(floatToPercent('95%')).toBe('95%');
+      expect(floatToPercent(undefined)).toBe('');
+    });
+  });
+
   describe('percentToMm', () => {
     it('should convert percentage to millimeters', () => {
       expect(percentToMm(10, '50%')).toBe('5');
@@ -232,6 +261,22 @@ describe('utils', () => {
     });
   });
 
+  describe('diffProfiles', () => {
+    it('should list added, removed and changed keys', () => {
+      expect(diffProfiles({ a: '1', b: '2', d: '5' }, { b: '3', c: '4', d: '5' })).toEqual({
+        added: ['c'],
+        removed: ['a'],
+        changed: ['b']
+      });
+    });
+
+    it('should compare arrays by value', () => {
+      const diff = diffProfiles({ list: ['a', 'b'] }, { list: ['a', 'b'] });
+      expect(diff.changed).toEqual([]);
+      expect(diffProfiles({ list: ['a'] }, { list: ['a', 'b'] }).changed).toEqual(['list']);
+    });
+  });
+
   describe('evaluateIroningType', () => {
     it('should return ironing type when ironing is enabled', () => {
       expect(evaluateIroningType(true, 'top surface')).toBe('top surface');
@@ -252,6 +297,17 @@ describe('utils', () => {
     });
   });
 
+  describe('compareVersions', () => {
+    it('should compare each part numerically', () => {
+      expect(compareVersions('2.10.0', '2.9.1')).toBeGreaterThan(0);
+      expect(compareVersions('2.3.1', '2.4')).toBeLessThan(0);
+    });
+
+    it('should treat missing parts as zero', () => {
+      expect(compareVersions('2.0', '2.0.0.0')).toBe(0);
+    });
+  });
+
   describe('getOS', () => {
     it('should return correct OS type', () => {
       const os = getOS();
@@ -5,11 +5,12 @@
  * - Validating and converting numeric values (decimals, percentages)
  * - Converting between percentage and absolute values
  * - Evaluating print order and ironing settings
+ * - Comparing profiles key by key
  * - OS detection and path utilities
  * - Type guards for INI type validation
  */
 
-import { SourceIni, IniType, OutputIniType } from './types';
+import { SourceIni, IniType, OutputIniType, ProfileDiff } from './types';
 
 /**
  * Checks if a string value represents a valid decimal number.
@@ -108,6 +109,25 @@ export function unbackslash(str: string): string {
     .replace(/\\'/g, "'");
 }
 
+/**
+ * Escapes a multi-line string for storage as a single INI value (the inverse of `unbackslash`).
+ *
+ * @param str - The string containing newlines, tabs, or backslashes
+ * @returns The string with those characters replaced by escape sequences
+ *
+ * @example
+ * ```ts
+ * backslash("G28\nG1 X0")  // "G28\\nG1 X0"
+ * ```
+ */
+export function backslash(str: string): string {
+  return str
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
+
 /**
  * Converts a percentage string to a float value, capping at 2.0.
  *
@@ -129,6 +149,25 @@ export function percentToFloat(subjectValue: string | undefined): string {
   return (newFloat > 2) ? '2' : String(newFloat);
 }
 
+/**
+ * Converts a float ratio back to a percentage string (the inverse of `percentToFloat`).
+ *
+ * @param subjectValue - The ratio as a string (e.g., "1.5")
+ * @returns The percentage string (e.g., "150%"), or the original value if it is not a decimal
+ *
+ * @example
+ * ```ts
+ * floatToPercent("1.5")  // "150%"
+ * floatToPercent("95%")  // "95%" (already a percentage)
+ * ```
+ */
+export function floatToPercent(subjectValue: string | undefined): string {
+  if (!subjectValue || !isDecimal(subjectValue)) {
+    return subjectValue || '';
+  }
+  return `${parseFloat((parseFloat(subjectValue) * 100).toFixed(4))}%`;
+}
+
 /**
  * Converts a percentage value to millimeters based on a comparator value.
  *
@@ -218,6 +257,42 @@ export function evaluatePrintOrder(
   return 'inner wall/outer wall/infill';
 }
 
+/**
+ * Compares two profiles key by key.
+ *
+ * @param existing - The profile currently on disk
+ * @param updated - The profile that would replace it
+ * @returns The keys that would be added, removed, or changed, each sorted alphabetically
+ *
+ * @remarks
+ * Values are compared by their JSON representation, so arrays with the same elements are equal.
+ *
+ * @example
+ * ```ts
+ * diffProfiles({ a: '1', b: '2' }, { b: '3', c: '4' })
+ * // { added: ['c'], removed: ['a'], changed: ['b'] }
+ * ```
+ */
+export function diffProfiles(
+  existing: Record<string, unknown>,
+  updated: Record<string, unknown>
+): ProfileDiff {
+  const diff: ProfileDiff = { added: [], removed: [], changed: [] };
+  for (const key of Object.keys(updated).sort()) {
+    if (!(key in existing)) {
+      diff.added.push(key);
+    } else if (JSON.stringify(existing[key]) !== JSON.stringify(updated[key])) {
+      diff.changed.push(key);
+    }
+  }
+  for (const key of Object.keys(existing).sort()) {
+    if (!(key in updated)) {
+      diff.removed.push(key);
+    }
+  }
+  return diff;
+}
+
 /**
  * Evaluates the ironing type based on ironing enabled flag and ironing type value.
  *
@@ -242,6 +317,29 @@ export function evaluateIroningType(
   return 'no ironing';
 }
 
+/**
+ * Compares two dotted version strings numerically.
+ *
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a < b, zero if they are equal, a positive number if a > b
+ *
+ * @example
+ * ```ts
+ * compareVersions("2.10.0", "2.9")  // > 0
+ * compareVersions("2.0", "2.0.0.0") // 0
+ * ```
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
 /**
  * Gets the operating system type based on Node.js platform.
  *
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { convertVendorBundle } from './vendor';
+
+describe('vendor', () => {
+  let tempDir: string;
+  let bundleFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    bundleFile = path.join(tempDir, 'Acme.ini');
+    fs.writeFileSync(bundleFile, `[vendor]
+name = Acme 3D
+config_version = 1.0.0
+
+[printer_model:AX1]
+name = Acme X1
+variants = 0.4; 0.6
+technology = FFF
+family = X
+default_materials = Generic PLA @ACME
+
+[printer_model:AS1]
+name = Acme Resin
+technology = SLA
+
+[print:*common*]
+layer_height = 0.2
+perimeters = 2
+fill_density = 15%
+
+[print:0.20mm NORMAL @AX1]
+inherits = *common*
+compatible_printers_condition = printer_model=="AX1" and nozzle_diameter[0]==0.4
+perimeters = 3
+
+[print:0.30mm DRAFT @AX1]
+inherits = 0.20mm NORMAL @AX1; *missing*
+layer_height = 0.3
+
+[filament:Generic PLA @ACME]
+temperature = 210
+filament_type = PLA
+
+[printer:*common*]
+bed_shape = 0x0,220x0,220x220,0x220
+nozzle_diameter = 0.4
+retract_length = 0.8
+
+[printer:Acme X1]
+inherits = *common*
+printer_model = AX1
+printer_variant = 0.4
+`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('convertVendorBundle', () => {
+    it('should write the vendor index with parents listed before their children', async () => {
+      const { vendor, files } = await convertVendorBundle(bundleFile, { targetVersion: '2.3' });
+      const index = files[0];
+
+      expect(vendor).toBe('Acme 3D');
+      expect(index.path).toBe('Acme 3D.json');
+      expect(index.json).toMatchObject({ name: 'Acme 3D', version: '02.03.00.00', force_update: '0' });
+      expect(index.json['process_list']).toEqual([
+        { name: '*common*', sub_path: 'process/*common*.json' },
+        { name: '0.20mm NORMAL @AX1', sub_path: 'process/0.20mm NORMAL @AX1.json' },
+        { name: '0.30mm DRAFT @AX1', sub_path: 'process/0.30mm DRAFT @AX1.json' }
+      ]);
+      expect(index.json['machine_list']).toEqual([
+        { name: '*common*', sub_path: 'machine/*common*.json' },
+        { name: 'Acme X1', sub_path: 'machine/Acme X1.json' }
+      ]);
+    });
+
+    it('should convert FFF printer models only, without clashing with printer presets', async () => {
+      const { files } = await convertVendorBundle(bundleFile);
+      const models = files.filter(file => file.json['type'] === 'machine_model');
+
+      expect(models).toHaveLength(1);
+      expect(models[0].path).toBe('Acme 3D/machine/Acme X1 model.json');
+      expect(models[0].json).toMatchObject({
+        name: 'Acme X1',
+        model_id: 'AX1',
+        nozzle_diameter: '0.4;0.6',
+        family: 'X',
+        default_materials: 'Generic PLA @ACME'
+      });
+    });
+
+    it('should keep only the keys that differ from the parent preset', async () => {
+      const { files } = await convertVendorBundle(bundleFile);
+      const common = files.find(file => file.path === 'Acme 3D/process/*common*.json')!.json;
+      const normal = files.find(file => file.path === 'Acme 3D/process/0.20mm NORMAL @AX1.json')!.json;
+
+      expect(common).toMatchObject({ type: 'process', name: '*common*', from: 'system', instantiation: 'false' });
+      expect(common['inherits']).toBeUndefined();
+      expect(common['wall_loops']).toBe('2');
+      expect(normal).toMatchObject({ inherits: '*common*', instantiation: 'true', wall_loops: '3' });
+      expect(normal['sparse_infill_density']).toBeUndefined();
+      expect(normal['is_custom_defined']).toBeUndefined();
+    });
+
+    it('should refer to printer models by name', async () => {
+      const { files } = await convertVendorBundle(bundleFile);
+      const printer = files.find(file => file.path === 'Acme 3D/machine/Acme X1.json')!.json;
+      const normal = files.find(file => file.path === 'Acme 3D/process/0.20mm NORMAL @AX1.json')!.json;
+
+      expect(printer).toMatchObject({ type: 'machine', inherits: '*common*', printer_model: 'Acme X1' });
+      expect(normal['compatible_printers_condition']).toBe('printer_model=="Acme X1" and nozzle_diameter[0]==0.4');
+    });
+
+    it('should inherit from the first parent and warn about missing ones', async () => {
+      const { files, warnings } = await convertVendorBundle(bundleFile);
+      const draft = files.find(file => file.path === 'Acme 3D/process/0.30mm DRAFT @AX1.json')!.json;
+
+      expect(draft).toMatchObject({ inherits: '0.20mm NORMAL @AX1', layer_height: '0.3' });
+      expect(warnings).toContain('0.30mm DRAFT @AX1: parent preset "*missing*" was not found in the bundle');
+    });
+
+    it('should reject unsupported target versions', async () => {
+      await expect(convertVendorBundle(bundleFile, { targetVersion: '0.9' })).rejects.toThrow('Unsupported');
+    });
+  });
+});
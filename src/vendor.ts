@@ -0,0 +1,291 @@
+/**
+ * Conversion of a PrusaSlicer/SuperSlicer vendor bundle into an OrcaSlicer system vendor profile set.
+ *
+ * This module handles:
+ * - Converting `[printer_model:*]` sections into OrcaSlicer machine models
+ * - Converting every print, filament and printer preset, keeping its `inherits` chain
+ * - Building the `<Vendor>.json` index that lists the presets in load order
+ */
+
+import {
+  SourceIni,
+  NewHash,
+  OutputIniType,
+  SlicerFlavor,
+  ConfigBundleSection,
+  ORCA_SLICER_VERSION
+} from './types';
+import { parseConfigBundle, readIniFile, sanitizeFilename } from './fileIO';
+import { loadVendorBundle, parseInherits, resolveInherits } from './inheritance';
+import { convertProfile } from './converter';
+import { normalizeOrcaVersion, formatOrcaVersion } from './versions';
+import { multivalueToArray } from './utils';
+
+/**
+ * A single file of an OrcaSlicer vendor profile set.
+ */
+export interface VendorProfileFile {
+  /** Path relative to the OrcaSlicer `system` directory, e.g. `Acme/process/0.20mm.json` */
+  path: string;
+  /** The file contents */
+  json: Record<string, unknown>;
+}
+
+/**
+ * Result of converting a vendor bundle.
+ */
+export interface VendorConversion {
+  /** The vendor name, which is also the name of the index file and the profile folder */
+  vendor: string;
+  /** The index file followed by every model and preset file */
+  files: VendorProfileFile[];
+  /** Non-fatal issues encountered during conversion, without duplicates */
+  warnings: string[];
+}
+
+/**
+ * Options for converting a vendor bundle.
+ */
+export interface ConvertVendorOptions {
+  /** OrcaSlicer version whose schema the presets are converted to (default: the newest supported) */
+  targetVersion?: string;
+}
+
+/** OrcaSlicer preset type and folder of each profile type. */
+const vendorFolders: { [iniType in OutputIniType]: string } = {
+  printer: 'machine',
+  print: 'process',
+  filament: 'filament'
+};
+
+/** Keys that `convertProfile` adds for user presets and that system presets do not have. */
+const userPresetKeys = ['name', 'inherits', 'from', 'is_custom_defined', 'version'];
+
+/** Nozzle diameter assumed for print presets that do not say which nozzle they are for. */
+const DEFAULT_NOZZLE_SIZE = 0.4;
+
+/**
+ * Checks whether a preset is abstract (only meant to be inherited from).
+ *
+ * @param name - The preset name
+ * @returns `true` for names such as `*common*`
+ */
+function isAbstract(name: string): boolean {
+  return name.startsWith('*') && name.endsWith('*');
+}
+
+/**
+ * Determines the nozzle diameter a print preset is meant for.
+ *
+ * @param config - The flattened print preset
+ * @returns The nozzle diameter from the `compatible_printers_condition`, or the default
+ */
+function printNozzleSize(config: SourceIni): number {
+  const match = /nozzle_diameter\[0\]\s*==\s*([\d.]+)/.exec(config['compatible_printers_condition'] || '');
+  return match ? parseFloat(match[1]) : DEFAULT_NOZZLE_SIZE;
+}
+
+/**
+ * Replaces PrusaSlicer printer model IDs in a compatible condition with OrcaSlicer model names.
+ *
+ * @param condition - The translated condition
+ * @param modelNames - The model name for each PrusaSlicer model ID
+ * @returns The condition, comparing `printer_model` against model names
+ *
+ * @remarks
+ * PrusaSlicer compares `printer_model` against the ID of a `[printer_model:*]` section, while
+ * OrcaSlicer compares it against the machine model name.
+ */
+function renameModelIds(condition: string, modelNames: { [modelId: string]: string }): string {
+  return condition.replace(/(printer_model\s*[!=]=\s*)"([^"]*)"/g, (match, comparison: string, modelId: string) =>
+    modelNames[modelId] ? `${comparison}"${modelNames[modelId]}"` : match
+  );
+}
+
+/**
+ * Converts the `[printer_model:*]` sections of a vendor bundle into OrcaSlicer machine models.
+ *
+ * @param sections - The sections of the vendor bundle
+ * @param vendor - The vendor name
+ * @param printerNames - The names of the bundle's printer presets, which share the `machine` folder
+ * @returns The machine model files, and the model name for each PrusaSlicer model ID
+ *
+ * @remarks
+ * SLA printer models are skipped, since OrcaSlicer only supports FFF printers. PrusaSlicer
+ * often names a printer preset after its model; the model file then gets a ` model` suffix,
+ * as OrcaSlicer finds models by the `sub_path` in the index, not by file name.
+ */
+function convertPrinterModels(
+  sections: ConfigBundleSection[],
+  vendor: string,
+  printerNames: string[]
+): { files: VendorProfileFile[]; modelNames: { [modelId: string]: string } } {
+  const files: VendorProfileFile[] = [];
+  const modelNames: { [modelId: string]: string } = {};
+
+  for (const section of sections) {
+    if (section.type !== 'printer_model' || (section.config['technology'] || 'FFF') !== 'FFF') continue;
+
+    const name = section.config['name'] || section.name;
+    const fileName = sanitizeFilename(name) + (printerNames.includes(name) ? ' model' : '');
+    modelNames[section.name] = name;
+    files.push({
+      path: `${sanitizeFilename(vendor)}/machine/${fileName}.json`,
+      json: {
+        type: 'machine_model',
+        name,
+        model_id: section.name,
+        nozzle_diameter: multivalueToArray(section.config['variants']).join(';'),
+        machine_tech: 'FFF',
+        family: section.config['family'] || vendor,
+        bed_model: section.config['bed_model'] || '',
+        bed_texture: section.config['bed_texture'] || '',
+        hotend_model: '',
+        default_materials: multivalueToArray(section.config['default_materials']).join(';')
+      }
+    });
+  }
+
+  return { files, modelNames };
+}
+
+/**
+ * Converts a PrusaSlicer/SuperSlicer vendor bundle into an OrcaSlicer system vendor profile set.
+ *
+ * @param filePath - The path to the vendor bundle INI (e.g. `PrusaResearch.ini`)
+ * @param options - Conversion options
+ * @returns The vendor name, the files of the profile set and any warnings
+ * @throws {Error} If the bundle cannot be read or `options.targetVersion` is not supported
+ *
+ * @remarks
+ * Every preset is converted with its inheritance chain flattened, so values derived from other
+ * settings (such as extrusion widths) are correct, and then only the keys whose converted value
+ * differs from its parent's are kept. OrcaSlicer presets have a single parent: a preset that
+ * inherits from several PrusaSlicer presets inherits from the first one, and the values of the
+ * others end up in the preset itself.
+ *
+ * Abstract presets (`*common*`) become presets with `instantiation` set to `false`. Compatible
+ * condition strings are translated to OrcaSlicer setting names. Print presets are converted for
+ * the nozzle diameter in their `compatible_printers_condition`, or 0.4 mm if there is none.
+ *
+ * Presets are listed in the index in an order where every parent comes before its children,
+ * as OrcaSlicer requires.
+ *
+ * @example
+ * ```ts
+ * const { vendor, files } = await convertVendorBundle("PrusaResearch.ini");
+ * files[0].path // "Prusa Research.json"
+ * ```
+ */
+export async function convertVendorBundle(
+  filePath: string,
+  options: ConvertVendorOptions = {}
+): Promise<VendorConversion> {
+  const targetVersion = normalizeOrcaVersion(options.targetVersion || ORCA_SLICER_VERSION);
+  if (!targetVersion) {
+    throw new Error('Unsupported OrcaSlicer version');
+  }
+
+  const bundle = loadVendorBundle(filePath);
+  const vendor = bundle.vendor;
+  const { slicerFlavor, slicerVersion } = readIniFile(filePath);
+  const { files: modelFiles, modelNames } = convertPrinterModels(
+    parseConfigBundle(filePath),
+    vendor,
+    Object.keys(bundle.presets.printer || {})
+  );
+  const presetFiles: VendorProfileFile[] = [];
+  const lists: { [iniType in OutputIniType]: { name: string; sub_path: string }[] } = {
+    printer: [],
+    print: [],
+    filament: []
+  };
+  const warnings = new Set<string>();
+
+  for (const iniType of Object.keys(vendorFolders) as OutputIniType[]) {
+    const presets = bundle.presets[iniType] || {};
+    const converted: { [name: string]: NewHash } = {};
+
+    const convertPreset = async (name: string, chain: string[]): Promise<NewHash | undefined> => {
+      if (converted[name]) return converted[name];
+      if (!presets[name] || chain.includes(name)) return undefined;
+
+      const parents = parseInherits(presets[name]['inherits']);
+      const parent = parents[0] && presets[parents[0]] ? parents[0] : undefined;
+      const parentJson = parent ? await convertPreset(parent, [...chain, name]) : undefined;
+      for (const missing of parents.filter(candidate => !presets[candidate])) {
+        warnings.add(`${name}: parent preset "${missing}" was not found in the bundle`);
+      }
+
+      const { config } = resolveInherits(presets[name], iniType, [bundle]);
+      delete config['inherits'];
+      const result = await convertProfile(config, {
+        iniType,
+        slicerFlavor: (slicerFlavor || 'PrusaSlicer') as SlicerFlavor,
+        slicerVersion,
+        profileName: name,
+        nozzleSize: iniType === 'print' ? printNozzleSize(config) : undefined,
+        compatiblePrintersCondition: 'TRANSLATE',
+        compatiblePrintsCondition: 'TRANSLATE',
+        targetVersion,
+        fillMissing: false
+      });
+      result.warnings.forEach(warning => warnings.add(`${name}: ${warning}`));
+      for (const key of [...userPresetKeys, `${iniType}_settings_id`]) {
+        delete result.json[key];
+      }
+      for (const key of ['compatible_printers_condition', 'compatible_prints_condition']) {
+        if (typeof result.json[key] === 'string') {
+          result.json[key] = renameModelIds(result.json[key] as string, modelNames);
+        }
+      }
+      converted[name] = result.json;
+
+      // Keep only what differs from the parent
+      const json: Record<string, unknown> = {
+        type: vendorFolders[iniType],
+        name,
+        ...(parent ? { inherits: parent } : {}),
+        from: 'system',
+        instantiation: isAbstract(name) ? 'false' : 'true'
+      };
+      for (const [key, value] of Object.entries(result.json)) {
+        if (!parentJson || JSON.stringify(parentJson[key]) !== JSON.stringify(value)) {
+          json[key] = value;
+        }
+      }
+      if (iniType === 'printer' && config['printer_model']) {
+        json['printer_model'] = modelNames[config['printer_model']] || config['printer_model'];
+      }
+
+      const subPath = `${vendorFolders[iniType]}/${sanitizeFilename(name)}.json`;
+      presetFiles.push({ path: `${sanitizeFilename(vendor)}/${subPath}`, json });
+      lists[iniType].push({ name, sub_path: subPath });
+      return result.json;
+    };
+
+    for (const name of Object.keys(presets)) {
+      await convertPreset(name, []);
+    }
+  }
+
+  const index: Record<string, unknown> = {
+    name: vendor,
+    version: formatOrcaVersion(targetVersion),
+    force_update: '0',
+    description: `${vendor} configurations`,
+    machine_model_list: modelFiles.map(file => ({
+      name: file.json['name'],
+      sub_path: file.path.slice(file.path.indexOf('/') + 1)
+    })),
+    process_list: lists.print,
+    filament_list: lists.filament,
+    machine_list: lists.printer
+  };
+
+  return {
+    vendor,
+    files: [{ path: `${sanitizeFilename(vendor)}.json`, json: index }, ...modelFiles, ...presetFiles],
+    warnings: [...warnings]
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeOrcaVersion, applyVersionOverlays, supportedOrcaVersions, formatOrcaVersion } from './versions';
+import type { VersionOverlay } from './versions';
+import { ORCA_SLICER_VERSION } from './types';
+import type { NewHash } from './types';
+
+describe('versions', () => {
+  describe('supportedOrcaVersions', () => {
+    it('should end with the default version', () => {
+      expect(supportedOrcaVersions.newest).toBe(ORCA_SLICER_VERSION);
+    });
+  });
+
+  describe('normalizeOrcaVersion', () => {
+    it('should accept short and full version strings', () => {
+      expect(normalizeOrcaVersion('2.0')).toBe('2.0.0.0');
+      expect(normalizeOrcaVersion('2.3.0')).toBe('2.3.0.0');
+      expect(normalizeOrcaVersion('1.9')).toBe('1.9.0.0');
+      expect(normalizeOrcaVersion('2.2.1')).toBe('2.2.1.0');
+      expect(normalizeOrcaVersion('1.6.0.0')).toBe('1.6.0.0');
+    });
+
+    it('should reject unsupported or malformed versions', () => {
+      expect(normalizeOrcaVersion('1.5')).toBeUndefined();
+      expect(normalizeOrcaVersion('2.4')).toBeUndefined();
+      expect(normalizeOrcaVersion('latest')).toBeUndefined();
+    });
+  });
+
+  describe('applyVersionOverlays', () => {
+    it('should leave the base schema unchanged', () => {
+      const hash = { wall_infill_order: 'infill/outer wall/inner wall' };
+      expect(applyVersionOverlays({ ...hash }, '1.6.0.0')).toEqual(hash);
+    });
+
+    it('should give releases between overlays the schema of the older overlay', () => {
+      const hash = { wall_infill_order: 'infill/outer wall/inner wall' };
+      expect(applyVersionOverlays({ ...hash }, '1.9.0.0')).toEqual(hash);
+      expect(applyVersionOverlays({ ...hash }, '2.2.0.0')).toEqual({ wall_sequence: 'outer wall/inner wall', is_infill_first: '1' });
+    });
+
+    it('should rename keys before transforming values', () => {
+      const overlays: VersionOverlay[] = [
+        { version: '1.8.0.0', renamedKeys: { old_key: 'new_key' } },
+        { version: '2.1.0.0', renamedKeys: { new_key: 'newest_key' }, transform: (hash: NewHash) => { hash['seen'] = String(hash['newest_key']); } }
+      ];
+      expect(applyVersionOverlays({ old_key: '1' }, '1.7.0.0', overlays)).toEqual({ old_key: '1' });
+      expect(applyVersionOverlays({ old_key: '1' }, '2.0.0.0', overlays)).toEqual({ new_key: '1' });
+      expect(applyVersionOverlays({ old_key: '1' }, '2.1.0.0', overlays)).toEqual({ newest_key: '1', seen: '1' });
+    });
+
+    it('should split wall_infill_order for OrcaSlicer 2.0 and newer', () => {
+      expect(applyVersionOverlays({ wall_infill_order: 'infill/outer wall/inner wall' }, '2.0.0.0')).toEqual({
+        wall_sequence: 'outer wall/inner wall',
+        is_infill_first: '1'
+      });
+      expect(applyVersionOverlays({ wall_infill_order: 'inner wall/outer wall/infill' }, ORCA_SLICER_VERSION)).toEqual({
+        wall_sequence: 'inner wall/outer wall',
+        is_infill_first: '0'
+      });
+    });
+  });
+
+  describe('formatOrcaVersion', () => {
+    it('should pad every part to two digits', () => {
+      expect(formatOrcaVersion('2.3.0.0')).toBe('02.03.00.00');
+      expect(formatOrcaVersion('1.10.2.12')).toBe('01.10.02.12');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Support for targeting specific OrcaSlicer versions.
+ *
+ * `parameterMap` and `calculatePrintParams` produce profiles in the OrcaSlicer 1.6 schema.
+ * This module lists the supported OrcaSlicer versions and upgrades a converted profile to the
+ * schema of a target version by applying the overlays of every newer version in order.
+ */
+
+import { NewHash, ORCA_SLICER_VERSION } from './types';
+import { compareVersions } from './utils';
+
+/**
+ * Schema changes introduced by an OrcaSlicer version.
+ */
+export interface VersionOverlay {
+  /** The first OrcaSlicer version with these changes */
+  version: string;
+  /** Keys renamed in this version (old name to new name) */
+  renamedKeys?: { [key: string]: string };
+  /** Value changes that cannot be expressed as renames, applied after the renames */
+  transform?: (newHash: NewHash) => void;
+}
+
+/** The schema version produced by `parameterMap`. */
+const BASE_VERSION = '1.6.0.0';
+
+/**
+ * The range of OrcaSlicer releases that can be targeted: any release from the base schema up to
+ * the newest release, whose version is written to profiles by default.
+ */
+export const supportedOrcaVersions = {
+  oldest: BASE_VERSION,
+  newest: ORCA_SLICER_VERSION
+};
+
+/** Schema overlays, oldest first. */
+const versionOverlays: VersionOverlay[] = [
+  {
+    // wall_infill_order was split into the wall order and a separate infill-first flag
+    version: '2.0.0.0',
+    transform: newHash => {
+      const order = newHash['wall_infill_order'];
+      if (typeof order !== 'string') return;
+      const walls = order.split('/').filter(part => part !== 'infill');
+      newHash['wall_sequence'] = walls.join('/');
+      newHash['is_infill_first'] = order.startsWith('infill') ? '1' : '0';
+      delete newHash['wall_infill_order'];
+    }
+  }
+];
+
+/**
+ * Checks a user-supplied version against the range of supported OrcaSlicer versions.
+ *
+ * @param version - A version such as `2.2`, `2.2.1` or `2.2.1.0`
+ * @returns The version in four-part form, or undefined if it is malformed or outside the range
+ *   from `supportedOrcaVersions.oldest` to `supportedOrcaVersions.newest`
+ *
+ * @example
+ * ```ts
+ * normalizeOrcaVersion('2.2')   // '2.2.0.0'
+ * normalizeOrcaVersion('1.5.0') // undefined
+ * ```
+ */
+export function normalizeOrcaVersion(version: string): string | undefined {
+  if (!/^\d+(\.\d+){0,3}$/.test(version.trim())) return undefined;
+  const parts = version.trim().split('.').map(Number);
+  const normalized = [0, 1, 2, 3].map(index => parts[index] || 0).join('.');
+  if (compareVersions(normalized, supportedOrcaVersions.oldest) < 0) return undefined;
+  if (compareVersions(normalized, supportedOrcaVersions.newest) > 0) return undefined;
+  return normalized;
+}
+
+/**
+ * Upgrades a converted profile from the base schema to the schema of a target version.
+ *
+ * @param newHash - The converted profile in the OrcaSlicer 1.6 schema (modified in place)
+ * @param targetVersion - A supported OrcaSlicer version
+ * @param overlays - The schema overlays, oldest first (the known OrcaSlicer changes by default)
+ * @returns The upgraded profile
+ *
+ * @remarks
+ * Overlays are applied oldest first, for every version up to and including the target, so a
+ * release between two overlays gets the schema of the older one.
+ *
+ * @example
+ * ```ts
+ * applyVersionOverlays({ wall_infill_order: 'infill/outer wall/inner wall' }, '2.0.0.0')
+ * // { wall_sequence: 'outer wall/inner wall', is_infill_first: '1' }
+ * ```
+ */
+export function applyVersionOverlays(
+  newHash: NewHash,
+  targetVersion: string,
+  overlays: VersionOverlay[] = versionOverlays
+): NewHash {
+  for (const overlay of overlays) {
+    if (compareVersions(overlay.version, targetVersion) > 0) break;
+
+    for (const [oldKey, newKey] of Object.entries(overlay.renamedKeys || {})) {
+      if (oldKey in newHash) {
+        newHash[newKey] = newHash[oldKey];
+        delete newHash[oldKey];
+      }
+    }
+    overlay.transform?.(newHash);
+  }
+  return newHash;
+}
+
+/**
+ * Formats an OrcaSlicer version the way preset bundles and vendor profiles store it.
+ *
+ * @param version - A four-part version such as `2.3.0.0`
+ * @returns The version with two-digit parts
+ *
+ * @example
+ * ```ts
+ * formatOrcaVersion('2.3.0.0') // '02.03.00.00'
+ * ```
+ */
+export function formatOrcaVersion(version: string): string {
+  return version.split('.').map(part => part.padStart(2, '0')).join('.');
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { readZipEntry, listZipEntries, writeZip } from './zip';
+
+/**
+ * Builds a ZIP archive with one local header and central directory entry per file.
+ */
+function createZip(files: { name: string; content: string; deflate?: boolean }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8');
+    const raw = Buffer.from(file.content, 'utf-8');
+    const data = file.deflate ? zlib.deflateRawSync(raw) : raw;
+    const crc = zlib.crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+describe('zip', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readZipEntry', () => {
+    it('should read stored and deflated entries', () => {
+      const archivePath = path.join(tempDir, 'project.3mf');
+      fs.writeFileSync(archivePath, createZip([
+        { name: '3D/3dmodel.model', content: '<model/>' },
+        { name: 'Metadata/Slic3r_PE.config', content: '; layer_height = 0.2\n'.repeat(50), deflate: true }
+      ]));
+
+      expect(readZipEntry(archivePath, '3D/3dmodel.model')?.toString('utf-8')).toBe('<model/>');
+      expect(readZipEntry(archivePath, 'Metadata/Slic3r_PE.config')?.toString('utf-8'))
+        .toBe('; layer_height = 0.2\n'.repeat(50));
+    });
+
+    it('should return undefined for missing entries', () => {
+      const archivePath = path.join(tempDir, 'project.3mf');
+      fs.writeFileSync(archivePath, createZip([{ name: '3D/3dmodel.model', content: '<model/>' }]));
+      expect(readZipEntry(archivePath, 'Metadata/Slic3r_PE.config')).toBeUndefined();
+    });
+
+    it('should throw for files that are not ZIP archives', () => {
+      const filePath = path.join(tempDir, 'profile.3mf');
+      fs.writeFileSync(filePath, 'layer_height = 0.2\n');
+      expect(() => readZipEntry(filePath, 'Metadata/Slic3r_PE.config')).toThrow('Not a ZIP archive');
+    });
+  });
+
+  describe('listZipEntries', () => {
+    it('should list the entries in archive order', () => {
+      const archivePath = path.join(tempDir, 'profile.curaprofile');
+      fs.writeFileSync(archivePath, createZip([
+        { name: 'Fine_global', content: '[general]\n' },
+        { name: 'Fine_extruder_0', content: '[general]\n', deflate: true }
+      ]));
+      expect(listZipEntries(archivePath)).toEqual(['Fine_global', 'Fine_extruder_0']);
+    });
+
+    it('should read entries from archive contents already in memory', () => {
+      const archive = createZip([{ name: 'Fine_global', content: '[general]\n', deflate: true }]);
+      expect(listZipEntries(archive)).toEqual(['Fine_global']);
+      expect(readZipEntry(archive, 'Fine_global')?.toString('utf-8')).toBe('[general]\n');
+    });
+  });
+
+  describe('writeZip', () => {
+    it('should write archives that readZipEntry can read back', () => {
+      const archivePath = path.join(tempDir, 'nested', 'bundle.orca_printer');
+      writeZip(archivePath, [
+        { name: 'bundle_structure.json', content: '{}' },
+        { name: 'process/0.20mm Ünïcode.json', content: Buffer.from('{"name":"x"}') }
+      ]);
+
+      expect(readZipEntry(archivePath, 'bundle_structure.json')?.toString('utf-8')).toBe('{}');
+      expect(readZipEntry(archivePath, 'process/0.20mm Ünïcode.json')?.toString('utf-8')).toBe('{"name":"x"}');
+    });
+
+    it('should store the CRC-32 of each entry', () => {
+      const archivePath = path.join(tempDir, 'bundle.zip');
+      writeZip(archivePath, [{ name: 'a.txt', content: 'hello' }]);
+      expect(fs.readFileSync(archivePath).readUInt32LE(14)).toBe(zlib.crc32('hello'));
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Minimal ZIP archive support for 3MF project files, Cura profile exports and OrcaSlicer preset bundles.
+ *
+ * Only what 3MF files produced by PrusaSlicer and SuperSlicer need is supported: entries that
+ * are stored or deflated, without encryption or ZIP64 extensions. Archives are always written
+ * with deflated entries.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+/** Signature of the end of central directory record. */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+/** Signature of a central directory file header. */
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+/** Signature of a local file header. */
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Lookup table for the CRC-32 checksum of ZIP entries. */
+let crcTable: Uint32Array | undefined;
+
+/**
+ * A file to be written to a ZIP archive.
+ */
+export interface ZipFile {
+  /** Path of the file within the archive, with forward slashes */
+  name: string;
+  /** Contents of the file */
+  content: Buffer | string;
+}
+
+/**
+ * A file stored in a ZIP archive, as listed in its central directory.
+ */
+interface ZipEntry {
+  /** Path of the file within the archive */
+  name: string;
+  /** Compression method (0 = stored, 8 = deflated) */
+  method: number;
+  /** Size of the compressed data in bytes */
+  compressedSize: number;
+  /** Offset of the entry's local file header */
+  localHeaderOffset: number;
+}
+
+/**
+ * Reads the central directory of a ZIP archive.
+ *
+ * @param archive - The contents of the archive
+ * @returns The entries of the archive
+ * @throws {Error} If the archive has no end of central directory record
+ */
+function readCentralDirectory(archive: Buffer): ZipEntry[] {
+  // The end of central directory record is at least 22 bytes and may be followed by a comment
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    entries.push({
+      name: archive.toString('utf-8', offset + 46, offset + 46 + nameLength),
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      localHeaderOffset: archive.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Reads a ZIP archive into memory unless it already is.
+ *
+ * @param archive - The path to the ZIP archive, or its contents
+ * @returns The contents of the archive
+ */
+function loadArchive(archive: string | Buffer): Buffer {
+  return Buffer.isBuffer(archive) ? archive : fs.readFileSync(archive);
+}
+
+/**
+ * Reads a single file from a ZIP archive.
+ *
+ * @param filePath - The path to the ZIP archive (e.g. a `.3mf` project), or its contents when
+ *   several entries are read from the same archive
+ * @param entryName - The path of the file within the archive
+ * @returns The uncompressed contents of the file, or undefined if the archive does not contain it
+ * @throws {Error} If the archive cannot be read or uses an unsupported compression method
+ *
+ * @example
+ * ```ts
+ * const config = readZipEntry("benchy.3mf", "Metadata/Slic3r_PE.config")?.toString('utf-8');
+ * ```
+ */
+export function readZipEntry(filePath: string | Buffer, entryName: string): Buffer | undefined {
+  const archive = loadArchive(filePath);
+  const entry = readCentralDirectory(archive).find(candidate => candidate.name === entryName);
+  if (!entry) return undefined;
+
+  const header = entry.localHeaderOffset;
+  if (archive.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP local file header');
+  }
+  const dataStart = header + 30 + archive.readUInt16LE(header + 26) + archive.readUInt16LE(header + 28);
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return Buffer.from(data);
+  if (entry.method === 8) return zlib.inflateRawSync(data);
+  throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+}
+
+/**
+ * Lists the files in a ZIP archive.
+ *
+ * @param filePath - The path to the ZIP archive, or its contents
+ * @returns The paths of the files within the archive, in archive order
+ * @throws {Error} If the archive cannot be read
+ *
+ * @example
+ * ```ts
+ * listZipEntries("PLA fine.curaprofile") // ["PLA fine_global", "PLA fine_extruder_0"]
+ * ```
+ */
+export function listZipEntries(filePath: string | Buffer): string[] {
+  return readCentralDirectory(loadArchive(filePath)).map(entry => entry.name);
+}
+
+/**
+ * Calculates the CRC-32 checksum that ZIP archives store for each entry.
+ *
+ * @param data - The uncompressed data
+ * @returns The checksum
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes a ZIP archive.
+ *
+ * @param filePath - The path of the archive to write
+ * @param files - The files to store in the archive, in order
+ * @throws {Error} If the archive cannot be written
+ *
+ * @remarks
+ * Automatically creates parent directories if they don't exist.
+ *
+ * @example
+ * ```ts
+ * writeZip("MyPrinter.orca_printer", [{ name: "bundle_structure.json", content: "{}" }]);
+ * ```
+ */
+export function writeZip(filePath: string, files: ZipFile[]): void {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8');
+    const raw = Buffer.isBuffer(file.content) ? file.content : Buffer.from(file.content, 'utf-8');
+    const data = zlib.deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(8, 8); // deflated
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(filePath, Buffer.concat([...localParts, centralDirectory, end]));
+}